@@ -9,6 +9,7 @@ interface ImportMetaEnv {
   readonly VITE_FIREBASE_APP_ID: string;
   readonly VITE_FIREBASE_MEASUREMENT_ID?: string;
   readonly VITE_USE_FIREBASE_EMULATORS?: string;
+  readonly VITE_STORAGE_BACKEND?: "firestore" | "indexeddb";
 }
 
 interface ImportMeta {
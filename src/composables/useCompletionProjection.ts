@@ -0,0 +1,55 @@
+import type { Work } from "@/store/worksStore";
+import { useWorksStore } from "@/store/worksStore";
+import { useSettingsStore } from "@/store/settingsStore";
+import { useCustomDatesStore } from "@/store/customDatesStore";
+import { useHolidayCalendarStore } from "@/store/holidayCalendarStore";
+import { formatLocalDate } from "@/utils/dateUtils";
+import { projectCompletion, type VelocityBasis } from "@/utils/progressProjection";
+import { getWorkableHoursForDate } from "@/utils/workloadUtils";
+import { buildCompletedHoursSeries } from "@/utils/workProgressUtils";
+import { buildStageWorkloadMetrics } from "@/utils/workStoreHelpers";
+
+/**
+ * 作品の完了予測を計算するcomposable
+ * 作業可能日は本人の作業時間設定・カスタム日付・選択中の祝日セットで判定する
+ */
+export const useCompletionProjection = () => {
+  const worksStore = useWorksStore();
+  const settingsStore = useSettingsStore();
+  const customDatesStore = useCustomDatesStore();
+  const holidayCalendarStore = useHolidayCalendarStore();
+
+  const isWorkableDay = (date: string) => {
+    const [year, month, day] = date.split("-").map(Number);
+    return (
+      getWorkableHoursForDate(
+        new Date(year, month - 1, day),
+        settingsStore.workHours || [],
+        holidayCalendarStore.holidays,
+        customDatesStore.customDates || [],
+        customDatesStore.customDateRules || []
+      ) > 0
+    );
+  };
+
+  /**
+   * 作品の記録日ごとの完了工数・総工数と完了予測
+   * computed の中で呼び出すと、作品や設定の変更に合わせて再計算される
+   */
+  const projectWork = (work: Work, basis: VelocityBasis) => {
+    const metrics = buildStageWorkloadMetrics(work, settingsStore.granularities, settingsStore.stageWorkloads);
+    const series = buildCompletedHoursSeries(work.progressHistory ?? [], metrics);
+    const totalHours = worksStore.calculateActualWorkHours(work.id).totalEstimatedHours;
+
+    return {
+      series,
+      totalHours,
+      projection: projectCompletion(series, totalHours, { today: formatLocalDate(new Date()), basis, isWorkableDay }),
+    };
+  };
+
+  return {
+    isWorkableDay,
+    projectWork,
+  };
+};
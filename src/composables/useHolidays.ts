@@ -1,19 +1,26 @@
-import { ref, onMounted } from 'vue';
-import { getHolidaysWithCabinetOfficeData } from '@/utils/dateUtils';
-import type { Holiday } from '@/utils/dateUtils';
+import { ref, computed, onMounted } from 'vue';
+import { storeToRefs } from 'pinia';
+import { useAuthStore } from '@/store/authStore';
+import { useHolidayCalendarStore } from '@/store/holidayCalendarStore';
 
 /**
- * 祝日データを管理するcomposable
+ * 祝日データを管理するcomposable（ユーザーが選択した祝日セットの指定年の祝日）
  */
 export function useHolidays(year?: number) {
+  const authStore = useAuthStore();
+  const holidayCalendarStore = useHolidayCalendarStore();
+  const { user } = storeToRefs(authStore);
+
   const currentYear = ref(year ?? new Date().getFullYear());
-  const holidays = ref<Holiday[]>([]);
+  const holidays = computed(() => holidayCalendarStore.holidays.filter((holiday) => holiday.date.getFullYear() === currentYear.value));
 
   // 祝日データを更新
   const updateHolidays = async () => {
+    if (!user.value) {
+      return;
+    }
     try {
-      const yearHolidays = await getHolidaysWithCabinetOfficeData(currentYear.value);
-      holidays.value = yearHolidays;
+      await holidayCalendarStore.fetchHolidayCalendars(user.value.uid);
     } catch (error) {
       console.warn('Failed to update holidays:', error);
     }
@@ -21,7 +28,9 @@ export function useHolidays(year?: number) {
 
   // 初期化時に祝日データを読み込み
   onMounted(async () => {
-    await updateHolidays();
+    if (!holidayCalendarStore.holidayCalendarsLoaded) {
+      await updateHolidays();
+    }
   });
 
   return {
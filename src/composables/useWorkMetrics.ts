@@ -3,8 +3,21 @@ import type { Work } from "@/store/worksStore";
 import { useWorksStore } from "@/store/worksStore";
 import { useSettingsStore } from "@/store/settingsStore";
 import { useCustomDatesStore } from "@/store/customDatesStore";
-import { getHolidaysForPeriod } from "@/utils/dateUtils";
+import { useHolidayCalendarStore } from "@/store/holidayCalendarStore";
+import { useCollaboratorsStore } from "@/store/collaboratorsStore";
+import { calculateRemainingHoursByAssignee, resolveKnownAssigneeId } from "@/utils/collaborators";
 import { calculateWorkPace } from "@/utils/workloadUtils";
+import { buildStageWorkloadMetrics } from "@/utils/workStoreHelpers";
+
+/** 担当者ごとの作業ペース（collaboratorId が null は本人） */
+export interface AssigneePace {
+  collaboratorId: string | null;
+  name: string;
+  color: string | null;
+  remainingHours: number;
+  availableWorkHours: number;
+  requiredDailyHours: number;
+}
 
 /**
  * 作品の進捗指標を計算するcomposable
@@ -13,6 +26,8 @@ export const useWorkMetrics = (work: ComputedRef<Work | undefined>) => {
   const worksStore = useWorksStore();
   const settingsStore = useSettingsStore();
   const customDatesStore = useCustomDatesStore();
+  const holidayCalendarStore = useHolidayCalendarStore();
+  const collaboratorsStore = useCollaboratorsStore();
 
   /**
    * 作品の残り工数（未完了分の推定工数）を計算
@@ -51,11 +66,12 @@ export const useWorkMetrics = (work: ComputedRef<Work | undefined>) => {
     // 作業時間設定を取得
     const workHours = settingsStore.workHours || [];
 
-    // 期間内の祝日を取得
-    const holidays = getHolidaysForPeriod(today, deadlineDate);
+    // 選択中の祝日セットの祝日を取得
+    const holidays = holidayCalendarStore.holidays;
 
     // カスタム日付を取得
     const customDates = customDatesStore.customDates || [];
+    const customDateRules = customDatesStore.customDateRules || [];
 
     // calculateWorkPaceを使用して計算
     return calculateWorkPace(
@@ -64,7 +80,8 @@ export const useWorkMetrics = (work: ComputedRef<Work | undefined>) => {
       0, // 進捗率は不要
       workHours,
       holidays,
-      customDates
+      customDates,
+      customDateRules
     );
   });
 
@@ -104,10 +121,72 @@ export const useWorkMetrics = (work: ComputedRef<Work | undefined>) => {
     return paceCalc.daysUntilDeadline;
   });
 
+  /**
+   * 担当者ごとの作業ペース
+   * 本人はカスタム日付を含む自分の作業時間、アシスタントは各自の作業可能時間と祝日で計算する
+   * 削除済みのアシスタントに割り当てたユニットは本人の担当として扱う。担当の割り当てがない作品は空配列
+   */
+  const assigneePaces = computed<AssigneePace[]>(() => {
+    const workData = work.value;
+    if (!workData || !workData.deadline || collaboratorsStore.collaborators.length === 0) {
+      return [];
+    }
+
+    const metrics = buildStageWorkloadMetrics(workData, settingsStore.granularities, settingsStore.stageWorkloads);
+    if (!metrics) {
+      return [];
+    }
+
+    const remainingByAssignee = new Map<string | null, number>();
+    calculateRemainingHoursByAssignee(workData, metrics).forEach((hours, assigneeId) => {
+      const key = resolveKnownAssigneeId(assigneeId, collaboratorsStore.collaborators);
+      remainingByAssignee.set(key, (remainingByAssignee.get(key) ?? 0) + hours);
+    });
+    if ([...remainingByAssignee.keys()].every((assigneeId) => assigneeId === null)) {
+      return [];
+    }
+
+    const deadlineDate = new Date(workData.deadline);
+    deadlineDate.setHours(0, 0, 0, 0);
+
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    // 締切が過去の場合は作品全体と同じく計算しない
+    if (deadlineDate < today) {
+      return [];
+    }
+
+    return [...remainingByAssignee.entries()].map(([assigneeId, remainingHours]) => {
+      const collaborator = collaboratorsStore.getCollaboratorById(assigneeId);
+      const pace = collaborator
+        ? calculateWorkPace(deadlineDate, remainingHours, 0, collaborator.workHours, holidayCalendarStore.holidays)
+        : calculateWorkPace(
+            deadlineDate,
+            remainingHours,
+            0,
+            settingsStore.workHours || [],
+            holidayCalendarStore.holidays,
+            customDatesStore.customDates || [],
+            customDatesStore.customDateRules || []
+          );
+
+      return {
+        collaboratorId: collaborator?.id ?? null,
+        name: collaborator?.name ?? "本人",
+        color: collaborator?.color ?? null,
+        remainingHours: Number(remainingHours.toFixed(2)),
+        availableWorkHours: Number(pace.remainingWorkableHours.toFixed(2)),
+        requiredDailyHours: pace.dailyRequiredHours,
+      };
+    });
+  });
+
   return {
     remainingEstimatedHours,
     availableWorkHours,
     requiredDailyHours,
     daysUntilDeadline,
+    assigneePaces,
   };
 };
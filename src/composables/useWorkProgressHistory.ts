@@ -2,9 +2,11 @@ import { computed, ref } from 'vue';
 import { storeToRefs } from 'pinia';
 import { useWorksStore } from '@/store/worksStore';
 import { useSettingsStore } from '@/store/settingsStore';
-import { getDateRange } from '@/utils/dateUtils';
-import { buildStageWorkloadMetrics, calculateCompletedHoursFromStageCounts } from '@/utils/workStoreHelpers';
-import { cloneStageCounts, normalizeUnitStageCounts } from '@/utils/workProgressUtils';
+import { addDays, getDateRange } from '@/utils/dateUtils';
+import { useCompletionProjection } from '@/composables/useCompletionProjection';
+import type { CompletionProjection } from '@/utils/progressProjection';
+import { buildStageWorkloadMetrics } from '@/utils/workStoreHelpers';
+import { cloneStageCounts, resolveHistoryCompletedHours } from '@/utils/workProgressUtils';
 import type { UnitStageCountEntry } from '@/types/models';
 
 export type ProgressDisplayMode = 'daily' | 'cumulative-percent' | 'cumulative-units';
@@ -20,6 +22,7 @@ export function useWorkProgressHistory() {
   const { works } = storeToRefs(worksStore);
   const settingsStore = useSettingsStore();
   const { granularities, stageWorkloads } = storeToRefs(settingsStore);
+  const { projectWork } = useCompletionProjection();
 
   // 表示モード
   const displayMode = ref<ProgressDisplayMode>('daily');
@@ -28,6 +31,9 @@ export function useWorkProgressHistory() {
   const startDateFilter = ref<string>('');
   const endDateFilter = ref<string>('');
 
+  // 累計表示で完了予測（作業可能日あたりの直近のペース）を表示するか
+  const showProjection = ref(false);
+
   /**
    * グラフ用のデータセット（作品ごと）
    */
@@ -55,22 +61,13 @@ export function useWorkProgressHistory() {
           const previousStageCounts = previousPoint?.unitStageCounts ?? [];
 
           if (historyEntry) {
-            const hasStructuredStageCounts = Array.isArray(historyEntry.unitStageCounts)
-              && historyEntry.unitStageCounts.some(entry => entry && typeof entry === 'object' && 'stageId' in entry);
-            const normalizedCounts = hasStructuredStageCounts
-              ? normalizeUnitStageCounts(historyEntry.unitStageCounts, stageMetrics)
-              : [];
-            const hasActualStageCounts = normalizedCounts.length > 0;
-
-            const rawDerivedHours = hasActualStageCounts
-              ? calculateCompletedHoursFromStageCounts(normalizedCounts, stageMetrics)
-              : 0;
-            const derivedCompletedHours = Number.isFinite(rawDerivedHours) ? rawDerivedHours : 0;
-
             const previousCompleted = previousPoint ? previousPoint.completedHours : 0;
-            const currentCompletedHours = hasActualStageCounts
-              ? derivedCompletedHours
-              : (historyEntry.completedHours ?? previousCompleted);
+            const { completedHours: currentCompletedHours, unitStageCounts: normalizedCounts } = resolveHistoryCompletedHours(
+              historyEntry,
+              stageMetrics,
+              previousCompleted
+            );
+            const hasActualStageCounts = normalizedCounts.length > 0;
 
             const diff = currentCompletedHours - previousCompleted;
             const stageCounts = hasActualStageCounts
@@ -144,17 +141,35 @@ export function useWorkProgressHistory() {
    * Chart.js用のデータ形式に変換
    */
   const chartData = computed(() => {
-    const dates = allDates.value;
     const mode = displayMode.value;
 
-    const datasets = progressDatasets.value.map((dataset, index) => {
+    const projections = new Map<string, CompletionProjection | null>();
+    if (showProjection.value && mode !== 'daily') {
+      progressDatasets.value.forEach(dataset => {
+        const work = works.value.find(w => w.id === dataset.workId);
+        projections.set(dataset.workId, work ? projectWork(work, 'workable').projection : null);
+      });
+    }
+
+    // 完了予測日まで日付を延ばす（終了日フィルタがあればそこまで）
+    let dates = allDates.value;
+    const lastDate = dates[dates.length - 1];
+    const projectedEnd = [...projections.values()]
+      .map(projection => projection?.points[projection.points.length - 1]?.date ?? '')
+      .reduce((latest, date) => (date > latest ? date : latest), '');
+    const extendTo = endDateFilter.value && endDateFilter.value < projectedEnd ? endDateFilter.value : projectedEnd;
+    if (lastDate && extendTo > lastDate) {
+      dates = [...dates, ...getDateRange(addDays(lastDate, 1), extendTo)];
+    }
+
+    const datasets = progressDatasets.value.flatMap((dataset, index) => {
       // 各作品の色を自動生成（HSL形式で色相を分散）
       const hue = (index * 360 / progressDatasets.value.length) % 360;
       const color = `hsl(${hue}, 70%, 50%)`;
 
       // 作品データを取得
       const work = works.value.find(w => w.id === dataset.workId);
-      if (!work) return null;
+      if (!work) return [];
 
       // 作品の総工数を共通関数から取得
       const workMetrics = worksStore.calculateActualWorkHours(dataset.workId);
@@ -185,7 +200,7 @@ export function useWorkProgressHistory() {
         }
       });
 
-      return {
+      const actualDataset = {
         label: dataset.workTitle,
         data,
         borderColor: color,
@@ -194,9 +209,35 @@ export function useWorkProgressHistory() {
         tension: 0.1,
         pointRadius: 4,
         pointHoverRadius: 6,
+        borderDash: [] as number[],
         spanGaps: false // nullの部分は線を引かない
       };
-    }).filter(d => d !== null);
+
+      // 完了予測は最後の記録から破線で延ばす
+      const projectedByDate = new Map((projections.get(dataset.workId)?.points ?? []).map(point => [point.date, point.expected]));
+      if (projectedByDate.size === 0) {
+        return [actualDataset];
+      }
+      const projectedData = dates.map(date => {
+        const value = projectedByDate.get(date);
+        if (value === undefined) return null;
+        return mode === 'cumulative-percent' ? (value / totalHours) * 100 : value;
+      });
+
+      return [
+        actualDataset,
+        {
+          ...actualDataset,
+          label: `${dataset.workTitle}（予測）`,
+          data: projectedData,
+          backgroundColor: 'transparent',
+          borderWidth: 1.5,
+          pointRadius: 0,
+          pointHoverRadius: 3,
+          borderDash: [6, 4]
+        }
+      ];
+    });
 
     return {
       labels: dates.map(date => {
@@ -212,6 +253,7 @@ export function useWorkProgressHistory() {
     displayMode,
     startDateFilter,
     endDateFilter,
+    showProjection,
     progressDatasets,
     allDates,
     chartData
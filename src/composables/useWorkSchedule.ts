@@ -0,0 +1,153 @@
+import { computed } from "vue";
+import { storeToRefs } from "pinia";
+import { useAuthStore } from "@/store/authStore";
+import { useWorksStore } from "@/store/worksStore";
+import { useSettingsStore } from "@/store/settingsStore";
+import { useCustomDatesStore } from "@/store/customDatesStore";
+import { useHolidayCalendarStore } from "@/store/holidayCalendarStore";
+import { formatLocalDate } from "@/utils/dateUtils";
+import { resolveStageColors } from "@/utils/workProgressUtils";
+import { buildStageWorkloadMetrics, calculateRemainingHoursByStage } from "@/utils/workStoreHelpers";
+import { getWorkableHoursForDate } from "@/utils/workloadUtils";
+import { buildWorkSchedule, splitAllocationByStage, type SchedulableWork } from "@/utils/workScheduler";
+
+export interface DailyPlanWork {
+  workId: string;
+  title: string;
+  hours: number;
+}
+
+export interface DailyPlan {
+  date: string;
+  capacity: number;
+  /** 割り当てた工数に、締切に間に合わない作品の不足分を上乗せした必要工数 */
+  demand: number;
+  overloaded: boolean;
+  works: DailyPlanWork[];
+}
+
+export interface DailyPlanStageBreakdown extends DailyPlanWork {
+  stages: Array<{ label: string; color: string; hours: number }>;
+}
+
+/**
+ * 未完了の全作品に日ごとの作業可能時間を割り当てた作業計画を取得するcomposable
+ * 作品ごとのペース計算と異なり、同じ日の作業時間を複数作品で分け合う前提で締切遅延を判定する
+ */
+export const useWorkSchedule = () => {
+  const authStore = useAuthStore();
+  const worksStore = useWorksStore();
+  const settingsStore = useSettingsStore();
+  const customDatesStore = useCustomDatesStore();
+  const holidayCalendarStore = useHolidayCalendarStore();
+
+  const { user } = storeToRefs(authStore);
+  const { works } = storeToRefs(worksStore);
+  const { workHours, granularities, stageWorkloads } = storeToRefs(settingsStore);
+  const { customDates, customDateRules } = storeToRefs(customDatesStore);
+  const { holidays } = storeToRefs(holidayCalendarStore);
+
+  /** 自分が作業する作品か（閲覧だけの共有作品は自分の作業時間を割り当てない） */
+  const isOwnWorkload = (workId: string) => {
+    const role = worksStore.getWorkRole(workId, user.value?.uid ?? null);
+    return role === "owner" || role === "editor";
+  };
+
+  const schedulableWorks = computed<SchedulableWork[]>(() =>
+    works.value
+      .filter((work) => work.status !== "完了" && isOwnWorkload(work.id))
+      .map((work) => ({
+        id: work.id,
+        title: work.title,
+        deadline: work.deadline,
+        remainingHours: worksStore.calculateActualWorkHours(work.id).remainingEstimatedHours,
+        priority: work.priority ?? 0,
+      }))
+      .filter((work) => work.remainingHours > 0),
+  );
+
+  const getCapacity = (date: string) => {
+    const [year, month, day] = date.split("-").map(Number);
+    return getWorkableHoursForDate(new Date(year, month - 1, day), workHours.value, holidays.value, customDates.value, customDateRules.value);
+  };
+
+  const startDate = computed(() => formatLocalDate(new Date()));
+
+  const schedule = computed(() => {
+    if (!workHours.value.length) {
+      return null;
+    }
+    return buildWorkSchedule(schedulableWorks.value, {
+      startDate: startDate.value,
+      getCapacity,
+    });
+  });
+
+  const missedWorks = computed(() => schedule.value?.works.filter((result) => result.missesDeadline) ?? []);
+
+  const titleById = computed(() => new Map(works.value.map((work) => [work.id, work.title])));
+
+  /** 日付ごとの作業計画（割り当て・必要工数・過負荷判定） */
+  const dailyPlans = computed<Record<string, DailyPlan>>(() => {
+    if (!schedule.value) {
+      return {};
+    }
+
+    const plans: Record<string, DailyPlan> = {};
+
+    schedule.value.days.forEach((day) => {
+      plans[day.date] = {
+        date: day.date,
+        capacity: day.capacity,
+        demand: day.demand,
+        overloaded: day.overloaded,
+        works: day.allocations.map((allocation) => ({ ...allocation, title: titleById.value.get(allocation.workId) ?? "" })),
+      };
+    });
+
+    return plans;
+  });
+
+  /** 指定日の作品ごとの割り当て時間 */
+  const getAllocationsForDate = (date: string) => schedule.value?.days.find((day) => day.date === date)?.allocations ?? [];
+
+  /** 指定日の作品・工程別の割り当て内訳 */
+  const getStageBreakdownForDate = (date: string): DailyPlanStageBreakdown[] => {
+    const plan = dailyPlans.value[date];
+    if (!plan || !schedule.value) {
+      return [];
+    }
+
+    return plan.works.map((allocation) => {
+      const work = worksStore.getWorkById(allocation.workId);
+      const metrics = work ? buildStageWorkloadMetrics(work, granularities.value, stageWorkloads.value) : null;
+      if (!work || !metrics) {
+        return { ...allocation, stages: [] };
+      }
+
+      // 前日までに割り当て済みの時間
+      const consumedHours = (schedule.value?.days ?? [])
+        .filter((day) => day.date < date)
+        .reduce((sum, day) => sum + (day.allocations.find((item) => item.workId === allocation.workId)?.hours ?? 0), 0);
+
+      const stageHours = splitAllocationByStage(calculateRemainingHoursByStage(work, metrics), consumedHours, allocation.hours);
+      const colors = resolveStageColors(metrics.stageWorkloads);
+
+      return {
+        ...allocation,
+        stages: metrics.stageWorkloads
+          .map((stage, index) => ({ label: stage.label, color: colors[index], hours: stageHours[index] ?? 0 }))
+          .filter((stage) => stage.hours > 0),
+      };
+    });
+  };
+
+  return {
+    schedule,
+    missedWorks,
+    dailyPlans,
+    getAllocationsForDate,
+    getStageBreakdownForDate,
+    getCapacity,
+  };
+};
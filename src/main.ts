@@ -3,12 +3,14 @@ import "@/styles/bootstrap.scss";
 import "bootstrap/dist/js/bootstrap.bundle.min.js";
 import "bootstrap-icons/font/bootstrap-icons.css";
 
-import { createApp } from "vue";
+import { createApp, watch } from "vue";
 import { createPinia } from "pinia";
 
 import App from "./App.vue";
 import router from "./router";
 import { useAuthStore } from "@/store/authStore";
+import { useOutboxStore } from "@/store/outboxStore";
+import { isLiveSyncPreferred, useWorksStore } from "@/store/worksStore";
 
 const bootstrap = async () => {
   const app = createApp(App);
@@ -20,6 +22,29 @@ const bootstrap = async () => {
   const authStore = useAuthStore(pinia);
   await authStore.ensureInitialized();
 
+  // 送信待ちの書き込みをログイン時と接続回復時に再送
+  const outboxStore = useOutboxStore(pinia);
+  outboxStore.startAutoReplay(() => authStore.user?.uid ?? null);
+  const worksStore = useWorksStore(pinia);
+  // 再送前の確認で他の端末の保存と競合した作品は、保存時の競合と同じく確認を求める
+  outboxStore.setConflictListener(() => worksStore.applyOutboxConflicts());
+  watch(
+    () => authStore.user?.uid ?? null,
+    (uid) => {
+      if (uid) {
+        void outboxStore.replay(uid);
+      }
+
+      // リアルタイム同期は有効にしている端末でのみ購読する
+      if (uid && isLiveSyncPreferred()) {
+        worksStore.startLiveSync(uid);
+      } else {
+        worksStore.stopLiveSync();
+      }
+    },
+    { immediate: true },
+  );
+
   await router.isReady();
   app.mount("#app");
 };
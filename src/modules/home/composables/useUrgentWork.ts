@@ -3,19 +3,21 @@ import { storeToRefs } from 'pinia';
 import { useSettingsStore } from '@/store/settingsStore';
 import { useWorksStore } from '@/store/worksStore';
 import { useCustomDatesStore } from '@/store/customDatesStore';
+import { useHolidayCalendarStore } from '@/store/holidayCalendarStore';
 import { calculateWorkPace } from '@/utils/workloadUtils';
-import type { Holiday } from '@/utils/dateUtils';
 
 /**
  * 最も緊急度の高い作品を取得するcomposable
  */
-export function useUrgentWork(holidays: Holiday[]) {
+export function useUrgentWork() {
   const settingsStore = useSettingsStore();
   const worksStore = useWorksStore();
   const customDatesStore = useCustomDatesStore();
+  const holidayCalendarStore = useHolidayCalendarStore();
 
   const { workHours } = storeToRefs(settingsStore);
   const { works } = storeToRefs(worksStore);
+  const { holidays } = storeToRefs(holidayCalendarStore);
 
   // 作業ペース計算
   const workPaceCalculations = computed(() => {
@@ -42,8 +44,9 @@ export function useUrgentWork(holidays: Holiday[]) {
           totalRemainingHours,
           metrics.progressPercentage / 100,
           workHours.value,
-          holidays,
-          customDatesStore.customDates
+          holidays.value,
+          customDatesStore.customDates,
+          customDatesStore.customDateRules
         );
 
         return {
@@ -1,3 +1,5 @@
+import { getCompletedStageIds, isLinearStageFlow, resolveStageId, type StageNode } from '@/utils/stageGraph';
+
 /**
  * 背景色に対して適切なテキスト色を返す関数
  */
@@ -62,26 +64,52 @@ export const collectLeafUnits = <T extends { children?: T[] }>(units: T[]): T[]
   return result;
 };
 
+/**
+ * 指定された工程の完了ユニット数を計算
+ * 前提工程で分岐する工程（stages を指定）は工程ごとの完了記録で、直列の工程は stageIndex で判定する
+ * @param units - 作品のユニット配列
+ * @param stageIndex - 工程のインデックス
+ * @param stages - 作品の工程設定（前提工程の判定に使用）
+ * @returns 完了ユニット数と最下位ユニット数
+ */
+export const countStageCompletedUnits = <T extends { children?: T[]; stageIndex?: number; completedStageIds?: number[] }>(
+  units: T[],
+  stageIndex: number,
+  stages?: StageNode[]
+): { completed: number; total: number } => {
+  const allLeaves = units ? collectLeafUnits(units) : [];
+
+  if (stages && stages[stageIndex] && !isLinearStageFlow(stages)) {
+    const stageId = resolveStageId(stages[stageIndex], stageIndex);
+    const completed = allLeaves.filter(leaf => getCompletedStageIds(leaf, stages).has(stageId)).length;
+    return { completed, total: allLeaves.length };
+  }
+
+  // 指定された工程以上まで完了しているユニットの数
+  const completed = allLeaves.filter(leaf => (leaf.stageIndex ?? 0) >= stageIndex).length;
+  return { completed, total: allLeaves.length };
+};
+
 /**
  * 指定された工程までの進捗率を計算
  * @param units - 作品のユニット配列
  * @param stageIndex - 工程のインデックス
+ * @param stages - 作品の工程設定（前提工程で分岐する場合に指定）
  * @returns 進捗率（0-100）
  */
-export const calculateStageProgress = <T extends { children?: T[]; stageIndex?: number }>(
+export const calculateStageProgress = <T extends { children?: T[]; stageIndex?: number; completedStageIds?: number[] }>(
   units: T[],
-  stageIndex: number
+  stageIndex: number,
+  stages?: StageNode[]
 ): number => {
   if (!units || units.length === 0) {
     return 0;
   }
 
-  const allLeaves = collectLeafUnits(units);
-  if (allLeaves.length === 0) {
+  const { completed, total } = countStageCompletedUnits(units, stageIndex, stages);
+  if (total === 0) {
     return 0;
   }
 
-  // 指定された工程以上まで完了しているユニットの数
-  const completedCount = allLeaves.filter(leaf => (leaf.stageIndex ?? 0) >= stageIndex).length;
-  return Math.round((completedCount / allLeaves.length) * 100);
+  return Math.round((completed / total) * 100);
 };
@@ -41,6 +41,12 @@ const router = createRouter({
       component: () => import("@/modules/settings/SettingsView.vue"),
       meta: { requiresAuth: true },
     },
+    {
+      // 公開リンク（ログイン不要。トークンで指定した作品の進捗のみ表示）
+      path: "/share/:token",
+      name: "public-progress",
+      component: () => import("@/modules/share/PublicProgressView.vue"),
+    },
     {
       path: "/about",
       name: "about",
@@ -0,0 +1,589 @@
+import { getCollectionDocs } from "@/services/firebase/firestoreService";
+import { buildHolidaySetCollectionPath, buildHolidaySetDocumentPath, holidaySetService, type HolidaySetDocument } from "@/services/holidaySetService";
+import { CUSTOM_DATE_TYPES, useCustomDatesStore, type CustomDate, type CustomDateRule } from "@/store/customDatesStore";
+import { useCollaboratorsStore, type Collaborator } from "@/store/collaboratorsStore";
+import { useHolidayCalendarStore } from "@/store/holidayCalendarStore";
+import { useOutboxStore, type OutboxWriteRequest } from "@/store/outboxStore";
+import { useSettingsStore, type Granularity, type StageWorkload, type WorkHourRange } from "@/store/settingsStore";
+import { useWorksStore } from "@/store/worksStore";
+import type { WorkDocument } from "@/types/work";
+import { JAPANESE_HOLIDAY_SET_ID } from "@/utils/holidaySets";
+import { buildPublicShareDocumentPath } from "@/utils/publicShare";
+import { buildWorkCollectionPath, buildWorkDocumentPath } from "@/utils/workStoreHelpers";
+import { mapDocumentToWork, serializeWork } from "@/utils/workSerializer";
+import { assertValidWorkDocument, validateWorkDocument } from "@/utils/workSchema";
+
+/**
+ * バックアップファイルの形式識別子とスキーマバージョン
+ * - 1: 作品・作業粒度・工程と工数・作業可能時間・カスタム日付
+ * - 2: カスタム日付の繰り返しルールを追加
+ * - 3: 取り込んだ祝日セットと祝日セットの選択を追加
+ * - 4: アシスタント（作品の担当者）を追加
+ */
+export const ACCOUNT_BACKUP_FORMAT = "mangaflowmanager-backup";
+export const ACCOUNT_BACKUP_SCHEMA_VERSION = 4;
+
+export type AccountBackupWork = WorkDocument & { id: string };
+export type AccountBackupCustomDate = Omit<CustomDate, "id">;
+export type AccountBackupCustomDateRule = CustomDateRule;
+export type AccountBackupHolidaySet = HolidaySetDocument & { id: string };
+
+/** 取り込んだ祝日セットと、計算に使う祝日セットの選択 */
+export interface AccountBackupHolidayCalendars {
+  selectedSetIds: string[];
+  sets: AccountBackupHolidaySet[];
+}
+
+export interface AccountBackupData {
+  works: AccountBackupWork[];
+  granularities: Granularity[];
+  stageWorkloads: StageWorkload[];
+  workHours: WorkHourRange[];
+  customDates: AccountBackupCustomDate[];
+  customDateRules: AccountBackupCustomDateRule[];
+  holidayCalendars: AccountBackupHolidayCalendars;
+  collaborators: Collaborator[];
+}
+
+export interface AccountBackupBundle {
+  format: typeof ACCOUNT_BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  data: AccountBackupData;
+}
+
+export type AccountBackupCollection = keyof AccountBackupData;
+
+/** 取り込み方法（merge: 既存に追加・同じIDは上書き / replace: 既存を置き換え / skip: 取り込まない） */
+export type AccountBackupImportMode = "merge" | "replace" | "skip";
+
+export type AccountBackupImportModes = Record<AccountBackupCollection, AccountBackupImportMode>;
+
+/** since: そのデータを含むようになったスキーマバージョン（未設定は 1） */
+export const ACCOUNT_BACKUP_COLLECTIONS: { key: AccountBackupCollection; label: string; since?: number }[] = [
+  { key: "works", label: "作品" },
+  { key: "granularities", label: "作業粒度" },
+  { key: "stageWorkloads", label: "工程と工数" },
+  { key: "workHours", label: "作業可能時間" },
+  { key: "customDates", label: "カスタム日付" },
+  { key: "customDateRules", label: "繰り返しルール", since: 2 },
+  { key: "holidayCalendars", label: "祝日セット", since: 3 },
+  { key: "collaborators", label: "アシスタント", since: 4 },
+];
+
+/** バックアップにそのデータが含まれているか（古い形式のバックアップは後から追加したデータを含まない） */
+export const isAccountBackupCollectionIncluded = (bundle: Pick<AccountBackupBundle, "schemaVersion">, key: AccountBackupCollection) =>
+  (ACCOUNT_BACKUP_COLLECTIONS.find((collection) => collection.key === key)?.since ?? 1) <= bundle.schemaVersion;
+
+/** 検証結果（errors が空の場合のみ bundle が設定される） */
+export interface AccountBackupParseResult {
+  bundle: AccountBackupBundle | null;
+  errors: string[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+/**
+ * アカウントの全データを読み込み、バックアップ用のバンドルを作成
+ */
+export const exportAccountBackup = async (userId: string): Promise<AccountBackupBundle> => {
+  if (!userId) {
+    throw new Error("ユーザー情報が取得できませんでした。");
+  }
+
+  const settingsStore = useSettingsStore();
+  const customDatesStore = useCustomDatesStore();
+  const holidayCalendarStore = useHolidayCalendarStore();
+  const collaboratorsStore = useCollaboratorsStore();
+
+  const [workDocuments, holidaySetDocuments] = await Promise.all([
+    getCollectionDocs<WorkDocument>(buildWorkCollectionPath(userId)),
+    getCollectionDocs<HolidaySetDocument>(buildHolidaySetCollectionPath(userId)),
+    settingsStore.fetchGranularities(userId).then(() => settingsStore.fetchStageWorkloads(userId)),
+    settingsStore.fetchWorkHours(userId),
+    customDatesStore.fetchCustomDates(userId),
+    holidayCalendarStore.fetchHolidayCalendars(userId),
+    collaboratorsStore.fetchCollaborators(userId),
+  ]);
+
+  const works = workDocuments.map((document) => {
+    const work = mapDocumentToWork(document);
+    return { id: work.id, ...serializeWork(work) };
+  });
+
+  return {
+    format: ACCOUNT_BACKUP_FORMAT,
+    schemaVersion: ACCOUNT_BACKUP_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: {
+      works,
+      granularities: settingsStore.granularities.map((item) => ({ ...item })),
+      stageWorkloads: settingsStore.stageWorkloads.map((stage) => ({ ...stage })),
+      workHours: settingsStore.workHours.map((range) => ({ ...range })),
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      customDates: customDatesStore.customDates.map(({ id: _, ...rest }) => ({ ...rest })),
+      customDateRules: customDatesStore.customDateRules.map((rule) => ({ ...rule })),
+      holidayCalendars: {
+        selectedSetIds: [...holidayCalendarStore.selectedSetIds],
+        sets: holidaySetDocuments.map((document) => ({ ...document, holidays: document.holidays ?? [] })),
+      },
+      collaborators: collaboratorsStore.collaborators.map((collaborator) => ({ ...collaborator, workHours: collaborator.workHours.map((range) => ({ ...range })) })),
+    },
+  };
+};
+
+/** バックアップのファイル名（例: mangaflowmanager-backup-2025-01-31.json） */
+export const buildAccountBackupFileName = (bundle: AccountBackupBundle) => `${ACCOUNT_BACKUP_FORMAT}-${bundle.exportedAt.slice(0, 10)}.json`;
+
+const validateWorks = (value: unknown, errors: string[]): AccountBackupWork[] => {
+  if (!Array.isArray(value)) {
+    errors.push("作品データが配列ではありません。");
+    return [];
+  }
+
+  return value.flatMap((item, index) => {
+    if (!isRecord(item) || typeof item.id !== "string" || item.id.trim().length === 0) {
+      errors.push(`作品 ${index + 1} 件目: IDがありません。`);
+      return [];
+    }
+    if (typeof item.title !== "string") {
+      errors.push(`作品 ${index + 1} 件目: タイトルが不正です。`);
+      return [];
+    }
+    if (item.units !== undefined && !Array.isArray(item.units)) {
+      errors.push(`作品「${item.title}」: 構造（units）が配列ではありません。`);
+      return [];
+    }
+
+    // mapDocumentToWork で正規化してから保存形式に戻し、保存時と同じ形式の検証をする
+    const work = mapDocumentToWork(item as unknown as AccountBackupWork);
+    const document = serializeWork(work);
+    const violations = validateWorkDocument(document);
+    if (violations.length > 0) {
+      errors.push(...violations.map((violation) => `作品「${item.title}」: ${violation}`));
+      return [];
+    }
+    return [{ id: work.id, ...document }];
+  });
+};
+
+const validateGranularities = (value: unknown, errors: string[]): Granularity[] => {
+  if (!Array.isArray(value)) {
+    errors.push("作業粒度が配列ではありません。");
+    return [];
+  }
+
+  return value.flatMap((item, index) => {
+    if (!isRecord(item) || typeof item.id !== "string" || typeof item.label !== "string" || !isFiniteNumber(item.weight)) {
+      errors.push(`作業粒度 ${index + 1} 件目: id / label / weight が不正です。`);
+      return [];
+    }
+    return [{ id: item.id, label: item.label, weight: item.weight, defaultCount: isFiniteNumber(item.defaultCount) ? item.defaultCount : 1 }];
+  });
+};
+
+const validateStageWorkloads = (value: unknown, errors: string[]): StageWorkload[] => {
+  if (!Array.isArray(value)) {
+    errors.push("工程データが配列ではありません。");
+    return [];
+  }
+
+  return value.flatMap((item, index) => {
+    if (!isRecord(item) || !isFiniteNumber(item.id) || typeof item.label !== "string") {
+      errors.push(`工程 ${index + 1} 件目: id / label が不正です。`);
+      return [];
+    }
+    return [
+      {
+        ...(item as unknown as StageWorkload),
+        color: typeof item.color === "string" ? item.color : "",
+        baseHours: isFiniteNumber(item.baseHours) ? item.baseHours : null,
+      },
+    ];
+  });
+};
+
+const validateWorkHours = (value: unknown, errors: string[]): WorkHourRange[] => {
+  if (!Array.isArray(value)) {
+    errors.push("作業可能時間が配列ではありません。");
+    return [];
+  }
+
+  return value.flatMap((item, index) => {
+    if (!isRecord(item) || typeof item.day !== "string" || !isFiniteNumber(item.hours) || item.hours < 0) {
+      errors.push(`作業可能時間 ${index + 1} 件目: day / hours が不正です。`);
+      return [];
+    }
+    return [{ ...(item as unknown as WorkHourRange) }];
+  });
+};
+
+const validateCustomDates = (value: unknown, errors: string[]): AccountBackupCustomDate[] => {
+  if (!Array.isArray(value)) {
+    errors.push("カスタム日付が配列ではありません。");
+    return [];
+  }
+
+  return value.flatMap((item, index) => {
+    if (!isRecord(item) || typeof item.date !== "string" || !DATE_PATTERN.test(item.date)) {
+      errors.push(`カスタム日付 ${index + 1} 件目: 日付が YYYY-MM-DD 形式ではありません。`);
+      return [];
+    }
+    if (typeof item.type !== "string" || !(CUSTOM_DATE_TYPES as readonly string[]).includes(item.type)) {
+      errors.push(`カスタム日付 ${item.date}: 種類が不正です。`);
+      return [];
+    }
+    const now = new Date().toISOString();
+    return [
+      {
+        ...(item as unknown as AccountBackupCustomDate),
+        createdAt: typeof item.createdAt === "string" ? item.createdAt : now,
+        updatedAt: typeof item.updatedAt === "string" ? item.updatedAt : now,
+      },
+    ];
+  });
+};
+
+const CUSTOM_DATE_RECURRENCE_FREQUENCIES = ["weekly", "monthly", "yearly"];
+
+const validateCustomDateRules = (value: unknown, errors: string[]): AccountBackupCustomDateRule[] => {
+  if (!Array.isArray(value)) {
+    errors.push("繰り返しルールが配列ではありません。");
+    return [];
+  }
+
+  return value.flatMap((item, index) => {
+    if (!isRecord(item) || typeof item.id !== "string" || item.id.trim().length === 0 || typeof item.label !== "string") {
+      errors.push(`繰り返しルール ${index + 1} 件目: id / label が不正です。`);
+      return [];
+    }
+    if (!isRecord(item.recurrence) || !CUSTOM_DATE_RECURRENCE_FREQUENCIES.includes(item.recurrence.frequency as string)) {
+      errors.push(`繰り返しルール「${item.label}」: 繰り返し条件が不正です。`);
+      return [];
+    }
+    if (typeof item.type !== "string" || !(CUSTOM_DATE_TYPES as readonly string[]).includes(item.type)) {
+      errors.push(`繰り返しルール「${item.label}」: 種類が不正です。`);
+      return [];
+    }
+    if (typeof item.startDate !== "string" || !DATE_PATTERN.test(item.startDate) || (typeof item.endDate === "string" && !DATE_PATTERN.test(item.endDate))) {
+      errors.push(`繰り返しルール「${item.label}」: 適用期間が YYYY-MM-DD 形式ではありません。`);
+      return [];
+    }
+    const now = new Date().toISOString();
+    return [
+      {
+        ...(item as unknown as AccountBackupCustomDateRule),
+        endDate: typeof item.endDate === "string" ? item.endDate : null,
+        exceptions: Array.isArray(item.exceptions) ? item.exceptions.filter((date): date is string => typeof date === "string" && DATE_PATTERN.test(date)) : [],
+        createdAt: typeof item.createdAt === "string" ? item.createdAt : now,
+        updatedAt: typeof item.updatedAt === "string" ? item.updatedAt : now,
+      },
+    ];
+  });
+};
+
+const validateHolidayCalendars = (value: unknown, errors: string[]): AccountBackupHolidayCalendars => {
+  if (!isRecord(value) || !Array.isArray(value.sets)) {
+    errors.push("祝日セットの形式が不正です。");
+    return { selectedSetIds: [], sets: [] };
+  }
+
+  const sets = value.sets.flatMap((item, index) => {
+    if (!isRecord(item) || typeof item.id !== "string" || item.id.trim().length === 0 || item.id === JAPANESE_HOLIDAY_SET_ID || typeof item.name !== "string") {
+      errors.push(`祝日セット ${index + 1} 件目: id / name が不正です。`);
+      return [];
+    }
+    if (!Array.isArray(item.holidays) || item.holidays.some((entry) => !isRecord(entry) || typeof entry.date !== "string" || !DATE_PATTERN.test(entry.date) || typeof entry.name !== "string")) {
+      errors.push(`祝日セット「${item.name}」: 祝日の日付が YYYY-MM-DD 形式ではありません。`);
+      return [];
+    }
+    const now = new Date().toISOString();
+    return [
+      {
+        id: item.id,
+        name: item.name,
+        holidays: (item.holidays as Record<string, unknown>[]).map((entry) => ({ date: entry.date as string, name: entry.name as string })),
+        createdAt: typeof item.createdAt === "string" ? item.createdAt : now,
+        updatedAt: typeof item.updatedAt === "string" ? item.updatedAt : now,
+      },
+    ];
+  });
+
+  // 含まれていない祝日セットの選択は取り込まない
+  const knownIds = new Set([JAPANESE_HOLIDAY_SET_ID, ...sets.map((set) => set.id)]);
+  const selectedSetIds = Array.isArray(value.selectedSetIds) ? value.selectedSetIds.filter((id): id is string => typeof id === "string" && knownIds.has(id)) : [];
+
+  return { selectedSetIds: [...new Set(selectedSetIds)], sets };
+};
+
+const validateCollaborators = (value: unknown, errors: string[]): Collaborator[] => {
+  if (!Array.isArray(value)) {
+    errors.push("アシスタントが配列ではありません。");
+    return [];
+  }
+
+  return value.flatMap((item, index) => {
+    if (!isRecord(item) || typeof item.id !== "string" || item.id.trim().length === 0 || typeof item.name !== "string") {
+      errors.push(`アシスタント ${index + 1} 件目: id / name が不正です。`);
+      return [];
+    }
+    const workHours = item.workHours ?? [];
+    if (!Array.isArray(workHours) || workHours.some((range) => !isRecord(range) || typeof range.day !== "string" || !isFiniteNumber(range.hours) || range.hours < 0)) {
+      errors.push(`アシスタント「${item.name}」: 作業可能時間の day / hours が不正です。`);
+      return [];
+    }
+    return [
+      {
+        id: item.id,
+        name: item.name,
+        color: typeof item.color === "string" ? item.color : "#6c757d",
+        workHours: (workHours as WorkHourRange[]).map((range) => ({ ...range })),
+      },
+    ];
+  });
+};
+
+/**
+ * バックアップファイルの内容を検証してバンドルに変換
+ * 古い形式のバックアップに含まれないデータは空として扱う（取り込み時は対象外）
+ */
+export const parseAccountBackup = (text: string): AccountBackupParseResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { bundle: null, errors: ["JSONとして読み込めませんでした。"] };
+  }
+
+  if (!isRecord(raw) || raw.format !== ACCOUNT_BACKUP_FORMAT) {
+    return { bundle: null, errors: ["Manga Flow Manager のバックアップファイルではありません。"] };
+  }
+  if (!isFiniteNumber(raw.schemaVersion) || raw.schemaVersion < 1) {
+    return { bundle: null, errors: ["スキーマバージョンが不正です。"] };
+  }
+  if (raw.schemaVersion > ACCOUNT_BACKUP_SCHEMA_VERSION) {
+    return { bundle: null, errors: [`このバックアップ（バージョン${raw.schemaVersion}）は新しい形式のため読み込めません。アプリを更新してください。`] };
+  }
+  if (!isRecord(raw.data)) {
+    return { bundle: null, errors: ["データ本体（data）がありません。"] };
+  }
+
+  const errors: string[] = [];
+  const data: AccountBackupData = {
+    works: validateWorks(raw.data.works ?? [], errors),
+    granularities: validateGranularities(raw.data.granularities ?? [], errors),
+    stageWorkloads: validateStageWorkloads(raw.data.stageWorkloads ?? [], errors),
+    workHours: validateWorkHours(raw.data.workHours ?? [], errors),
+    customDates: validateCustomDates(raw.data.customDates ?? [], errors),
+    customDateRules: raw.schemaVersion >= 2 ? validateCustomDateRules(raw.data.customDateRules ?? [], errors) : [],
+    holidayCalendars: raw.schemaVersion >= 3 ? validateHolidayCalendars(raw.data.holidayCalendars ?? { sets: [] }, errors) : { selectedSetIds: [], sets: [] },
+    collaborators: raw.schemaVersion >= 4 ? validateCollaborators(raw.data.collaborators ?? [], errors) : [],
+  };
+
+  if (errors.length > 0) {
+    return { bundle: null, errors };
+  }
+
+  return {
+    errors: [],
+    bundle: {
+      format: ACCOUNT_BACKUP_FORMAT,
+      schemaVersion: raw.schemaVersion,
+      exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : "",
+      data,
+    },
+  };
+};
+
+const mergeById = <T, K>(current: T[], incoming: T[], getKey: (item: T) => K): T[] => {
+  const incomingKeys = new Set(incoming.map(getKey));
+  return [...current.filter((item) => !incomingKeys.has(getKey(item))), ...incoming];
+};
+
+/**
+ * 共有先と公開リンクはバックアップから戻さず、保存済みの作品の設定を引き継ぐ
+ * （停止した公開リンクの復活や、別のアカウントの共有先・公開リンクの持ち込みを防ぐ）
+ */
+const withStoredSharing = (document: WorkDocument, stored: WorkDocument | undefined): WorkDocument => {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { members: _members, memberIds: _memberIds, publicShareToken: _publicShareToken, ...rest } = document;
+  return {
+    ...rest,
+    ...(stored?.members ? { members: stored.members, memberIds: stored.memberIds ?? Object.keys(stored.members).sort() } : {}),
+    ...(stored?.publicShareToken ? { publicShareToken: stored.publicShareToken } : {}),
+  };
+};
+
+/**
+ * 作品を取り込む
+ * すべての作品を検証してから書き込み、置き換えで消す作品は取り込む作品を書き込んだ後に削除する（途中で失敗しても既存の作品を失わない）
+ */
+const importWorks = async (userId: string, works: AccountBackupWork[], mode: AccountBackupImportMode) => {
+  const outboxStore = useOutboxStore();
+  const existing = await getCollectionDocs<WorkDocument>(buildWorkCollectionPath(userId));
+  const existingMap = new Map(existing.map((document) => [document.id, document]));
+
+  // 既存の作品を上書きする場合は版数を進めて他端末に競合として検出させる
+  const documents = works.map(({ id, ...document }) => {
+    const stored = existingMap.get(id);
+    const revision = Math.max(Number(stored?.revision) || 0, document.revision ?? 0) + (stored ? 1 : 0);
+    return { id, data: { ...withStoredSharing(document, stored), revision } };
+  });
+  documents.forEach(({ data }) => assertValidWorkDocument(data));
+
+  for (const { id, data } of documents) {
+    await outboxStore.write({ userId, scope: "work", targetId: id, operation: "set", path: buildWorkDocumentPath(userId, id), data: { ...data } });
+  }
+
+  if (mode === "replace") {
+    const incomingIds = new Set(works.map((work) => work.id));
+    for (const document of existing.filter((item) => !incomingIds.has(item.id))) {
+      // 作品の削除と同じく、公開リンクも同じバッチで停止する
+      const writes: OutboxWriteRequest[] = [
+        { userId, scope: "work", targetId: document.id, operation: "delete", path: buildWorkDocumentPath(userId, document.id) },
+      ];
+      if (document.publicShareToken) {
+        writes.push({ userId, scope: "publicShare", targetId: document.id, operation: "delete", path: buildPublicShareDocumentPath(document.publicShareToken) });
+      }
+      await outboxStore.writeBatch(writes);
+    }
+  }
+
+  await useWorksStore().fetchWorks(userId);
+};
+
+const importCustomDates = async (userId: string, customDates: AccountBackupCustomDate[], mode: AccountBackupImportMode) => {
+  const outboxStore = useOutboxStore();
+  const customDatesStore = useCustomDatesStore();
+  const collectionPath = `users/${userId}/customDates`;
+
+  if (mode === "replace") {
+    const incomingDates = new Set(customDates.map((item) => item.date));
+    const existing = await getCollectionDocs<AccountBackupCustomDate>(collectionPath);
+    for (const document of existing.filter((item) => !incomingDates.has(item.id))) {
+      await outboxStore.write({ userId, scope: "customDate", targetId: document.id, operation: "delete", path: `${collectionPath}/${document.id}` });
+    }
+  }
+
+  for (const document of customDates) {
+    await outboxStore.write({ userId, scope: "customDate", targetId: document.date, operation: "set", path: `${collectionPath}/${document.date}`, data: { ...document } });
+  }
+
+  await customDatesStore.fetchCustomDates(userId);
+};
+
+const importCustomDateRules = async (userId: string, rules: AccountBackupCustomDateRule[], mode: AccountBackupImportMode) => {
+  const outboxStore = useOutboxStore();
+  const collectionPath = `users/${userId}/customDateRules`;
+
+  if (mode === "replace") {
+    const incomingIds = new Set(rules.map((rule) => rule.id));
+    const existing = await getCollectionDocs<Omit<CustomDateRule, "id">>(collectionPath);
+    for (const document of existing.filter((item) => !incomingIds.has(item.id))) {
+      await outboxStore.write({ userId, scope: "customDateRule", targetId: document.id, operation: "delete", path: `${collectionPath}/${document.id}` });
+    }
+  }
+
+  for (const { id, ...document } of rules) {
+    await outboxStore.write({ userId, scope: "customDateRule", targetId: id, operation: "set", path: `${collectionPath}/${id}`, data: { ...document } });
+  }
+
+  await useCustomDatesStore().fetchCustomDates(userId);
+};
+
+/**
+ * 祝日セットを取り込む（祝日セットの一覧と選択は設定ドキュメントにまとめて保存する）
+ * マージの場合は既存の選択にバックアップの選択を加える
+ */
+const importHolidayCalendars = async (userId: string, holidayCalendars: AccountBackupHolidayCalendars, mode: AccountBackupImportMode) => {
+  const holidayCalendarStore = useHolidayCalendarStore();
+  await holidayCalendarStore.fetchHolidayCalendars(userId);
+
+  const incomingIds = new Set(holidayCalendars.sets.map((set) => set.id));
+  const removed = mode === "replace" ? holidayCalendarStore.holidaySets.filter((set) => !incomingIds.has(set.id)) : [];
+  const summaries = holidayCalendars.sets.map((set) => ({ id: set.id, name: set.name, count: set.holidays.length, updatedAt: set.updatedAt }));
+  const sets = mode === "replace" ? summaries : mergeById(holidayCalendarStore.holidaySets, summaries, (set) => set.id);
+  const selectedSetIds = mode === "replace" ? holidayCalendars.selectedSetIds : [...new Set([...holidayCalendarStore.selectedSetIds, ...holidayCalendars.selectedSetIds])];
+
+  const writes: OutboxWriteRequest[] = [
+    ...removed.map((set): OutboxWriteRequest => ({ userId, scope: "holidaySet", targetId: set.id, operation: "delete", path: buildHolidaySetDocumentPath(userId, set.id) })),
+    ...holidayCalendars.sets.map(({ id, ...document }): OutboxWriteRequest => ({
+      userId,
+      scope: "holidaySet",
+      targetId: id,
+      operation: "set",
+      path: buildHolidaySetDocumentPath(userId, id),
+      data: { ...document },
+    })),
+    { userId, scope: "settings", targetId: "holidayCalendars", operation: "set", path: `users/${userId}/settings/holidayCalendars`, data: { selectedSetIds, sets } },
+  ];
+  await useOutboxStore().writeBatch(writes);
+
+  // 同じ更新日時のキャッシュが残っていると取り込んだ内容が読み込まれないため破棄する
+  [...removed, ...holidayCalendars.sets].forEach((set) => holidaySetService.clearCustomCache(userId, set.id));
+  await holidayCalendarStore.fetchHolidayCalendars(userId);
+};
+
+/**
+ * バックアップを取り込む（コレクションごとにマージ／置き換えを選択）
+ * バックアップに含まれないデータ（古い形式で書き出したもの）は取り込まない
+ */
+export const importAccountBackup = async (userId: string, bundle: AccountBackupBundle, requestedModes: AccountBackupImportModes) => {
+  if (!userId) {
+    throw new Error("ユーザー情報が取得できませんでした。");
+  }
+
+  const settingsStore = useSettingsStore();
+  const { data } = bundle;
+  const modes = Object.fromEntries(
+    ACCOUNT_BACKUP_COLLECTIONS.map(({ key }) => [key, isAccountBackupCollectionIncluded(bundle, key) ? requestedModes[key] : "skip"]),
+  ) as AccountBackupImportModes;
+
+  // 工程は粒度に依存するため粒度を先に取り込む
+  if (modes.granularities !== "skip") {
+    await settingsStore.fetchGranularities(userId);
+    const items = modes.granularities === "replace" ? data.granularities : mergeById(settingsStore.granularities, data.granularities, (item) => item.id);
+    await settingsStore.saveGranularities(userId, items);
+  }
+
+  if (modes.stageWorkloads !== "skip") {
+    await settingsStore.fetchStageWorkloads(userId);
+    const stages = modes.stageWorkloads === "replace" ? data.stageWorkloads : mergeById(settingsStore.stageWorkloads, data.stageWorkloads, (stage) => stage.id);
+    await settingsStore.saveStageWorkloads(userId, stages);
+  }
+
+  if (modes.workHours !== "skip") {
+    await settingsStore.fetchWorkHours(userId);
+    const hours = modes.workHours === "replace" ? data.workHours : mergeById(settingsStore.workHours, data.workHours, (range) => range.day);
+    await settingsStore.saveWorkHours(userId, hours);
+  }
+
+  if (modes.customDates !== "skip") {
+    await importCustomDates(userId, data.customDates, modes.customDates);
+  }
+
+  if (modes.customDateRules !== "skip") {
+    await importCustomDateRules(userId, data.customDateRules, modes.customDateRules);
+  }
+
+  if (modes.holidayCalendars !== "skip") {
+    await importHolidayCalendars(userId, data.holidayCalendars, modes.holidayCalendars);
+  }
+
+  // 作品の担当者が参照するため作品より先に取り込む
+  if (modes.collaborators !== "skip") {
+    const collaboratorsStore = useCollaboratorsStore();
+    await collaboratorsStore.fetchCollaborators(userId);
+    const collaborators = modes.collaborators === "replace" ? data.collaborators : mergeById(collaboratorsStore.collaborators, data.collaborators, (collaborator) => collaborator.id);
+    await collaboratorsStore.saveCollaborators(userId, collaborators);
+  }
+
+  if (modes.works !== "skip") {
+    await importWorks(userId, data.works, modes.works);
+  }
+};
+
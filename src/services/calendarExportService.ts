@@ -0,0 +1,211 @@
+import { useCustomDatesStore, type CustomDate } from "@/store/customDatesStore";
+import { useHolidayCalendarStore } from "@/store/holidayCalendarStore";
+import { useSettingsStore } from "@/store/settingsStore";
+import { useWorksStore } from "@/store/worksStore";
+import { expandCustomDateRule, matchesCustomDateRule } from "@/utils/customDateRules";
+import { formatLocalDate } from "@/utils/dateUtils";
+import { buildICalendar, buildICalendarUid, type ICalendarEvent } from "@/utils/icalendar";
+import { formatMinutesAsTime, parseTimeToMinutes, type WorkTimeWindow } from "@/utils/timeWindows";
+import { calculateWorkPace, getWorkTimeForDate } from "@/utils/workloadUtils";
+
+export interface CalendarExportOptions {
+  /** 作品ごとの1日あたりの作業ブロックを含める */
+  includePlannedBlocks: boolean;
+  /** 繰り返しルールを展開する日数（今日から） */
+  ruleRangeDays?: number;
+}
+
+export interface CalendarExportResult {
+  content: string;
+  eventCount: number;
+}
+
+const DEFAULT_RULE_RANGE_DAYS = 365;
+// 時間帯が未設定の日は作業ブロックをこの時刻から並べる
+const DEFAULT_DAY_START = "09:00";
+// 作業ブロックは5分単位に丸める
+const BLOCK_MINUTES_STEP = 5;
+
+const CUSTOM_DATE_SUMMARIES: Partial<Record<CustomDate["type"], string>> = {
+  unavailable: "作業不可",
+  "custom-holiday": "任意休日",
+};
+
+const parseDateKey = (dateStr: string) => {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const collectDates = (startDate: string, endDate: string) => {
+  const dates: string[] = [];
+  const current = parseDateKey(startDate);
+  const end = parseDateKey(endDate);
+  while (current <= end) {
+    dates.push(formatLocalDate(current));
+    current.setDate(current.getDate() + 1);
+  }
+  return dates;
+};
+
+/**
+ * カスタム日付（作業不可・任意休日・一部作業不可）をイベントに変換
+ * UID は日付から決まるため、日付ごとの設定とルールのどちらから生成しても同じイベントとして更新される
+ */
+const buildCustomDateEvents = (customDate: CustomDate, ruleLabel?: string): ICalendarEvent[] => {
+  if (customDate.type === "partial-unavailable") {
+    return (customDate.blocks ?? []).map((block, index) => ({
+      uid: buildICalendarUid("customdate", customDate.date, String(index)),
+      summary: block.label || ruleLabel || "作業不可",
+      date: customDate.date,
+      startTime: block.start,
+      endTime: block.end,
+      categories: ["作業不可"],
+      lastModified: customDate.updatedAt,
+    }));
+  }
+
+  const summary = CUSTOM_DATE_SUMMARIES[customDate.type];
+  if (!summary) {
+    return [];
+  }
+  return [
+    {
+      uid: buildICalendarUid("customdate", customDate.date),
+      summary: ruleLabel ? `${summary}（${ruleLabel}）` : summary,
+      date: customDate.date,
+      categories: [summary],
+      lastModified: customDate.updatedAt,
+    },
+  ];
+};
+
+/**
+ * 作業時間帯の先頭から、使用済みの分数を除いて指定分数ぶんの時間帯を取り出す
+ */
+const takeFromWindows = (windows: WorkTimeWindow[], offsetMinutes: number, minutes: number): WorkTimeWindow[] => {
+  const result: WorkTimeWindow[] = [];
+  let skip = offsetMinutes;
+  let remaining = minutes;
+
+  for (const window of windows) {
+    const start = parseTimeToMinutes(window.start) ?? 0;
+    const end = parseTimeToMinutes(window.end) ?? 0;
+    const available = end - start;
+    if (skip >= available) {
+      skip -= available;
+      continue;
+    }
+    const blockStart = start + skip;
+    const blockEnd = Math.min(end, blockStart + remaining);
+    result.push({ start: formatMinutesAsTime(blockStart), end: formatMinutesAsTime(blockEnd) });
+    remaining -= blockEnd - blockStart;
+    skip = 0;
+    if (remaining <= 0) {
+      break;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * 作品の締切・カスタム日付・（任意で）作業ブロックを iCalendar 形式で書き出す
+ */
+export const exportWorkCalendar = async (options: CalendarExportOptions): Promise<CalendarExportResult> => {
+  const worksStore = useWorksStore();
+  const settingsStore = useSettingsStore();
+  const customDatesStore = useCustomDatesStore();
+
+  const today = formatLocalDate(new Date());
+  const events: ICalendarEvent[] = [];
+
+  const activeWorks = worksStore.works
+    .filter((work) => work.deadline && work.status !== "完了")
+    .sort((a, b) => a.deadline.localeCompare(b.deadline));
+
+  // 締切（終日）
+  activeWorks.forEach((work) => {
+    events.push({
+      uid: buildICalendarUid("deadline", work.id),
+      summary: `〆 ${work.title || "無題の作品"}`,
+      description: `進捗 ${Math.round(worksStore.calculateActualWorkHours(work.id).progressPercentage)}%`,
+      date: work.deadline,
+      categories: ["締切"],
+      lastModified: work.updatedAt,
+    });
+  });
+
+  // 日付ごとの設定と、今日から一定期間の繰り返しルール
+  const ruleEnd = parseDateKey(today);
+  ruleEnd.setDate(ruleEnd.getDate() + (options.ruleRangeDays ?? DEFAULT_RULE_RANGE_DAYS));
+  const ruleEndDate = formatLocalDate(ruleEnd);
+  const overrideDates = new Set(customDatesStore.customDates.map((customDate) => customDate.date));
+  customDatesStore.customDates.forEach((customDate) => events.push(...buildCustomDateEvents(customDate)));
+  collectDates(today, ruleEndDate)
+    .filter((date) => !overrideDates.has(date))
+    .forEach((date) => {
+      const rule = customDatesStore.customDateRules.find((item) => matchesCustomDateRule(item, date));
+      if (rule) {
+        events.push(...buildCustomDateEvents(expandCustomDateRule(rule, date), rule.label));
+      }
+    });
+
+  // 作品ごとの作業ブロック（締切までの作業可能日に dailyRequiredHours ずつ）
+  const plannedWorks = activeWorks.filter((work) => work.deadline >= today);
+  if (options.includePlannedBlocks && plannedWorks.length > 0) {
+    const lastDeadline = plannedWorks[plannedWorks.length - 1]!.deadline;
+    const { holidays } = useHolidayCalendarStore();
+    const { workHours } = settingsStore;
+    const { customDates, customDateRules } = customDatesStore;
+
+    const dailyHoursByWork = new Map<string, number>(
+      plannedWorks.map((work) => {
+        const metrics = worksStore.calculateActualWorkHours(work.id);
+        const pace = calculateWorkPace(parseDateKey(work.deadline), metrics.remainingEstimatedHours, metrics.progressPercentage / 100, workHours, holidays, customDates, customDateRules);
+        return [work.id, metrics.remainingEstimatedHours > 0 ? pace.dailyRequiredHours : 0];
+      }),
+    );
+
+    collectDates(today, lastDeadline).forEach((date) => {
+      const workTime = getWorkTimeForDate(parseDateKey(date), workHours, holidays, customDates, customDateRules);
+      if (workTime.hours <= 0) {
+        return;
+      }
+
+      const dayStart = parseTimeToMinutes(DEFAULT_DAY_START) ?? 0;
+      const windows = workTime.windows ?? [{ start: DEFAULT_DAY_START, end: formatMinutesAsTime(dayStart + workTime.hours * 60) }];
+      let usedMinutes = 0;
+
+      plannedWorks
+        .filter((work) => work.deadline >= date)
+        .forEach((work) => {
+          const capacityMinutes = workTime.hours * 60 - usedMinutes;
+          const requiredMinutes = Math.round(((dailyHoursByWork.get(work.id) ?? 0) * 60) / BLOCK_MINUTES_STEP) * BLOCK_MINUTES_STEP;
+          const minutes = Math.min(requiredMinutes, capacityMinutes);
+          if (minutes <= 0) {
+            return;
+          }
+
+          takeFromWindows(windows, usedMinutes, minutes).forEach((block, index) => {
+            events.push({
+              uid: buildICalendarUid("plan", work.id, date, String(index)),
+              summary: `作業: ${work.title || "無題の作品"}`,
+              description: `締切 ${work.deadline}`,
+              date,
+              startTime: block.start,
+              endTime: block.end,
+              categories: ["作業計画"],
+            });
+          });
+          usedMinutes += minutes;
+        });
+    });
+  }
+
+  return {
+    content: buildICalendar(events, { calendarName: "MangaFlowManager" }),
+    eventCount: events.length,
+  };
+};
+
+export const buildCalendarExportFileName = (date = new Date()) => `mangaflowmanager-${formatLocalDate(date)}.ics`;
@@ -10,6 +10,12 @@ const signInWithGoogle = () => signInWithPopup(projectAuth, projectGoogleAuth);
 
 const signOutFromFirebase = () => signOut(projectAuth);
 
+/** カスタムクレーム admin が付与されているか */
+const hasAdminClaim = async (user: User) => {
+  const { claims } = await user.getIdTokenResult();
+  return claims.admin === true;
+};
+
 const onAuthStateChanged = (nextOrObserver: NextOrObserver<User>, error?: (error: unknown) => void, completed?: () => void) =>
   firebaseOnAuthStateChanged(projectAuth, nextOrObserver, error, completed);
 
@@ -22,6 +28,7 @@ export {
   applyAuthPersistence,
   getAnalyticsIfAvailable,
   onAuthStateChanged,
+  hasAdminClaim,
   signInWithEmail,
   registerWithEmail,
   signInWithGoogle,
@@ -0,0 +1,79 @@
+import { collection, deleteDoc, doc, getDoc, getDocs, query, setDoc, writeBatch as createWriteBatch } from "firebase/firestore";
+
+import { projectFirestore } from "./firebaseApp";
+import type { StorageAdapter, StorageBatchWrite, StorageCollectionDoc } from "@/services/storage/types";
+
+// Firestore のバッチは1回あたり500件まで
+const MAX_BATCH_SIZE = 500;
+
+const getDocument = async <T>(path: string) => {
+  console.log('Firestore読み込み開始:', path);
+  try {
+    const snapshot = await getDoc(doc(projectFirestore, path));
+    const exists = snapshot.exists();
+    const data = exists ? (snapshot.data() as T) : null;
+    console.log('Firestore読み込み完了:', { path, exists, hasData: !!data });
+    return data;
+  } catch (error) {
+    console.error('Firestore読み込み失敗:', { path, error });
+    throw error;
+  }
+};
+
+const getCollectionDocs = async <T>(path: string) => {
+  const snapshot = await getDocs(query(collection(projectFirestore, path)));
+  return snapshot.docs.map((docSnapshot) => ({ id: docSnapshot.id, ...(docSnapshot.data() as T) }) as StorageCollectionDoc<T>);
+};
+
+const setDocument = async (path: string, data: Record<string, unknown>, options?: { merge?: boolean }) => {
+  console.log('Firestore書き込み開始:', { path, data, options });
+  try {
+    if (options) {
+      await setDoc(doc(projectFirestore, path), data, options);
+    } else {
+      await setDoc(doc(projectFirestore, path), data);
+    }
+    console.log('Firestore書き込み成功:', path);
+  } catch (error) {
+    console.error('Firestore書き込み失敗:', { path, error });
+    throw error;
+  }
+};
+
+const deleteDocument = async (path: string) => deleteDoc(doc(projectFirestore, path));
+
+const writeBatch = async (writes: StorageBatchWrite[]) => {
+  console.log('Firestoreバッチ書き込み開始:', { count: writes.length });
+  try {
+    for (let offset = 0; offset < writes.length; offset += MAX_BATCH_SIZE) {
+      const batch = createWriteBatch(projectFirestore);
+      writes.slice(offset, offset + MAX_BATCH_SIZE).forEach((write) => {
+        const reference = doc(projectFirestore, write.path);
+        if (write.operation === "delete") {
+          batch.delete(reference);
+        } else if (write.options) {
+          batch.set(reference, write.data ?? {}, write.options);
+        } else {
+          batch.set(reference, write.data ?? {});
+        }
+      });
+      await batch.commit();
+    }
+    console.log('Firestoreバッチ書き込み成功:', { count: writes.length });
+  } catch (error) {
+    console.error('Firestoreバッチ書き込み失敗:', { count: writes.length, error });
+    throw error;
+  }
+};
+
+/** Cloud Firestore を永続化先とするアダプター */
+const firestoreAdapter: StorageAdapter = {
+  name: "firestore",
+  getDocument,
+  getCollectionDocs,
+  setDocument,
+  deleteDocument,
+  writeBatch,
+};
+
+export { firestoreAdapter };
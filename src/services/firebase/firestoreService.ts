@@ -1,46 +1,77 @@
-import { collection, deleteDoc, doc, getDoc, getDocs, query, setDoc, type Firestore, type SetOptions } from "firebase/firestore";
+import { collection, collectionGroup, getDocs, onSnapshot, query, where, type Firestore, type FirestoreError } from "firebase/firestore";
 
 import { projectFirestore } from "./firebaseApp";
+import { getStorageAdapter } from "@/services/storage/storageBackend";
+import type { StorageBatchWrite, StorageSetOptions } from "@/services/storage/types";
 
-// TODO: Firestore の読み書き処理をここに実装します。
-// 今後、作品・カレンダー・設定などのコレクションを定義して CRUD をまとめる予定です。
+// 読み書きは起動時に選択された永続化アダプター（Firestore / IndexedDB）へ委譲します。
+// ストアからはこのモジュールの関数だけを使い、保存先を意識しないようにしています。
 
 const getCollection = (path: string) => collection(projectFirestore, path);
 
-const getDocument = async <T>(path: string) => {
-  console.log('Firestore読み込み開始:', path);
-  try {
-    const snapshot = await getDoc(doc(projectFirestore, path));
-    const exists = snapshot.exists();
-    const data = exists ? (snapshot.data() as T) : null;
-    console.log('Firestore読み込み完了:', { path, exists, hasData: !!data });
-    return data;
-  } catch (error) {
-    console.error('Firestore読み込み失敗:', { path, error });
-    throw error;
+const getDocument = async <T>(path: string) => getStorageAdapter().getDocument<T>(path);
+
+const getCollectionDocs = async <T>(path: string) => getStorageAdapter().getCollectionDocs<T>(path);
+
+const setDocument = async (path: string, data: Record<string, unknown>, options?: StorageSetOptions) => getStorageAdapter().setDocument(path, data, options);
+
+const deleteDocument = async (path: string) => getStorageAdapter().deleteDocument(path);
+
+const writeDocuments = async (writes: StorageBatchWrite[]) => getStorageAdapter().writeBatch(writes);
+
+/** コレクションのリアルタイム変更通知 */
+interface CollectionChange<T> {
+  type: "added" | "modified" | "removed";
+  id: string;
+  data: T;
+  hasPendingWrites: boolean;
+}
+
+/**
+ * コレクションの変更を購読（Firestore 使用時のみ）
+ * 他の保存先では購読できないため null を返す
+ */
+const subscribeCollection = <T>(path: string, onChanges: (changes: CollectionChange<T>[]) => void, onError?: (error: FirestoreError) => void) => {
+  if (getStorageAdapter().name !== "firestore") {
+    return null;
   }
-};
 
-const getCollectionDocs = async <T>(path: string) => {
-  const snapshot = await getDocs(query(getCollection(path)));
-  return snapshot.docs.map((docSnapshot) => ({ id: docSnapshot.id, ...(docSnapshot.data() as T) }));
+  return onSnapshot(
+    getCollection(path),
+    (snapshot) => {
+      const changes = snapshot.docChanges().map((change) => ({
+        type: change.type,
+        id: change.doc.id,
+        data: change.doc.data() as T,
+        hasPendingWrites: change.doc.metadata.hasPendingWrites,
+      }));
+      if (changes.length > 0) {
+        onChanges(changes);
+      }
+    },
+    onError,
+  );
 };
 
-const setDocument = async (path: string, data: Record<string, unknown>, options?: SetOptions) => {
-  console.log('Firestore書き込み開始:', { path, data, options });
-  try {
-    const result = options ?
-      await setDoc(doc(projectFirestore, path), data, options) :
-      await setDoc(doc(projectFirestore, path), data);
-    console.log('Firestore書き込み成功:', path);
-    return result;
-  } catch (error) {
-    console.error('Firestore書き込み失敗:', { path, error });
-    throw error;
+/** コレクショングループの検索結果（path はドキュメントのフルパス） */
+interface CollectionGroupDoc<T> {
+  id: string;
+  path: string;
+  data: T;
+}
+
+/**
+ * 全ユーザーの同名コレクションから、配列フィールドに値を含むドキュメントを検索（Firestore 使用時のみ）
+ * 他のアカウントのデータは他の保存先に存在しないため null を返す
+ */
+const getCollectionGroupDocsContaining = async <T>(collectionId: string, field: string, value: string): Promise<CollectionGroupDoc<T>[] | null> => {
+  if (getStorageAdapter().name !== "firestore") {
+    return null;
   }
-};
 
-const deleteDocument = async (path: string) => deleteDoc(doc(projectFirestore, path));
+  const snapshot = await getDocs(query(collectionGroup(projectFirestore, collectionId), where(field, "array-contains", value)));
+  return snapshot.docs.map((docSnapshot) => ({ id: docSnapshot.id, path: docSnapshot.ref.path, data: docSnapshot.data() as T }));
+};
 
-export type { Firestore };
-export { deleteDocument, getCollection, getCollectionDocs, getDocument, setDocument };
+export type { CollectionChange, CollectionGroupDoc, Firestore };
+export { deleteDocument, getCollection, getCollectionDocs, getCollectionGroupDocsContaining, getDocument, setDocument, subscribeCollection, writeDocuments };
@@ -1,5 +1,9 @@
 import type { Holiday } from '@/utils/dateUtils';
 import { getDocument, setDocument } from '@/services/firebase/firestoreService';
+import { decodeHolidayCsv, parseCabinetOfficeHolidayCsv } from '@/utils/cabinetOfficeHolidays';
+
+/** 祝日データの取得元（cabinet_office: 内閣府から取得 / upload: CSV ファイルをアップロード） */
+export type GlobalHolidaySource = 'cabinet_office' | 'upload';
 
 /**
  * Firestoreでグローバル祝日データを管理するサービス
@@ -8,6 +12,8 @@ export class GlobalHolidayService {
   private static instance: GlobalHolidayService;
   private holidays: Holiday[] = [];
   private lastUpdated: Date | null = null;
+  // globalSettings への書き込みは管理者のみ許可されている
+  private canWrite = false;
   private readonly GLOBAL_COLLECTION = 'globalSettings';
   private readonly HOLIDAY_DOCUMENT = 'holidays';
   private readonly CABINET_OFFICE_URL = 'https://www8.cao.go.jp/chosei/shukujitsu/syukujitsu.csv';
@@ -21,6 +27,19 @@ export class GlobalHolidayService {
     return GlobalHolidayService.instance;
   }
 
+  /**
+   * 管理者かどうかを設定（ログイン時に認証ストアから呼ばれる）
+   */
+  public setCanWrite(canWrite: boolean): void {
+    this.canWrite = canWrite;
+  }
+
+  private assertCanWrite(): void {
+    if (!this.canWrite) {
+      throw new Error('祝日データの更新は管理者のみ行えます。');
+    }
+  }
+
   /**
    * Firestoreパス
    */
@@ -77,7 +96,7 @@ export class GlobalHolidayService {
   /**
    * Firestoreに祝日データを保存
    */
-  private async saveToFirestore(holidays: Holiday[]): Promise<void> {
+  private async saveToFirestore(holidays: Holiday[], source: GlobalHolidaySource = 'cabinet_office'): Promise<void> {
     try {
       const data = {
         holidays: holidays.map(holiday => ({
@@ -86,7 +105,7 @@ export class GlobalHolidayService {
         })),
         lastUpdated: new Date().toISOString(),
         version: 1,
-        source: 'cabinet_office'
+        source
       };
 
       await setDocument(this.getDocumentPath(), data);
@@ -97,104 +116,6 @@ export class GlobalHolidayService {
     }
   }
 
-  /**
-   * CSVデータをパース
-   */
-  private parseCSV(csvText: string): Holiday[] {
-    const lines = csvText.split(/\r?\n/);
-    const holidays: Holiday[] = [];
-
-    // ヘッダー行を探す
-    let startIndex = 0;
-    for (let i = 0; i < Math.min(5, lines.length); i++) {
-      const line = lines[i]?.trim();
-      if (line && (line.includes('国民の祝日・休日月日') || line.includes('国民の祝日'))) {
-        startIndex = i + 1;
-        break;
-      }
-    }
-
-    for (let i = startIndex; i < lines.length; i++) {
-      const line = lines[i]?.trim();
-      if (!line) continue;
-
-      const columns = this.parseCSVLine(line);
-      if (columns.length >= 2) {
-        const dateStr = columns[0]?.trim();
-        const name = columns[1]?.trim();
-
-        if (!dateStr || !name) continue;
-
-        const cleanedName = this.cleanHolidayName(name);
-        if (!cleanedName) continue;
-
-        try {
-          const normalizedDateStr = dateStr.replace(/\//g, '-');
-          const date = new Date(normalizedDateStr);
-
-          if (!isNaN(date.getTime()) && date.getFullYear() > 1900) {
-            holidays.push({ name: cleanedName, date });
-          }
-        } catch (error) {
-          console.warn(`Failed to parse date: ${dateStr}`, error);
-        }
-      }
-    }
-
-    return holidays;
-  }
-
-  /**
-   * CSV行をパース
-   */
-  private parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-
-    result.push(current.trim());
-    return result;
-  }
-
-  /**
-   * 祝日名をクリーンアップ
-   */
-  private cleanHolidayName(name: string): string {
-    if (!name) return '';
-
-    let cleaned = name.replace(/[""]/g, '').trim();
-    cleaned = cleaned.replace(/[\x00-\x1F\x7F-\x9F]/g, '');
-
-    // 文字化け文字を直接置き換え（正規表現を使わない）
-    cleaned = cleaned.replace(/\?/g, '');  // ?を除去
-    cleaned = cleaned.replace(/�/g, '');   // 置換文字を除去
-    cleaned = cleaned.replace(/\uFFFD/g, ''); // Unicode置換文字を除去
-
-    if (!cleaned || cleaned.length < 2) {
-      return '';
-    }
-
-    const hasJapanese = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/.test(cleaned);
-    if (!hasJapanese) {
-      return '';
-    }
-
-    return cleaned;
-  }
-
   /**
    * 内閣府から祝日データを取得
    */
@@ -226,14 +147,12 @@ export class GlobalHolidayService {
           csvText = data.contents;
         } else {
           const arrayBuffer = await response.arrayBuffer();
-          csvText = this.decodeShiftJIS(arrayBuffer);
+          csvText = decodeHolidayCsv(arrayBuffer);
         }
 
-        const holidays = this.parseCSV(csvText);
-        if (holidays.length > 0) {
-          console.log(`Successfully fetched ${holidays.length} holidays from Cabinet Office via ${proxyUrl}`);
-          return holidays;
-        }
+        const holidays = parseCabinetOfficeHolidayCsv(csvText);
+        console.log(`Successfully fetched ${holidays.length} holidays from Cabinet Office via ${proxyUrl}`);
+        return holidays;
       } catch (error) {
         lastError = error as Error;
         console.warn(`Failed to fetch via ${proxyUrl}:`, error);
@@ -244,33 +163,6 @@ export class GlobalHolidayService {
     throw lastError || new Error('All proxy services failed');
   }
 
-  /**
-   * Shift-JISデコード
-   */
-  private decodeShiftJIS(arrayBuffer: ArrayBuffer): string {
-    try {
-      const decoder = new TextDecoder('shift-jis');
-      return decoder.decode(arrayBuffer);
-    } catch (error) {
-      console.warn('Failed to decode as Shift-JIS, trying UTF-8:', error);
-      try {
-        const decoder = new TextDecoder('utf-8');
-        return decoder.decode(arrayBuffer);
-      } catch (utf8Error) {
-        console.warn('Failed to decode as UTF-8, using binary fallback:', utf8Error);
-        const uint8Array = new Uint8Array(arrayBuffer);
-        let result = '';
-        for (let i = 0; i < uint8Array.length; i++) {
-          const byte = uint8Array[i];
-          if (byte !== undefined) {
-            result += String.fromCharCode(byte);
-          }
-        }
-        return result;
-      }
-    }
-  }
-
   /**
    * 祝日データを取得（Firestore優先、必要に応じて更新）
    */
@@ -286,13 +178,22 @@ export class GlobalHolidayService {
         return this.holidays;
       }
 
+      // 管理者以外は保存済みのデータを使用（更新は管理者に任せる）
+      if (!this.canWrite && firestoreHolidays.length > 0) {
+        this.holidays = firestoreHolidays;
+        this.lastUpdated = lastUpdated;
+        return this.holidays;
+      }
+
       // 更新が必要な場合は内閣府から取得
       console.log('Updating holidays from Cabinet Office...');
       const freshHolidays = await this.fetchFromCabinetOffice();
 
       if (freshHolidays.length > 0) {
-        // Firestoreに保存
-        await this.saveToFirestore(freshHolidays);
+        // 管理者の場合のみFirestoreに保存
+        if (this.canWrite) {
+          await this.saveToFirestore(freshHolidays);
+        }
         this.holidays = freshHolidays;
         this.lastUpdated = new Date();
         return this.holidays;
@@ -334,6 +235,8 @@ export class GlobalHolidayService {
    * 強制的に祝日データを再取得（管理者用）
    */
   public async forceUpdate(): Promise<Holiday[]> {
+    this.assertCanWrite();
+
     try {
       console.log('Force updating holidays from Cabinet Office...');
       const freshHolidays = await this.fetchFromCabinetOffice();
@@ -352,6 +255,29 @@ export class GlobalHolidayService {
       throw error;
     }
   }
+
+  /**
+   * 保存済みの祝日データを取得（内閣府への取得は行わない）
+   */
+  public async getStoredHolidays(): Promise<Holiday[]> {
+    const { holidays } = await this.loadFromFirestore();
+    return holidays;
+  }
+
+  /**
+   * アップロードされた CSV の祝日データを保存（ネットワーク取得の代わりに使用）
+   */
+  public async saveUploadedHolidays(holidays: Holiday[]): Promise<Holiday[]> {
+    this.assertCanWrite();
+    if (holidays.length === 0) {
+      throw new Error('No holidays to save');
+    }
+
+    await this.saveToFirestore(holidays, 'upload');
+    this.holidays = holidays;
+    this.lastUpdated = new Date();
+    return this.holidays;
+  }
 }
 
 export const globalHolidayService = GlobalHolidayService.getInstance();
@@ -0,0 +1,169 @@
+import type { Holiday } from "@/utils/dateUtils";
+import { useOutboxStore } from "@/store/outboxStore";
+import { fillCalculatedJapaneseHolidays, toHolidays, toHolidaySetEntries, type HolidaySetEntry } from "@/utils/holidaySets";
+
+/**
+ * ユーザーが取り込んだ祝日セットのドキュメント
+ */
+export interface HolidaySetDocument {
+  name: string;
+  holidays: HolidaySetEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface CachedHolidaySet {
+  updatedAt: string;
+  holidays: Holiday[];
+}
+
+// 日本の祝日は、取得済みデータにない年をこの範囲で計算して補う
+const CALCULATED_YEARS_BEFORE = 1;
+const CALCULATED_YEARS_AFTER = 5;
+
+export const buildHolidaySetCollectionPath = (userId: string) => `users/${userId}/holidaySets`;
+export const buildHolidaySetDocumentPath = (userId: string, setId: string) => `${buildHolidaySetCollectionPath(userId)}/${setId}`;
+
+/**
+ * 祝日セットごとの祝日データを管理するサービス
+ * - 日本の祝日: 内閣府データ（Firestore経由）を月1回更新してキャッシュ
+ * - 取り込んだ祝日セット: 更新日時が変わったときだけ Firestore から読み直してキャッシュ
+ */
+export class HolidaySetService {
+  private static instance: HolidaySetService;
+  private sets = new Map<string, CachedHolidaySet>();
+  private readonly CACHE_KEY_PREFIX = "holiday_set_";
+  private readonly JAPANESE_CACHE_KEY = "holiday_set_jp";
+
+  private constructor() {}
+
+  public static getInstance(): HolidaySetService {
+    if (!HolidaySetService.instance) {
+      HolidaySetService.instance = new HolidaySetService();
+    }
+    return HolidaySetService.instance;
+  }
+
+  private buildCustomCacheKey(userId: string, setId: string): string {
+    return `${this.CACHE_KEY_PREFIX}${userId}_${setId}`;
+  }
+
+  /**
+   * 日本の祝日の更新が必要かチェック（前回更新から月が変わっていれば更新）
+   */
+  private needsUpdate(lastUpdated: string | null): boolean {
+    if (!lastUpdated) {
+      return true;
+    }
+
+    const last = new Date(lastUpdated);
+    const now = new Date();
+    return now.getFullYear() > last.getFullYear() || (now.getFullYear() === last.getFullYear() && now.getMonth() > last.getMonth());
+  }
+
+  /**
+   * メモリ → ローカルストレージの順にキャッシュを読み込み
+   */
+  private loadFromCache(cacheKey: string): CachedHolidaySet | null {
+    const cached = this.sets.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const stored = localStorage.getItem(cacheKey);
+      if (stored) {
+        const data = JSON.parse(stored) as { updatedAt: string; holidays: HolidaySetEntry[] };
+        const loaded = { updatedAt: data.updatedAt, holidays: toHolidays(data.holidays ?? []) };
+        this.sets.set(cacheKey, loaded);
+        return loaded;
+      }
+    } catch (error) {
+      console.warn("Failed to load holiday set from localStorage:", error);
+    }
+    return null;
+  }
+
+  /**
+   * キャッシュに祝日データを保存
+   */
+  private saveToCache(cacheKey: string, updatedAt: string, holidays: Holiday[]): void {
+    this.sets.set(cacheKey, { updatedAt, holidays });
+    try {
+      localStorage.setItem(cacheKey, JSON.stringify({ updatedAt, holidays: toHolidaySetEntries(holidays) }));
+    } catch (error) {
+      console.warn("Failed to save holiday set to localStorage:", error);
+    }
+  }
+
+  /**
+   * 日本の祝日を取得（キャッシュ優先、月が変わったら内閣府データで更新）
+   */
+  public async getJapaneseHolidays(): Promise<Holiday[]> {
+    let cached = this.loadFromCache(this.JAPANESE_CACHE_KEY);
+
+    if (!cached || this.needsUpdate(cached.updatedAt)) {
+      try {
+        const { globalHolidayService } = await import("@/services/globalHolidayService");
+        const freshHolidays = await globalHolidayService.getHolidays();
+        if (freshHolidays.length > 0) {
+          this.saveToCache(this.JAPANESE_CACHE_KEY, new Date().toISOString(), freshHolidays);
+          cached = this.loadFromCache(this.JAPANESE_CACHE_KEY);
+        }
+      } catch (error) {
+        console.warn("Failed to update Japanese holidays, using cached data:", error);
+      }
+    }
+
+    const currentYear = new Date().getFullYear();
+    return fillCalculatedJapaneseHolidays(cached?.holidays ?? [], currentYear - CALCULATED_YEARS_BEFORE, currentYear + CALCULATED_YEARS_AFTER);
+  }
+
+  /**
+   * 取り込んだ祝日セットを取得（キャッシュの更新日時が一致すれば読み込みを省略）
+   */
+  public async getCustomHolidays(userId: string, setId: string, updatedAt: string): Promise<Holiday[]> {
+    const cacheKey = this.buildCustomCacheKey(userId, setId);
+    const cached = this.loadFromCache(cacheKey);
+    if (cached && cached.updatedAt === updatedAt) {
+      return cached.holidays;
+    }
+
+    const document = await useOutboxStore().getDocumentWithPending<HolidaySetDocument>(buildHolidaySetDocumentPath(userId, setId));
+
+    if (!document) {
+      return cached?.holidays ?? [];
+    }
+
+    const holidays = toHolidays(document.holidays ?? []);
+    this.saveToCache(cacheKey, document.updatedAt, holidays);
+    return holidays;
+  }
+
+  /**
+   * 取り込み直後の祝日セットをキャッシュに登録（再読み込みを省略するため）
+   */
+  public cacheCustomHolidays(userId: string, setId: string, updatedAt: string, holidays: Holiday[]): void {
+    this.saveToCache(this.buildCustomCacheKey(userId, setId), updatedAt, holidays);
+  }
+
+  /**
+   * 取り込んだ祝日セットのキャッシュを削除
+   */
+  public clearCustomCache(userId: string, setId: string): void {
+    const cacheKey = this.buildCustomCacheKey(userId, setId);
+    this.sets.delete(cacheKey);
+    localStorage.removeItem(cacheKey);
+  }
+
+  /**
+   * 日本の祝日のキャッシュをクリア（デバッグ用）
+   */
+  public clearCache(): void {
+    this.sets.delete(this.JAPANESE_CACHE_KEY);
+    localStorage.removeItem(this.JAPANESE_CACHE_KEY);
+    console.log("Holiday set cache cleared");
+  }
+}
+
+export const holidaySetService = HolidaySetService.getInstance();
@@ -0,0 +1,14 @@
+import { getDocument } from "@/services/firebase/firestoreService";
+import type { PublicProgressShare } from "@/types/work";
+import { buildPublicShareDocumentPath, isPublicShareToken } from "@/utils/publicShare";
+
+/**
+ * 公開リンクの進捗を取得（ログイン不要）
+ * 形式の正しくないトークンや停止済みのリンクは null を返す
+ */
+export const fetchPublicProgressShare = async (token: string): Promise<PublicProgressShare | null> => {
+  if (!isPublicShareToken(token)) {
+    return null;
+  }
+  return getDocument<PublicProgressShare>(buildPublicShareDocumentPath(token));
+};
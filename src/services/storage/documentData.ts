@@ -0,0 +1,40 @@
+/** アダプター共通のドキュメントパス・データの扱い（Firestore と同じ規則に揃える） */
+
+/** ドキュメントパスをコレクションパスとIDに分解（セグメント数が偶数でなければエラー） */
+const splitDocumentPath = (path: string) => {
+  const segments = path.split("/").filter(Boolean);
+  if (segments.length === 0 || segments.length % 2 !== 0) {
+    throw new Error(`ドキュメントパスが不正です: ${path}`);
+  }
+
+  return {
+    path: segments.join("/"),
+    collectionPath: segments.slice(0, -1).join("/"),
+    id: segments[segments.length - 1]!,
+  };
+};
+
+const normalizeCollectionPath = (path: string) => {
+  const segments = path.split("/").filter(Boolean);
+  if (segments.length === 0 || segments.length % 2 !== 1) {
+    throw new Error(`コレクションパスが不正です: ${path}`);
+  }
+  return segments.join("/");
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Firestore の merge: true と同様に、ネストしたオブジェクトを再帰的にマージ */
+const mergeData = (base: Record<string, unknown>, patch: Record<string, unknown>): Record<string, unknown> => {
+  const result: Record<string, unknown> = { ...base };
+  Object.entries(patch).forEach(([key, value]) => {
+    const current = result[key];
+    result[key] = isPlainObject(current) && isPlainObject(value) ? mergeData(current, value) : value;
+  });
+  return result;
+};
+
+/** リアクティブなProxyや undefined を含む値を保存可能なプレーンデータへ変換 */
+const toStorableData = (data: Record<string, unknown>) => JSON.parse(JSON.stringify(data)) as Record<string, unknown>;
+
+export { mergeData, normalizeCollectionPath, splitDocumentPath, toStorableData };
@@ -0,0 +1,146 @@
+import { mergeData, normalizeCollectionPath, splitDocumentPath, toStorableData } from "./documentData";
+import type { StorageAdapter, StorageBatchWrite, StorageCollectionDoc, StorageSetOptions } from "./types";
+
+const DATABASE_NAME = "mangaflowmanager";
+const DATABASE_VERSION = 1;
+const DOCUMENT_STORE = "documents";
+const COLLECTION_INDEX = "collectionPath";
+
+/** IndexedDB に保存するレコード（Firestore のドキュメントパスをキーにする） */
+interface DocumentRecord {
+  path: string;
+  collectionPath: string;
+  id: string;
+  data: Record<string, unknown>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionToPromise = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error("IndexedDB のトランザクションが中断されました"));
+  });
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("このブラウザでは IndexedDB を利用できません"));
+        return;
+      }
+
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(DOCUMENT_STORE)) {
+          const store = database.createObjectStore(DOCUMENT_STORE, { keyPath: "path" });
+          store.createIndex(COLLECTION_INDEX, COLLECTION_INDEX, { unique: false });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // 失敗した場合は次回呼び出し時に再試行できるようにする
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+
+  return databasePromise;
+};
+
+const getDocument = async <T>(path: string) => {
+  const database = await openDatabase();
+  const { path: key } = splitDocumentPath(path);
+  const transaction = database.transaction(DOCUMENT_STORE, "readonly");
+  const record = await requestToPromise(transaction.objectStore(DOCUMENT_STORE).get(key) as IDBRequest<DocumentRecord | undefined>);
+  return record ? (record.data as T) : null;
+};
+
+const getCollectionDocs = async <T>(path: string) => {
+  const database = await openDatabase();
+  const collectionPath = normalizeCollectionPath(path);
+  const transaction = database.transaction(DOCUMENT_STORE, "readonly");
+  const index = transaction.objectStore(DOCUMENT_STORE).index(COLLECTION_INDEX);
+  const records = await requestToPromise(index.getAll(IDBKeyRange.only(collectionPath)) as IDBRequest<DocumentRecord[]>);
+  return records.map((record) => ({ id: record.id, ...(record.data as T) }) as StorageCollectionDoc<T>);
+};
+
+const setDocument = async (path: string, data: Record<string, unknown>, options?: StorageSetOptions) => {
+  const database = await openDatabase();
+  const location = splitDocumentPath(path);
+  const transaction = database.transaction(DOCUMENT_STORE, "readwrite");
+  const store = transaction.objectStore(DOCUMENT_STORE);
+  const storable = toStorableData(data);
+
+  let nextData = storable;
+  if (options?.merge) {
+    const existing = await requestToPromise(store.get(location.path) as IDBRequest<DocumentRecord | undefined>);
+    nextData = existing ? mergeData(existing.data, storable) : storable;
+  }
+
+  const record: DocumentRecord = { ...location, data: nextData };
+  store.put(record);
+  await transactionToPromise(transaction);
+};
+
+const deleteDocument = async (path: string) => {
+  const database = await openDatabase();
+  const { path: key } = splitDocumentPath(path);
+  const transaction = database.transaction(DOCUMENT_STORE, "readwrite");
+  transaction.objectStore(DOCUMENT_STORE).delete(key);
+  await transactionToPromise(transaction);
+};
+
+/** 1つのトランザクションでまとめて書き込む（途中で失敗した場合はすべて取り消される） */
+const writeBatch = async (writes: StorageBatchWrite[]) => {
+  const database = await openDatabase();
+  const transaction = database.transaction(DOCUMENT_STORE, "readwrite");
+  const store = transaction.objectStore(DOCUMENT_STORE);
+  const completed = transactionToPromise(transaction);
+
+  try {
+    for (const write of writes) {
+      const location = splitDocumentPath(write.path);
+      if (write.operation === "delete") {
+        store.delete(location.path);
+        continue;
+      }
+
+      const storable = toStorableData(write.data ?? {});
+      let nextData = storable;
+      if (write.options?.merge) {
+        const existing = await requestToPromise(store.get(location.path) as IDBRequest<DocumentRecord | undefined>);
+        nextData = existing ? mergeData(existing.data, storable) : storable;
+      }
+      store.put({ ...location, data: nextData } satisfies DocumentRecord);
+    }
+  } catch (error) {
+    transaction.abort();
+    await completed.catch(() => undefined);
+    throw error;
+  }
+
+  await completed;
+};
+
+/** ブラウザの IndexedDB を永続化先とするアダプター（オフライン利用向け） */
+const indexedDbAdapter: StorageAdapter = {
+  name: "indexeddb",
+  getDocument,
+  getCollectionDocs,
+  setDocument,
+  deleteDocument,
+  writeBatch,
+};
+
+export { indexedDbAdapter };
@@ -0,0 +1,77 @@
+import { mergeData, normalizeCollectionPath, splitDocumentPath, toStorableData } from "./documentData";
+import type { StorageAdapter, StorageBatchWrite, StorageCollectionDoc, StorageSetOptions } from "./types";
+
+/** メモリ上のドキュメント（Firestore のドキュメントパスをキーにする） */
+interface MemoryRecord {
+  collectionPath: string;
+  id: string;
+  data: Record<string, unknown>;
+}
+
+/** メモリアダプター（保存内容の確認用に、パスごとのデータを参照できる） */
+interface MemoryStorageAdapter extends StorageAdapter {
+  /** 保存中のドキュメント（パス → データ） */
+  dump(): Record<string, Record<string, unknown>>;
+  clear(): void;
+}
+
+/**
+ * メモリ上に保存するアダプターを作成（リロードで消えるため、ストアの検証用）
+ * Firestore のエミュレーターを起動せずにストアの読み書きを確認できる
+ */
+const createMemoryAdapter = (initial: Record<string, Record<string, unknown>> = {}): MemoryStorageAdapter => {
+  const records = new Map<string, MemoryRecord>();
+
+  const applySet = (path: string, data: Record<string, unknown>, options?: StorageSetOptions) => {
+    const location = splitDocumentPath(path);
+    const storable = toStorableData(data);
+    const existing = records.get(location.path);
+    const nextData = options?.merge && existing ? mergeData(existing.data, storable) : storable;
+    records.set(location.path, { collectionPath: location.collectionPath, id: location.id, data: nextData });
+  };
+
+  Object.entries(initial).forEach(([path, data]) => applySet(path, data));
+
+  // 読み出したデータを書き換えても保存内容に影響しないように複製して返す
+  const clone = <T>(data: Record<string, unknown>) => toStorableData(data) as T;
+
+  return {
+    name: "memory",
+    async getDocument<T>(path: string) {
+      const record = records.get(splitDocumentPath(path).path);
+      return record ? clone<T>(record.data) : null;
+    },
+    async getCollectionDocs<T>(path: string) {
+      const collectionPath = normalizeCollectionPath(path);
+      return [...records.values()]
+        .filter((record) => record.collectionPath === collectionPath)
+        .map((record) => ({ id: record.id, ...clone<T>(record.data) }) as StorageCollectionDoc<T>);
+    },
+    async setDocument(path: string, data: Record<string, unknown>, options?: StorageSetOptions) {
+      applySet(path, data, options);
+    },
+    async deleteDocument(path: string) {
+      records.delete(splitDocumentPath(path).path);
+    },
+    /** パスをすべて検証してから反映する（途中で失敗した場合は何も書き込まない） */
+    async writeBatch(writes: StorageBatchWrite[]) {
+      writes.forEach((write) => splitDocumentPath(write.path));
+      writes.forEach((write) => {
+        if (write.operation === "delete") {
+          records.delete(splitDocumentPath(write.path).path);
+          return;
+        }
+        applySet(write.path, write.data ?? {}, write.options);
+      });
+    },
+    dump() {
+      return Object.fromEntries([...records.entries()].map(([path, record]) => [path, clone<Record<string, unknown>>(record.data)]));
+    },
+    clear() {
+      records.clear();
+    },
+  };
+};
+
+export type { MemoryStorageAdapter };
+export { createMemoryAdapter };
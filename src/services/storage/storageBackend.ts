@@ -0,0 +1,39 @@
+import { firestoreAdapter } from "@/services/firebase/firestoreAdapter";
+
+import { indexedDbAdapter } from "./indexedDbAdapter";
+import type { StorageAdapter, StorageBackendName } from "./types";
+
+const adapters: Record<StorageBackendName, StorageAdapter> = {
+  firestore: firestoreAdapter,
+  indexeddb: indexedDbAdapter,
+};
+
+/** 環境変数 VITE_STORAGE_BACKEND から永続化先を決定（未指定・不正値は Firestore） */
+const resolveStorageBackendName = (value: string | undefined): StorageBackendName => {
+  const normalized = value?.trim().toLowerCase();
+  if (normalized === "indexeddb") {
+    return "indexeddb";
+  }
+  if (normalized && normalized !== "firestore") {
+    console.warn(`未対応の VITE_STORAGE_BACKEND です: ${value}（Firestore を使用します）`);
+  }
+  return "firestore";
+};
+
+let activeAdapter: StorageAdapter = adapters[resolveStorageBackendName(import.meta.env.VITE_STORAGE_BACKEND)];
+
+/** 現在の永続化先アダプターを取得 */
+const getStorageAdapter = () => activeAdapter;
+
+/** 永続化先アダプターを差し替え（起動時の切り替えやストアの検証用） */
+const setStorageAdapter = (adapter: StorageAdapter) => {
+  activeAdapter = adapter;
+};
+
+/** 名前を指定して組み込みのアダプターへ切り替え */
+const selectStorageBackend = (name: StorageBackendName) => {
+  setStorageAdapter(adapters[name]);
+  return activeAdapter;
+};
+
+export { getStorageAdapter, resolveStorageBackendName, selectStorageBackend, setStorageAdapter };
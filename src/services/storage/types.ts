@@ -0,0 +1,31 @@
+/** setDocument のオプション（Firestore の SetOptions のうち merge のみを扱う） */
+interface StorageSetOptions {
+  merge?: boolean;
+}
+
+/** コレクション取得結果（ドキュメントIDをデータに含める） */
+type StorageCollectionDoc<T> = T & { id: string };
+
+/** まとめて書き込む1件分の操作 */
+interface StorageBatchWrite {
+  operation: "set" | "delete";
+  path: string;
+  data?: Record<string, unknown>;
+  options?: StorageSetOptions;
+}
+
+/** 永続化先の差し替え可能なアダプター */
+interface StorageAdapter {
+  /** 識別用の名前（ログ・デバッグ表示用） */
+  readonly name: string;
+  getDocument<T>(path: string): Promise<T | null>;
+  getCollectionDocs<T>(path: string): Promise<StorageCollectionDoc<T>[]>;
+  setDocument(path: string, data: Record<string, unknown>, options?: StorageSetOptions): Promise<void>;
+  deleteDocument(path: string): Promise<void>;
+  /** 複数の書き込みを1回でまとめて反映する */
+  writeBatch(writes: StorageBatchWrite[]): Promise<void>;
+}
+
+type StorageBackendName = "firestore" | "indexeddb";
+
+export type { StorageAdapter, StorageBackendName, StorageBatchWrite, StorageCollectionDoc, StorageSetOptions };
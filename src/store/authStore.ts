@@ -3,10 +3,26 @@ import type { Persistence, User } from "firebase/auth";
 import { defineStore } from "pinia";
 import { computed, ref } from "vue";
 
-import { applyAuthPersistence, authPersistence, onAuthStateChanged, registerWithEmail, signInWithEmail, signInWithGoogle, signOutFromFirebase } from "@/services/firebase/authService";
+import { applyAuthPersistence, authPersistence, hasAdminClaim, onAuthStateChanged, registerWithEmail, signInWithEmail, signInWithGoogle, signOutFromFirebase } from "@/services/firebase/authService";
+import { getDocument } from "@/services/firebase/firestoreService";
 
 type AuthMode = "login" | "register";
 
+/**
+ * 管理者かどうかを判定（カスタムクレーム admin、または admins/{uid} の存在）
+ */
+const resolveAdminRole = async (currentUser: User): Promise<boolean> => {
+  try {
+    if (await hasAdminClaim(currentUser)) {
+      return true;
+    }
+    return (await getDocument(`admins/${currentUser.uid}`)) !== null;
+  } catch (error) {
+    console.warn("Failed to resolve admin role:", error);
+    return false;
+  }
+};
+
 const mapFirebaseError = (error: unknown): string => {
   if (error instanceof FirebaseError) {
     switch (error.code) {
@@ -42,6 +58,7 @@ export const useAuthStore = defineStore("auth", () => {
   const pending = ref(false);
   const lastError = ref<string | null>(null);
   const preferredMode = ref<AuthMode>("login");
+  const isAdmin = ref(false);
 
   let unsubscribe: (() => void) | null = null;
   let initPromise: Promise<void> | null = null;
@@ -62,11 +79,17 @@ export const useAuthStore = defineStore("auth", () => {
             const wasLoggedOut = user.value === null;
             user.value = currentUser;
 
+            if (!currentUser) {
+              isAdmin.value = false;
+            }
+
             // ユーザーがログインした時（以前がnullで現在がnullでない）
             if (wasLoggedOut && currentUser) {
               try {
-                // グローバル祝日データを非同期で更新（ブロックしない）
+                isAdmin.value = await resolveAdminRole(currentUser);
+                // グローバル祝日データを非同期で更新（ブロックしない）。Firestore への保存は管理者のみ
                 const { globalHolidayService } = await import('@/services/globalHolidayService');
+                globalHolidayService.setCanWrite(isAdmin.value);
                 globalHolidayService.getHolidays().catch(error => {
                   console.warn('Failed to update holidays on login:', error);
                 });
@@ -133,6 +156,7 @@ export const useAuthStore = defineStore("auth", () => {
     pending,
     lastError,
     preferredMode,
+    isAdmin,
     isAuthenticated,
     displayName,
     setMode,
@@ -0,0 +1,114 @@
+import { defineStore } from "pinia";
+import { useOutboxStore } from "@/store/outboxStore";
+import type { WorkHourRange } from "@/store/settingsStore";
+
+/**
+ * 作業を分担するアシスタント（アカウントごとに登録）
+ * 作業可能時間は本人の設定と同じ曜日ごとの形式で持ち、担当分の作業ペース計算に使用する
+ */
+export interface Collaborator {
+  id: string;
+  name: string;
+  color: string;
+  workHours: WorkHourRange[];
+}
+
+interface CollaboratorsDocument {
+  collaborators: Collaborator[];
+}
+
+interface CollaboratorsState {
+  collaborators: Collaborator[];
+  collaboratorsLoaded: boolean;
+  loadingCollaborators: boolean;
+  savingCollaborators: boolean;
+  loadError: string | null;
+  saveError: string | null;
+}
+
+const buildDocumentPath = (userId: string) => `users/${userId}/settings/collaborators`;
+
+const mapError = (error: unknown) => {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return "アシスタント設定の保存処理で問題が発生しました。";
+};
+
+const normalizeCollaborators = (items: unknown): Collaborator[] => {
+  if (!Array.isArray(items)) {
+    return [];
+  }
+
+  return items
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === "object" && typeof (item as Record<string, unknown>).id === "string")
+    .map((item) => ({
+      id: item.id as string,
+      name: typeof item.name === "string" && item.name.trim() ? item.name : "アシスタント",
+      color: typeof item.color === "string" ? item.color : "#6c757d",
+      workHours: Array.isArray(item.workHours) ? (item.workHours as WorkHourRange[]) : [],
+    }));
+};
+
+export const useCollaboratorsStore = defineStore("collaborators", {
+  state: (): CollaboratorsState => ({
+    collaborators: [],
+    collaboratorsLoaded: false,
+    loadingCollaborators: false,
+    savingCollaborators: false,
+    loadError: null,
+    saveError: null,
+  }),
+
+  getters: {
+    getCollaboratorById: (state) => (id: string | null | undefined) => (id ? (state.collaborators.find((collaborator) => collaborator.id === id) ?? null) : null),
+  },
+
+  actions: {
+    async fetchCollaborators(userId: string) {
+      if (!userId || this.loadingCollaborators) {
+        return;
+      }
+
+      this.loadingCollaborators = true;
+      this.loadError = null;
+
+      try {
+        const document = await useOutboxStore().getDocumentWithPending<CollaboratorsDocument>(buildDocumentPath(userId));
+        this.collaborators = normalizeCollaborators(document?.collaborators);
+        this.collaboratorsLoaded = true;
+      } catch (error) {
+        console.error("Failed to fetch collaborators:", error);
+        this.loadError = error instanceof Error ? error.message : "アシスタント設定の読み込みに失敗しました。";
+      } finally {
+        this.loadingCollaborators = false;
+      }
+    },
+
+    async saveCollaborators(userId: string, collaborators: Collaborator[]) {
+      if (!userId) {
+        throw new Error("ユーザー情報が取得できませんでした。");
+      }
+
+      this.savingCollaborators = true;
+      this.saveError = null;
+
+      try {
+        const payload = collaborators.map((collaborator) => ({
+          id: collaborator.id,
+          name: collaborator.name.trim(),
+          color: collaborator.color,
+          workHours: collaborator.workHours.map((range) => ({ ...range })),
+        }));
+        await useOutboxStore().write({ userId, scope: "settings", targetId: "collaborators", operation: "set", path: buildDocumentPath(userId), data: { collaborators: payload } });
+        this.collaborators = payload;
+        this.collaboratorsLoaded = true;
+      } catch (error) {
+        this.saveError = mapError(error);
+        throw error;
+      } finally {
+        this.savingCollaborators = false;
+      }
+    },
+  },
+});
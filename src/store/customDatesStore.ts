@@ -1,21 +1,61 @@
 import { defineStore } from "pinia";
-import { deleteDocument, getCollectionDocs, setDocument } from "@/services/firebase/firestoreService";
+import { getCollectionDocs } from "@/services/firebase/firestoreService";
+import { useOutboxStore } from "@/store/outboxStore";
+import { resolveCustomDate } from "@/utils/customDateRules";
+import { getDateRange } from "@/utils/dateUtils";
+import { generateId } from "@/utils/id";
+import { calculateWindowHours, normalizeTimeWindows, type WorkTimeWindow } from "@/utils/timeWindows";
 
-export type CustomDateType = "custom-holiday" | "unavailable" | "custom-hours";
+export const CUSTOM_DATE_TYPES = ["custom-holiday", "unavailable", "partial-unavailable", "custom-hours"] as const;
+export type CustomDateType = (typeof CUSTOM_DATE_TYPES)[number];
 
 export interface CustomDate {
   id: string; // YYYY-MM-DD形式
   date: string; // YYYY-MM-DD形式
   type: CustomDateType;
   customHours?: number; // custom-hoursタイプの場合の固有作業時間
+  windows?: WorkTimeWindow[]; // custom-hoursタイプで時間帯を指定する場合（customHoursはその合計）
+  blocks?: WorkTimeWindow[]; // partial-unavailableタイプの作業不可の時間帯（例: 歯医者 14:00〜15:00）
+  ruleId?: string; // 繰り返しルールから展開された場合のルールID（保存はされない）
   createdAt: string;
   updatedAt: string;
 }
 
 type CustomDateDocument = Omit<CustomDate, "id">;
 
+/**
+ * 繰り返し条件
+ * - weekly: 指定曜日を interval 週おき（適用開始日の週が基準）
+ * - monthly: 毎月第 nth 週の指定曜日（nth = -1 は最終週）
+ * - yearly: 毎年 MM-DD 〜 MM-DD の期間（年をまたいでもよい）
+ */
+export type CustomDateRecurrence =
+  | { frequency: "weekly"; weekdays: number[]; interval: number }
+  | { frequency: "monthly"; nth: number; weekday: number }
+  | { frequency: "yearly"; startMonthDay: string; endMonthDay: string };
+
+export interface CustomDateRule {
+  id: string;
+  label: string;
+  recurrence: CustomDateRecurrence;
+  type: CustomDateType;
+  customHours?: number;
+  windows?: WorkTimeWindow[];
+  blocks?: WorkTimeWindow[];
+  startDate: string; // 適用開始日（YYYY-MM-DD）
+  endDate?: string | null; // 適用終了日（未設定なら無期限）
+  exceptions?: string[]; // ルールを適用しない日付
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CustomDateRuleInput = Pick<CustomDateRule, "label" | "recurrence" | "type" | "customHours" | "windows" | "blocks" | "startDate" | "endDate">;
+
+type CustomDateRuleDocument = Omit<CustomDateRule, "id">;
+
 interface CustomDatesState {
   customDates: CustomDate[];
+  customDateRules: CustomDateRule[];
   customDatesLoaded: boolean;
   loadingCustomDates: boolean;
   savingCustomDates: boolean;
@@ -25,10 +65,38 @@ interface CustomDatesState {
 
 const buildCollectionPath = (userId: string) => `users/${userId}/customDates`;
 const buildDocumentPath = (userId: string, dateId: string) => `${buildCollectionPath(userId)}/${dateId}`;
+const buildRuleCollectionPath = (userId: string) => `users/${userId}/customDateRules`;
+const buildRuleDocumentPath = (userId: string, ruleId: string) => `${buildRuleCollectionPath(userId)}/${ruleId}`;
+
+// 種類ごとに必要な時間情報だけを残す
+const applyTimeRanges = <T extends Pick<CustomDate, "type" | "customHours" | "windows" | "blocks">>(
+  document: T,
+  customHours: number | undefined,
+  timeRanges: Pick<CustomDate, "windows" | "blocks">,
+): T => {
+  // custom-hoursタイプの場合のみcustomHoursを含める（時間帯指定時はその合計）
+  if (document.type === "custom-hours") {
+    const windows = normalizeTimeWindows(timeRanges.windows);
+    if (windows.length > 0) {
+      document.windows = windows;
+      document.customHours = calculateWindowHours(windows);
+    } else if (customHours !== undefined) {
+      document.customHours = customHours;
+    }
+  }
+
+  // partial-unavailableタイプの場合のみ作業不可の時間帯を含める
+  if (document.type === "partial-unavailable") {
+    document.blocks = (timeRanges.blocks ?? []).filter((block) => calculateWindowHours([block]) > 0);
+  }
+
+  return document;
+};
 
 export const useCustomDatesStore = defineStore("customDates", {
   state: (): CustomDatesState => ({
     customDates: [],
+    customDateRules: [],
     customDatesLoaded: false,
     loadingCustomDates: false,
     savingCustomDates: false,
@@ -45,6 +113,15 @@ export const useCustomDatesStore = defineStore("customDates", {
       const monthStr = `${year}-${String(month).padStart(2, "0")}`;
       return state.customDates.filter((cd) => cd.date.startsWith(monthStr));
     },
+
+    /** 日付ごとの設定 → 繰り返しルールの順に解決した設定を取得 */
+    getEffectiveCustomDate: (state) => (date: string) => {
+      return resolveCustomDate(date, state.customDates, state.customDateRules);
+    },
+
+    getCustomDateRuleById: (state) => (ruleId: string) => {
+      return state.customDateRules.find((rule) => rule.id === ruleId);
+    },
   },
 
   actions: {
@@ -57,13 +134,16 @@ export const useCustomDatesStore = defineStore("customDates", {
       this.loadError = null;
 
       try {
-        const path = buildCollectionPath(userId);
-        const docs = await getCollectionDocs<CustomDateDocument>(path);
+        const [docs, ruleDocs] = await Promise.all([
+          getCollectionDocs<CustomDateDocument>(buildCollectionPath(userId)),
+          getCollectionDocs<CustomDateRuleDocument>(buildRuleCollectionPath(userId)),
+        ]);
 
-        this.customDates = docs.map((doc) => ({
-          ...doc,
-          id: doc.id,
-        })) as CustomDate[];
+        // 送信待ちの変更があるドキュメントはローカルの内容を優先する
+        const outboxStore = useOutboxStore();
+        this.customDates = outboxStore.applyPendingDocuments(userId, "customDate", docs) as CustomDate[];
+        // ルールは登録順に評価する
+        this.customDateRules = (outboxStore.applyPendingDocuments(userId, "customDateRule", ruleDocs) as CustomDateRule[]).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
 
         this.customDatesLoaded = true;
       } catch (error) {
@@ -74,7 +154,7 @@ export const useCustomDatesStore = defineStore("customDates", {
       }
     },
 
-    async setCustomDate(userId: string, date: string, type: CustomDateType, customHours?: number) {
+    async setCustomDate(userId: string, date: string, type: CustomDateType, customHours?: number, timeRanges: Pick<CustomDate, "windows" | "blocks"> = {}) {
       this.savingCustomDates = true;
       this.saveError = null;
 
@@ -83,20 +163,19 @@ export const useCustomDatesStore = defineStore("customDates", {
         const now = new Date().toISOString();
 
         const existing = this.customDates.find((cd) => cd.date === date);
-        const document: CustomDateDocument = {
-          date,
-          type,
-          createdAt: existing?.createdAt || now,
-          updatedAt: now,
-        };
-
-        // custom-hoursタイプの場合のみcustomHoursを含める
-        if (type === "custom-hours" && customHours !== undefined) {
-          document.customHours = customHours;
-        }
+        const document = applyTimeRanges<CustomDateDocument>(
+          {
+            date,
+            type,
+            createdAt: existing?.createdAt || now,
+            updatedAt: now,
+          },
+          customHours,
+          timeRanges,
+        );
 
         const path = buildDocumentPath(userId, dateId);
-        await setDocument(path, document);
+        await useOutboxStore().write({ userId, scope: "customDate", targetId: dateId, operation: "set", path, data: { ...document } });
 
         // ローカル状態を更新
         const index = this.customDates.findIndex((cd) => cd.date === date);
@@ -121,7 +200,7 @@ export const useCustomDatesStore = defineStore("customDates", {
       try {
         const dateId = date;
         const path = buildDocumentPath(userId, dateId);
-        await deleteDocument(path);
+        await useOutboxStore().write({ userId, scope: "customDate", targetId: dateId, operation: "delete", path });
 
         // ローカル状態を更新
         const index = this.customDates.findIndex((cd) => cd.date === date);
@@ -136,5 +215,179 @@ export const useCustomDatesStore = defineStore("customDates", {
         this.savingCustomDates = false;
       }
     },
+
+    /**
+     * 期間内（両端含む）の全日付に同じ設定をまとめて保存する
+     */
+    async setCustomDateRange(
+      userId: string,
+      startDate: string,
+      endDate: string,
+      type: CustomDateType,
+      customHours?: number,
+      timeRanges: Pick<CustomDate, "windows" | "blocks"> = {},
+    ) {
+      this.savingCustomDates = true;
+      this.saveError = null;
+
+      try {
+        const now = new Date().toISOString();
+        const dates = startDate <= endDate ? getDateRange(startDate, endDate) : getDateRange(endDate, startDate);
+
+        const documents = dates.map((date) => {
+          const existing = this.customDates.find((cd) => cd.date === date);
+          return applyTimeRanges<CustomDateDocument>({ date, type, createdAt: existing?.createdAt || now, updatedAt: now }, customHours, timeRanges);
+        });
+
+        await useOutboxStore().writeBatch(
+          documents.map((document) => ({
+            userId,
+            scope: "customDate" as const,
+            targetId: document.date,
+            operation: "set" as const,
+            path: buildDocumentPath(userId, document.date),
+            data: { ...document },
+          })),
+        );
+
+        // ローカル状態を更新
+        const written = new Set(dates);
+        this.customDates = [...this.customDates.filter((cd) => !written.has(cd.date)), ...documents.map((document) => ({ id: document.date, ...document }))];
+      } catch (error) {
+        console.error("Failed to set custom date range:", error);
+        this.saveError = error instanceof Error ? error.message : "カスタム日付の保存に失敗しました。";
+        throw error;
+      } finally {
+        this.savingCustomDates = false;
+      }
+    },
+
+    /**
+     * 期間内（両端含む）に設定されている日付ごとの設定をまとめて削除する
+     */
+    async removeCustomDateRange(userId: string, startDate: string, endDate: string) {
+      const [from, to] = startDate <= endDate ? [startDate, endDate] : [endDate, startDate];
+      const targets = this.customDates.filter((cd) => cd.date >= from && cd.date <= to);
+      if (targets.length === 0) {
+        return;
+      }
+
+      this.savingCustomDates = true;
+      this.saveError = null;
+
+      try {
+        await useOutboxStore().writeBatch(
+          targets.map((target) => ({
+            userId,
+            scope: "customDate" as const,
+            targetId: target.id,
+            operation: "delete" as const,
+            path: buildDocumentPath(userId, target.id),
+          })),
+        );
+
+        const removed = new Set(targets.map((target) => target.id));
+        this.customDates = this.customDates.filter((cd) => !removed.has(cd.id));
+      } catch (error) {
+        console.error("Failed to remove custom date range:", error);
+        this.saveError = error instanceof Error ? error.message : "カスタム日付の削除に失敗しました。";
+        throw error;
+      } finally {
+        this.savingCustomDates = false;
+      }
+    },
+
+    async saveCustomDateRule(userId: string, input: CustomDateRuleInput, ruleId?: string) {
+      this.savingCustomDates = true;
+      this.saveError = null;
+
+      try {
+        const id = ruleId ?? generateId();
+        const now = new Date().toISOString();
+        const existing = this.customDateRules.find((rule) => rule.id === id);
+
+        const document = applyTimeRanges<CustomDateRuleDocument>(
+          {
+            label: input.label.trim(),
+            recurrence: input.recurrence,
+            type: input.type,
+            startDate: input.startDate,
+            endDate: input.endDate || null,
+            exceptions: existing?.exceptions ?? [],
+            createdAt: existing?.createdAt || now,
+            updatedAt: now,
+          },
+          input.customHours,
+          { windows: input.windows, blocks: input.blocks },
+        );
+
+        await useOutboxStore().write({ userId, scope: "customDateRule", targetId: id, operation: "set", path: buildRuleDocumentPath(userId, id), data: { ...document } });
+
+        const index = this.customDateRules.findIndex((rule) => rule.id === id);
+        if (index >= 0) {
+          this.customDateRules[index] = { id, ...document };
+        } else {
+          this.customDateRules.push({ id, ...document });
+        }
+        return id;
+      } catch (error) {
+        console.error("Failed to save custom date rule:", error);
+        this.saveError = error instanceof Error ? error.message : "繰り返しルールの保存に失敗しました。";
+        throw error;
+      } finally {
+        this.savingCustomDates = false;
+      }
+    },
+
+    /**
+     * 指定日だけルールを適用しないようにする（skip=false で元に戻す）
+     */
+    async setCustomDateRuleException(userId: string, ruleId: string, date: string, skip: boolean) {
+      const rule = this.customDateRules.find((item) => item.id === ruleId);
+      if (!rule) {
+        return;
+      }
+
+      this.savingCustomDates = true;
+      this.saveError = null;
+
+      try {
+        const others = (rule.exceptions ?? []).filter((item) => item !== date);
+        const exceptions = skip ? [...others, date].sort() : others;
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { id: _, ...rest } = rule;
+        const document: CustomDateRuleDocument = { ...rest, exceptions, updatedAt: new Date().toISOString() };
+
+        await useOutboxStore().write({ userId, scope: "customDateRule", targetId: ruleId, operation: "set", path: buildRuleDocumentPath(userId, ruleId), data: { ...document } });
+
+        Object.assign(rule, document);
+      } catch (error) {
+        console.error("Failed to update custom date rule exceptions:", error);
+        this.saveError = error instanceof Error ? error.message : "繰り返しルールの更新に失敗しました。";
+        throw error;
+      } finally {
+        this.savingCustomDates = false;
+      }
+    },
+
+    async removeCustomDateRule(userId: string, ruleId: string) {
+      this.savingCustomDates = true;
+      this.saveError = null;
+
+      try {
+        await useOutboxStore().write({ userId, scope: "customDateRule", targetId: ruleId, operation: "delete", path: buildRuleDocumentPath(userId, ruleId) });
+
+        const index = this.customDateRules.findIndex((rule) => rule.id === ruleId);
+        if (index >= 0) {
+          this.customDateRules.splice(index, 1);
+        }
+      } catch (error) {
+        console.error("Failed to remove custom date rule:", error);
+        this.saveError = error instanceof Error ? error.message : "繰り返しルールの削除に失敗しました。";
+        throw error;
+      } finally {
+        this.savingCustomDates = false;
+      }
+    },
   },
 });
@@ -0,0 +1,216 @@
+import { defineStore } from "pinia";
+import { buildHolidaySetDocumentPath, holidaySetService, type HolidaySetDocument } from "@/services/holidaySetService";
+import { useOutboxStore } from "@/store/outboxStore";
+import type { Holiday } from "@/utils/dateUtils";
+import { generateId } from "@/utils/id";
+import { fillCalculatedJapaneseHolidays, findHolidayForDate, JAPANESE_HOLIDAY_SET_ID, mergeHolidaySets, toHolidays, type HolidaySetEntry } from "@/utils/holidaySets";
+
+/**
+ * 取り込んだ祝日セットの概要（一覧表示とキャッシュの更新判定に使用）
+ */
+export interface HolidaySetSummary {
+  id: string;
+  name: string;
+  count: number;
+  updatedAt: string;
+}
+
+interface HolidayCalendarsDocument {
+  selectedSetIds: string[];
+  sets: HolidaySetSummary[];
+}
+
+interface HolidayCalendarState {
+  selectedSetIds: string[];
+  holidaySets: HolidaySetSummary[];
+  holidaysBySet: Record<string, Holiday[]>;
+  holidayCalendarsLoaded: boolean;
+  loadingHolidayCalendars: boolean;
+  savingHolidayCalendars: boolean;
+  loadError: string | null;
+  saveError: string | null;
+}
+
+const DEFAULT_SELECTED_SET_IDS = [JAPANESE_HOLIDAY_SET_ID];
+
+const buildDocumentPath = (userId: string) => `users/${userId}/settings/holidayCalendars`;
+
+const mapError = (error: unknown) => {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return "祝日設定の保存処理で問題が発生しました。";
+};
+
+// 読み込み前でも日本の祝日は計算で判定できるようにする
+const getCalculatedJapaneseHolidays = () => {
+  const currentYear = new Date().getFullYear();
+  return fillCalculatedJapaneseHolidays([], currentYear - 1, currentYear + 5);
+};
+
+export const useHolidayCalendarStore = defineStore("holidayCalendar", {
+  state: (): HolidayCalendarState => ({
+    selectedSetIds: [...DEFAULT_SELECTED_SET_IDS],
+    holidaySets: [],
+    holidaysBySet: {},
+    holidayCalendarsLoaded: false,
+    loadingHolidayCalendars: false,
+    savingHolidayCalendars: false,
+    loadError: null,
+    saveError: null,
+  }),
+
+  getters: {
+    /** 選択中の祝日セットをまとめた祝日一覧（calculateWorkPace などに渡す） */
+    holidays: (state): Holiday[] =>
+      mergeHolidaySets(
+        state.selectedSetIds.map((setId) => state.holidaysBySet[setId] ?? (setId === JAPANESE_HOLIDAY_SET_ID ? getCalculatedJapaneseHolidays() : [])),
+      ),
+
+    getHolidayForDate() {
+      return (date: Date): Holiday | null => findHolidayForDate(this.holidays, date);
+    },
+  },
+
+  actions: {
+    /**
+     * 祝日セットの選択状態と、選択中のセットの祝日データを読み込む
+     */
+    async fetchHolidayCalendars(userId: string) {
+      if (!userId || this.loadingHolidayCalendars) {
+        return;
+      }
+
+      this.loadingHolidayCalendars = true;
+      this.loadError = null;
+
+      try {
+        const document = await useOutboxStore().getDocumentWithPending<HolidayCalendarsDocument>(buildDocumentPath(userId));
+
+        this.holidaySets = document?.sets ?? [];
+        const knownIds = new Set([JAPANESE_HOLIDAY_SET_ID, ...this.holidaySets.map((set) => set.id)]);
+        this.selectedSetIds = (document?.selectedSetIds ?? DEFAULT_SELECTED_SET_IDS).filter((setId) => knownIds.has(setId));
+
+        await this.loadSelectedHolidays(userId);
+        this.holidayCalendarsLoaded = true;
+      } catch (error) {
+        console.error("Failed to fetch holiday calendars:", error);
+        this.loadError = error instanceof Error ? error.message : "祝日設定の読み込みに失敗しました。";
+      } finally {
+        this.loadingHolidayCalendars = false;
+      }
+    },
+
+    async loadSelectedHolidays(userId: string) {
+      const entries = await Promise.all(
+        this.selectedSetIds.map(async (setId): Promise<[string, Holiday[]]> => {
+          if (setId === JAPANESE_HOLIDAY_SET_ID) {
+            return [setId, await holidaySetService.getJapaneseHolidays()];
+          }
+          const summary = this.holidaySets.find((set) => set.id === setId);
+          return [setId, summary ? await holidaySetService.getCustomHolidays(userId, setId, summary.updatedAt) : []];
+        }),
+      );
+      this.holidaysBySet = { ...this.holidaysBySet, ...Object.fromEntries(entries) };
+    },
+
+    async saveSelectedSets(userId: string, setIds: string[]) {
+      if (!userId) {
+        throw new Error("ユーザー情報が取得できませんでした。");
+      }
+
+      this.savingHolidayCalendars = true;
+      this.saveError = null;
+
+      try {
+        const selectedSetIds = [...new Set(setIds)];
+        await useOutboxStore().write({
+          userId,
+          scope: "settings",
+          targetId: "holidayCalendars",
+          operation: "set",
+          path: buildDocumentPath(userId),
+          data: { selectedSetIds, sets: this.holidaySets },
+        });
+        this.selectedSetIds = selectedSetIds;
+        await this.loadSelectedHolidays(userId);
+      } catch (error) {
+        this.saveError = mapError(error);
+        throw error;
+      } finally {
+        this.savingHolidayCalendars = false;
+      }
+    },
+
+    /**
+     * 祝日一覧を新しい祝日セットとして保存し、選択状態にする
+     */
+    async importHolidaySet(userId: string, name: string, holidays: HolidaySetEntry[]) {
+      if (!userId) {
+        throw new Error("ユーザー情報が取得できませんでした。");
+      }
+      if (holidays.length === 0) {
+        throw new Error("祝日が1件も含まれていません。");
+      }
+
+      this.savingHolidayCalendars = true;
+      this.saveError = null;
+
+      try {
+        const setId = generateId();
+        const now = new Date().toISOString();
+        const document: HolidaySetDocument = { name: name.trim() || "祝日セット", holidays, createdAt: now, updatedAt: now };
+        const sets = [...this.holidaySets, { id: setId, name: document.name, count: holidays.length, updatedAt: now }];
+        const selectedSetIds = [...this.selectedSetIds, setId];
+
+        await useOutboxStore().writeBatch([
+          { userId, scope: "holidaySet", targetId: setId, operation: "set", path: buildHolidaySetDocumentPath(userId, setId), data: { ...document } },
+          { userId, scope: "settings", targetId: "holidayCalendars", operation: "set", path: buildDocumentPath(userId), data: { selectedSetIds, sets } },
+        ]);
+
+        const parsed = toHolidays(holidays);
+        holidaySetService.cacheCustomHolidays(userId, setId, now, parsed);
+        this.holidaySets = sets;
+        this.selectedSetIds = selectedSetIds;
+        this.holidaysBySet = { ...this.holidaysBySet, [setId]: parsed };
+        return setId;
+      } catch (error) {
+        this.saveError = mapError(error);
+        throw error;
+      } finally {
+        this.savingHolidayCalendars = false;
+      }
+    },
+
+    async removeHolidaySet(userId: string, setId: string) {
+      if (!userId) {
+        throw new Error("ユーザー情報が取得できませんでした。");
+      }
+
+      this.savingHolidayCalendars = true;
+      this.saveError = null;
+
+      try {
+        const sets = this.holidaySets.filter((set) => set.id !== setId);
+        const selectedSetIds = this.selectedSetIds.filter((id) => id !== setId);
+
+        await useOutboxStore().writeBatch([
+          { userId, scope: "holidaySet", targetId: setId, operation: "delete", path: buildHolidaySetDocumentPath(userId, setId) },
+          { userId, scope: "settings", targetId: "holidayCalendars", operation: "set", path: buildDocumentPath(userId), data: { selectedSetIds, sets } },
+        ]);
+
+        holidaySetService.clearCustomCache(userId, setId);
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { [setId]: _, ...rest } = this.holidaysBySet;
+        this.holidaySets = sets;
+        this.selectedSetIds = selectedSetIds;
+        this.holidaysBySet = rest;
+      } catch (error) {
+        this.saveError = mapError(error);
+        throw error;
+      } finally {
+        this.savingHolidayCalendars = false;
+      }
+    },
+  },
+});
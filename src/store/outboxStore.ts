@@ -0,0 +1,412 @@
+import { defineStore } from "pinia";
+
+import { deleteDocument, getDocument, setDocument, writeDocuments } from "@/services/firebase/firestoreService";
+import type { StorageSetOptions } from "@/services/storage/types";
+import { generateId } from "@/utils/id";
+import { hasWorkVersionChanged, mapError, WorkConflictError } from "@/utils/workStoreHelpers";
+
+type OutboxScope = "work" | "publicShare" | "customDate" | "customDateRule" | "holidaySet" | "settings";
+type OutboxOperation = "set" | "delete";
+type OutboxEntryStatus = "queued" | "syncing" | "failed";
+
+/** 書き込みの基準にした保存済みの版（作品の競合検出用） */
+interface OutboxBaseVersion {
+  revision?: number;
+  updatedAt: string;
+}
+
+interface OutboxEntry {
+  id: string;
+  userId: string;
+  scope: OutboxScope;
+  targetId: string;
+  operation: OutboxOperation;
+  path: string;
+  data?: Record<string, unknown>;
+  options?: StorageSetOptions;
+  baseVersion?: OutboxBaseVersion;
+  /** 再送前の確認で保存済みの版が変わっていた場合の、保存済みのドキュメント（送信せず失敗として残す） */
+  conflictDocument?: Record<string, unknown>;
+  status: OutboxEntryStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string;
+}
+
+interface OutboxWriteRequest {
+  userId: string;
+  scope: OutboxScope;
+  targetId: string;
+  operation: OutboxOperation;
+  path: string;
+  data?: Record<string, unknown>;
+  options?: StorageSetOptions;
+  /** 指定した場合、再送前に保存済みの版がこの版から変わっていないか確認する */
+  baseVersion?: OutboxBaseVersion;
+}
+
+/** 書き込み結果（saved: 保存済み / queued: 送信待ちとしてアウトボックスへ登録） */
+type OutboxWriteResult = "saved" | "queued";
+
+interface OutboxState {
+  entries: OutboxEntry[];
+  replaying: boolean;
+  restored: boolean;
+}
+
+const STORAGE_KEY = "mangaflow_outbox";
+const WRITE_TIMEOUT_MS = 15000;
+const RETRYABLE_ERROR_CODES = ["unavailable", "deadline-exceeded", "network-request-failed", "outbox/timeout"];
+
+class OutboxTimeoutError extends Error {
+  readonly code = "outbox/timeout";
+
+  constructor() {
+    super("保存がタイムアウトしました。");
+    this.name = "OutboxTimeoutError";
+  }
+}
+
+const isOffline = () => typeof navigator !== "undefined" && navigator.onLine === false;
+
+/** 通信状態に起因する（再送すれば成功しうる）エラーかどうか */
+const isRetryableWriteError = (error: unknown) => {
+  if (isOffline()) {
+    return true;
+  }
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && RETRYABLE_ERROR_CODES.some((candidate) => code === candidate || code.endsWith(`/${candidate}`));
+};
+
+/** オフライン時に Firestore SDK の Promise が解決されないケースに備えてタイムアウトを設ける */
+const withTimeout = <T>(promise: Promise<T>) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new OutboxTimeoutError()), WRITE_TIMEOUT_MS);
+    promise.then(
+      (value) => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      },
+    );
+  });
+
+const executeWrite = (entry: Pick<OutboxEntry, "operation" | "path" | "data" | "options">) =>
+  withTimeout(entry.operation === "delete" ? deleteDocument(entry.path) : setDocument(entry.path, entry.data ?? {}, entry.options));
+
+const loadPersistedEntries = (): OutboxEntry[] => {
+  if (typeof localStorage === "undefined") {
+    return [];
+  }
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      return [];
+    }
+    const parsed = JSON.parse(raw) as OutboxEntry[];
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    // 前回送信中のまま終了したエントリは送信待ちに戻す
+    return parsed.map((entry) => (entry.status === "syncing" ? { ...entry, status: "queued" } : entry));
+  } catch (error) {
+    console.warn("アウトボックスの読み込みに失敗しました:", error);
+    return [];
+  }
+};
+
+let onlineListener: (() => void) | null = null;
+let conflictListener: ((entry: OutboxEntry) => void) | null = null;
+
+/** 保存済みの版が書き込みの基準にした版から変わっていれば、保存済みのドキュメントを返す（読み込みに失敗した場合は例外） */
+const findConflictDocument = async (entry: OutboxEntry) => {
+  if (!entry.baseVersion || entry.operation !== "set") {
+    return null;
+  }
+  const stored = await withTimeout(getDocument<OutboxBaseVersion & Record<string, unknown>>(entry.path));
+  return stored && hasWorkVersionChanged(stored, entry.baseVersion) ? stored : null;
+};
+
+export const useOutboxStore = defineStore("outbox", {
+  state: (): OutboxState => ({
+    entries: [],
+    replaying: false,
+    restored: false,
+  }),
+  getters: {
+    pendingCount: (state) => state.entries.length,
+    failedCount: (state) => state.entries.filter((entry) => entry.status === "failed").length,
+    getEntriesForTarget: (state) => (scope: OutboxScope, targetId: string) => state.entries.filter((entry) => entry.scope === scope && entry.targetId === targetId),
+    getTargetStatus: (state) => (scope: OutboxScope, targetId: string): OutboxEntryStatus | null => {
+      const entries = state.entries.filter((entry) => entry.scope === scope && entry.targetId === targetId);
+      if (entries.length === 0) {
+        return null;
+      }
+      if (entries.some((entry) => entry.status === "failed")) {
+        return "failed";
+      }
+      if (entries.some((entry) => entry.status === "syncing")) {
+        return "syncing";
+      }
+      return "queued";
+    },
+    /** 送信待ちの最新の書き込み内容（削除待ちの場合は "deleted"） */
+    getPendingDocument: (state) => (path: string): Record<string, unknown> | "deleted" | null => {
+      const latest = [...state.entries].reverse().find((entry) => entry.path === path);
+      if (!latest) {
+        return null;
+      }
+      return latest.operation === "delete" ? "deleted" : (latest.data ?? null);
+    },
+  },
+  actions: {
+    restore() {
+      if (this.restored) {
+        return;
+      }
+      this.entries = loadPersistedEntries();
+      this.restored = true;
+    },
+    /** 送信待ちの書き込みがあればその内容を、なければ保存済みのドキュメントを読み込む */
+    async getDocumentWithPending<T>(path: string): Promise<T | null> {
+      this.restore();
+      const pending = this.getPendingDocument(path);
+      if (pending === "deleted") {
+        return null;
+      }
+      if (pending) {
+        return pending as T;
+      }
+      return getDocument<T>(path);
+    },
+    /** 読み込んだコレクションのドキュメントに、同じ scope の送信待ちの書き込み（削除を含む）を反映する */
+    applyPendingDocuments<T extends { id: string }>(userId: string, scope: OutboxScope, docs: T[]): T[] {
+      this.restore();
+      const documentMap = new Map(docs.map((doc) => [doc.id, doc]));
+      this.entries
+        .filter((entry) => entry.userId === userId && entry.scope === scope)
+        .forEach((entry) => {
+          const pending = this.getPendingDocument(entry.path);
+          if (pending === "deleted") {
+            documentMap.delete(entry.targetId);
+          } else if (pending) {
+            documentMap.set(entry.targetId, { ...(pending as Omit<T, "id">), id: entry.targetId } as T);
+          }
+        });
+      return [...documentMap.values()];
+    },
+    persist() {
+      if (typeof localStorage === "undefined") {
+        return;
+      }
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+      } catch (error) {
+        console.warn("アウトボックスの保存に失敗しました:", error);
+      }
+    },
+    enqueue(request: OutboxWriteRequest) {
+      this.restore();
+
+      // 同じドキュメントへの未送信の上書きは最新のものだけ残す（merge 書き込みは順序を保つため残す）
+      const supersedes = request.operation === "delete" || !request.options?.merge;
+      const isSuperseded = (entry: OutboxEntry) => supersedes && entry.path === request.path && entry.status !== "syncing";
+      const retained = this.entries.filter((entry) => !isSuperseded(entry));
+      // まだ送信していない書き込みを置き換える場合は、最初に基準にした版を引き継ぐ（競合として残したものは除く）
+      const baseVersion = this.entries.find((entry) => isSuperseded(entry) && entry.baseVersion && !entry.conflictDocument)?.baseVersion ?? request.baseVersion;
+
+      const entry: OutboxEntry = {
+        id: generateId(),
+        userId: request.userId,
+        scope: request.scope,
+        targetId: request.targetId,
+        operation: request.operation,
+        path: request.path,
+        data: request.data ? (JSON.parse(JSON.stringify(request.data)) as Record<string, unknown>) : undefined,
+        options: request.options,
+        ...(baseVersion ? { baseVersion } : {}),
+        status: "queued",
+        attempts: 0,
+        lastError: null,
+        createdAt: new Date().toISOString(),
+      };
+
+      this.entries = [...retained, entry];
+      this.persist();
+    },
+    /**
+     * 書き込みを実行し、通信エラー時はアウトボックスへ登録する
+     * 同じドキュメントに送信待ちがある場合は順序を守るため常にアウトボックス経由にする
+     */
+    async write(request: OutboxWriteRequest): Promise<OutboxWriteResult> {
+      this.restore();
+
+      const hasPendingForPath = this.entries.some((entry) => entry.path === request.path);
+      if (isOffline() || hasPendingForPath) {
+        this.enqueue(request);
+        if (!isOffline()) {
+          void this.replay(request.userId);
+        }
+        return "queued";
+      }
+
+      try {
+        await executeWrite(request);
+        return "saved";
+      } catch (error) {
+        if (isRetryableWriteError(error)) {
+          console.warn("通信エラーのため書き込みを送信待ちにしました:", { path: request.path, error });
+          this.enqueue(request);
+          return "queued";
+        }
+        throw error;
+      }
+    },
+    /**
+     * 複数の書き込みを1回のバッチで実行し、通信エラー時はすべてアウトボックスへ登録する
+     * 送信待ちのドキュメントを含む場合は順序を守るため1件ずつアウトボックス経由で送る
+     */
+    async writeBatch(requests: OutboxWriteRequest[]): Promise<OutboxWriteResult> {
+      this.restore();
+
+      if (requests.length === 0) {
+        return "saved";
+      }
+
+      const userId = requests[0]!.userId;
+      const hasPendingForPath = requests.some((request) => this.entries.some((entry) => entry.path === request.path));
+      if (isOffline() || hasPendingForPath) {
+        requests.forEach((request) => this.enqueue(request));
+        if (!isOffline()) {
+          void this.replay(userId);
+        }
+        return "queued";
+      }
+
+      try {
+        await withTimeout(writeDocuments(requests.map(({ operation, path, data, options }) => ({ operation, path, data, options }))));
+        return "saved";
+      } catch (error) {
+        if (isRetryableWriteError(error)) {
+          console.warn("通信エラーのためバッチ書き込みを送信待ちにしました:", { count: requests.length, error });
+          requests.forEach((request) => this.enqueue(request));
+          return "queued";
+        }
+        throw error;
+      }
+    },
+    /**
+     * 送信待ちの書き込みを登録順に再送
+     * 再送中に追加された書き込み（同じドキュメントの送信待ちがあったもの）も、続けて再送する
+     * 同じドキュメントの以前の書き込みが失敗している間は、後の書き込みを送らずに残す
+     * （失敗した書き込みを再試行したときに、古い内容が新しい内容を上書きしないようにする）
+     */
+    async replay(userId: string | null) {
+      this.restore();
+
+      if (!userId || this.replaying || isOffline()) {
+        return;
+      }
+
+      this.replaying = true;
+      try {
+        const attempted = new Set<string>();
+        const collectQueued = () => this.entries.filter((entry) => entry.userId === userId && entry.status === "queued" && !attempted.has(entry.id));
+        const isHeldBack = (entry: OutboxEntry) => {
+          const index = this.entries.findIndex((candidate) => candidate.id === entry.id);
+          return this.entries.slice(0, index).some((candidate) => candidate.path === entry.path && candidate.status === "failed");
+        };
+
+        let interrupted = false;
+        for (let queued = collectQueued(); queued.length > 0 && !interrupted; queued = collectQueued()) {
+          for (const entry of queued) {
+            if (!this.entries.some((candidate) => candidate.id === entry.id)) {
+              continue;
+            }
+
+            attempted.add(entry.id);
+            if (isHeldBack(entry)) {
+              continue;
+            }
+            this.updateEntry(entry.id, { status: "syncing", attempts: entry.attempts + 1 });
+
+            try {
+              const conflictDocument = await findConflictDocument(entry);
+              if (conflictDocument) {
+                // 他の端末の保存を上書きしないよう送信せずに残し、競合として知らせる
+                this.updateEntry(entry.id, { status: "failed", lastError: new WorkConflictError().message, conflictDocument });
+                const conflicted = this.entries.find((candidate) => candidate.id === entry.id);
+                if (conflicted) {
+                  conflictListener?.(conflicted);
+                }
+                continue;
+              }
+
+              await executeWrite(entry);
+              this.entries = this.entries.filter((candidate) => candidate.id !== entry.id);
+              this.persist();
+            } catch (error) {
+              if (isRetryableWriteError(error)) {
+                // 接続が回復していないため残りは次回に回す
+                this.updateEntry(entry.id, { status: "queued", lastError: mapError(error, "同期に失敗しました。") });
+                interrupted = true;
+                break;
+              }
+              console.error("送信待ちの書き込みに失敗しました:", { path: entry.path, error });
+              this.updateEntry(entry.id, { status: "failed", lastError: mapError(error, "同期に失敗しました。") });
+            }
+          }
+        }
+      } finally {
+        this.replaying = false;
+      }
+    },
+    /** 失敗したエントリを送信待ちに戻して再送（競合したエントリは競合の解決を待つ） */
+    async retryFailed(userId: string | null) {
+      this.entries = this.entries.map((entry) => (entry.status === "failed" && !entry.conflictDocument ? { ...entry, status: "queued" } : entry));
+      this.persist();
+      await this.replay(userId);
+    },
+    discardEntry(entryId: string) {
+      this.entries = this.entries.filter((entry) => entry.id !== entryId);
+      this.persist();
+    },
+    /** 対象の競合したエントリを破棄（保存済みの版を採用した場合） */
+    discardConflicts(scope: OutboxScope, targetId: string) {
+      this.entries = this.entries.filter((entry) => !(entry.scope === scope && entry.targetId === targetId && entry.conflictDocument));
+      this.persist();
+    },
+    updateEntry(entryId: string, patch: Partial<OutboxEntry>) {
+      this.entries = this.entries.map((entry) => (entry.id === entryId ? { ...entry, ...patch } : entry));
+      this.persist();
+    },
+    /** 接続回復時に自動で再送する */
+    startAutoReplay(resolveUserId: () => string | null) {
+      this.restore();
+
+      if (typeof window === "undefined" || onlineListener) {
+        return;
+      }
+
+      onlineListener = () => {
+        void this.replay(resolveUserId());
+      };
+      window.addEventListener("online", onlineListener);
+    },
+    /** 再送前の確認で競合を検出したときの通知先を設定 */
+    setConflictListener(listener: ((entry: OutboxEntry) => void) | null) {
+      conflictListener = listener;
+    },
+    stopAutoReplay() {
+      if (onlineListener && typeof window !== "undefined") {
+        window.removeEventListener("online", onlineListener);
+      }
+      onlineListener = null;
+    },
+  },
+});
+
+export type { OutboxBaseVersion, OutboxEntry, OutboxEntryStatus, OutboxOperation, OutboxScope, OutboxWriteRequest, OutboxWriteResult };
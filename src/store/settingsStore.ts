@@ -1,12 +1,15 @@
 import { defineStore } from "pinia";
 
 import { getDefaultStageColor, normalizeStageColorValue } from "@/modules/works/utils/stageColor";
-import { getDocument, setDocument } from "@/services/firebase/firestoreService";
+import { useOutboxStore } from "@/store/outboxStore";
 import { generateId } from "@/utils/id";
+import { resequenceStagePrerequisites } from "@/utils/stageGraph";
+import type { WorkTimeWindow } from "@/utils/timeWindows";
 
 interface WorkHourRange {
   day: string;
-  hours: number;
+  hours: number; // windows がある場合はその合計時間
+  windows?: WorkTimeWindow[]; // 作業する時間帯（例: 20:00〜24:00）
 }
 
 interface WorkHoursDocument {
@@ -34,6 +37,7 @@ interface StageWorkload {
   label: string;
   color: string;
   baseHours: number | null; // 最低粒度での工数のみ保持
+  prerequisites?: number[]; // 前提工程ID（より前の工程のみ）。未設定は直前の工程
 }
 
 interface StageWorkloadCandidate {
@@ -41,6 +45,7 @@ interface StageWorkloadCandidate {
   label: string;
   color: string | null;
   baseHours: number | null;
+  prerequisites?: unknown;
   entries: StageWorkloadEntry[];
 }
 
@@ -48,6 +53,7 @@ interface StageWorkloadDocumentStage {
   id?: number;
   label?: string;
   color?: string;
+  prerequisites?: number[];
   entries?: unknown;
 }
 
@@ -355,12 +361,14 @@ const normalizeStageWorkloads = (items: unknown, granularities: Granularity[], m
         label,
         color: colorValue,
         baseHours: existingBaseHours,
+        prerequisites: rawStage.prerequisites,
         entries,
       } as StageWorkloadCandidate;
     })
     .filter((item): item is StageWorkloadCandidate => item !== null);
 
   const totalStages = normalized.length;
+  const prerequisites = resequenceStagePrerequisites(normalized);
 
   return normalized.map((stage, index) => {
     // 既にbaseHoursが存在する場合はそれを使用、なければentriesから計算
@@ -371,18 +379,21 @@ const normalizeStageWorkloads = (items: unknown, granularities: Granularity[], m
       label: stage.label,
       color: normalizeStageColorValue(stage.color, index, totalStages),
       baseHours,
+      ...(prerequisites[index] ? { prerequisites: prerequisites[index] } : {}),
     };
   });
 };
 
 const alignStageEntries = (stages: StageWorkload[]): StageWorkload[] => {
   const totalStages = stages.length;
+  const prerequisites = resequenceStagePrerequisites(stages);
 
   return stages.map((stage, index) => ({
     id: index + 1,
     label: stage.label,
     color: normalizeStageColorValue(stage.color, index, totalStages),
     baseHours: stage.baseHours, // baseHoursはそのまま保持
+    ...(prerequisites[index] ? { prerequisites: prerequisites[index] } : {}),
   }));
 };
 
@@ -421,7 +432,7 @@ export const useSettingsStore = defineStore("settings", {
       this.loadError = null;
 
       try {
-        const document = await getDocument<WorkHoursDocument>(buildDocumentPath(userId));
+        const document = await useOutboxStore().getDocumentWithPending<WorkHoursDocument>(buildDocumentPath(userId));
         this.workHours = document?.workHours ?? [];
         this.workHoursLoaded = true;
       } catch (error) {
@@ -440,7 +451,7 @@ export const useSettingsStore = defineStore("settings", {
       this.saveError = null;
 
       try {
-        await setDocument(buildDocumentPath(userId), { workHours: hours }, { merge: true });
+        await useOutboxStore().write({ userId, scope: "settings", targetId: "workHours", operation: "set", path: buildDocumentPath(userId), data: { workHours: hours }, options: { merge: true } });
         this.workHours = hours;
         this.workHoursLoaded = true;
       } catch (error) {
@@ -462,7 +473,7 @@ export const useSettingsStore = defineStore("settings", {
       this.granularitiesLoadError = null;
 
       try {
-        const document = await getDocument<GranularitiesDocument>(buildGranularityPath(userId));
+        const document = await useOutboxStore().getDocumentWithPending<GranularitiesDocument>(buildGranularityPath(userId));
         const { items, migrationMap } = normalizeGranularities(document?.granularities);
 
         if (items.length > 0) {
@@ -507,7 +518,7 @@ export const useSettingsStore = defineStore("settings", {
           } satisfies Granularity;
         });
 
-        await setDocument(buildGranularityPath(userId), { granularities: normalizedItems });
+        await useOutboxStore().write({ userId, scope: "settings", targetId: "granularities", operation: "set", path: buildGranularityPath(userId), data: { granularities: normalizedItems } });
         this.granularities = normalizedItems;
         this.granularitiesLoaded = true;
         this.granularityIdMigrationMap = {};
@@ -535,7 +546,7 @@ export const useSettingsStore = defineStore("settings", {
           await this.fetchGranularities(userId);
         }
 
-        const document = await getDocument<StageWorkloadDocument>(buildStageWorkloadPath(userId));
+        const document = await useOutboxStore().getDocumentWithPending<StageWorkloadDocument>(buildStageWorkloadPath(userId));
         const normalized = normalizeStageWorkloads(document?.stages, this.granularities, this.granularityIdMigrationMap);
 
         if (normalized.length > 0) {
@@ -565,7 +576,7 @@ export const useSettingsStore = defineStore("settings", {
       try {
         const sequencedStages = alignStageEntries(stages);
 
-        await setDocument(buildStageWorkloadPath(userId), { stages: sequencedStages });
+        await useOutboxStore().write({ userId, scope: "settings", targetId: "stageWorkloads", operation: "set", path: buildStageWorkloadPath(userId), data: { stages: sequencedStages } });
         this.stageWorkloads = sequencedStages;
         this.stageWorkloadsLoaded = true;
       } catch (error) {
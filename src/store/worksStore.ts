@@ -1,15 +1,18 @@
 import { defineStore } from "pinia";
-import { deleteDocument, getCollectionDocs, getDocument, setDocument } from "@/services/firebase/firestoreService";
-import { generateId } from "@/utils/id";
+import { getCollectionDocs, getCollectionGroupDocsContaining, getDocument, subscribeCollection, type CollectionChange } from "@/services/firebase/firestoreService";
+import { generateId, generateToken } from "@/utils/id";
 import type { Granularity, StageWorkload } from "@/store/settingsStore";
 import { useSettingsStore } from "@/store/settingsStore";
+import { useOutboxStore, type OutboxWriteRequest } from "@/store/outboxStore";
 import { formatLocalDate } from "@/utils/dateUtils";
-import type { WorkProgressHistory, UnitStageCountEntry } from "@/types/models";
+import type { WorkProgressHistory, UnitStageCountEntry, StageTransitionEvent } from "@/types/models";
 
 // 型定義をインポート
 export type {
   Work,
   WorkUnit,
+  UnitStageAssignee,
+  WorkMemberRole,
   WorkGranularity,
   WorkStageWorkload,
   WorkStageWorkloadEntry,
@@ -19,11 +22,17 @@ export type {
   CreateWorkPayload,
   RemoveWorkPayload,
   SaveWorkPayload,
+  ResolveWorkConflictPayload,
+  WorkConflictResolution,
+  WorkSyncStatus,
+  WorkEditSnapshot,
+  WorkEditHistory,
 } from "@/types/work";
-export { WORK_STATUSES } from "@/types/work";
+export { WORK_MEMBER_ROLE_LABELS, WORK_MEMBER_ROLES, WORK_PRIORITIES, WORK_STATUSES } from "@/types/work";
 import type {
   Work,
   WorkUnit,
+  WorkMemberRole,
   WorkGranularity,
   WorkStageWorkload,
   WorkStatus,
@@ -32,8 +41,82 @@ import type {
   CreateWorkPayload,
   RemoveWorkPayload,
   SaveWorkPayload,
+  ResolveWorkConflictPayload,
+  WorkSyncStatus,
+  WorkEditSnapshot,
+  WorkVersion,
 } from "@/types/work";
 
+// 作品ごとの保存処理の直列化用
+const pendingSaveChains = new Map<string, Promise<unknown>>();
+
+// リアルタイム同期の購読解除関数と設定の保存キー
+let liveSyncUnsubscribe: (() => void) | null = null;
+const LIVE_SYNC_PREFERENCE_KEY = "mangaflow_live_sync";
+
+// 元に戻せる操作の上限
+const MAX_UNDO_STEPS = 50;
+
+/** 作品の保存済みの版 */
+const toWorkVersion = (work: Pick<Work, "revision" | "updatedAt">): WorkVersion => ({ revision: work.revision ?? 0, updatedAt: work.updatedAt });
+
+/** 作品固有の単位・工程設定を持っているか */
+const hasWorkStageSettings = (work: Work): boolean =>
+  (work.workGranularities?.length ?? 0) > 0 && (work.workStageWorkloads?.length ?? 0) > 0;
+
+/** 元に戻す／やり直し用に作品の構造と進捗履歴を複製 */
+const createEditSnapshot = (work: Work, label: string): WorkEditSnapshot =>
+  JSON.parse(
+    JSON.stringify({
+      label,
+      units: work.units,
+      totalUnits: work.totalUnits,
+      totalEstimatedHours: work.totalEstimatedHours,
+      progressHistory: work.progressHistory ?? [],
+      stageTransitions: work.stageTransitions ?? [],
+    }),
+  ) as WorkEditSnapshot;
+
+/** 変更前の最下位ユニットの工程（工程変更イベントの記録用） */
+interface UnitStageState {
+  stageIndex: number;
+  completed: Set<number>;
+}
+
+const captureUnitStage = (unit: WorkUnit, stages: WorkStageWorkload[]): UnitStageState => ({
+  stageIndex: unit.stageIndex ?? 0,
+  completed: getCompletedStageIds(unit, stages),
+});
+
+/**
+ * 最下位ユニットの工程変更をイベントとして記録
+ * 直列の作品は stageIndex の変更を、分岐する作品は完了を切り替えた工程ごとに記録する
+ * （並行する工程を終えても stageIndex は変わらないことがあるため）
+ */
+const appendStageTransition = (work: Work, unit: WorkUnit, stages: WorkStageWorkload[], previous: UnitStageState, timestamp = Date.now()) => {
+  const toStage = unit.stageIndex ?? 0;
+  let added: StageTransitionEvent[];
+  if (stages.length === 0 || isLinearStageFlow(stages)) {
+    added = previous.stageIndex === toStage ? [] : [{ unitId: unit.id, fromStage: previous.stageIndex, toStage, timestamp }];
+  } else {
+    const completed = getCompletedStageIds(unit, stages);
+    added = stages
+      .map(resolveStageId)
+      .filter((stageId) => completed.has(stageId) !== previous.completed.has(stageId))
+      .map((stageId) => ({ unitId: unit.id, fromStage: previous.stageIndex, toStage, timestamp, stageId, completed: completed.has(stageId) }));
+  }
+
+  if (added.length === 0) {
+    return;
+  }
+  const events = [...(work.stageTransitions ?? []), ...added];
+  // 1作品あたりの上限を超えた分は古いものから削除する（ドキュメントサイズ対策）
+  work.stageTransitions = events.length > MAX_STAGE_TRANSITIONS ? events.slice(-MAX_STAGE_TRANSITIONS) : events;
+};
+
+/** リアルタイム同期を有効にしているか（端末ごとの設定） */
+export const isLiveSyncPreferred = () => typeof localStorage !== "undefined" && localStorage.getItem(LIVE_SYNC_PREFERENCE_KEY) === "true";
+
 const clampStageIndex = (value: number | undefined, stageCount: number): number => {
   const numeric = Number(value);
   if (!Number.isFinite(numeric)) {
@@ -51,6 +134,9 @@ import {
   mapError,
   buildWorkCollectionPath,
   buildWorkDocumentPath,
+  parseWorkOwnerId,
+  resolveWorkOwnerId,
+  getWorkMemberRole,
   normalizePositiveInteger,
   recalculateUnitIndices,
   findUnitInHierarchy,
@@ -58,10 +144,17 @@ import {
   getActualWorkDepth,
   getUnitDepthInHierarchy,
   buildStageWorkloadMetrics,
+  calculateUnitCompletedHours,
+  hasWorkVersionChanged,
+  WorkConflictError,
 } from "@/utils/workStoreHelpers";
+import { countDivergedLeafUnits, mergeWorkVersions } from "@/utils/workMerge";
+import { completeNextStage, deriveStageIndex, getCompletedStageIds, isLinearStageFlow, resolveStageId, toggleStageCompletion } from "@/utils/stageGraph";
+import { assertValidWorkDocument, MAX_STAGE_TRANSITIONS } from "@/utils/workSchema";
 
 // シリアライゼーション関数をインポート
 import { mapDocumentToWork, serializeWork } from "@/utils/workSerializer";
+import { buildPublicProgressShare, buildPublicShareDocumentPath } from "@/utils/publicShare";
 
 export const useWorksStore = defineStore("works", {
   state: (): WorksState => ({
@@ -72,12 +165,57 @@ export const useWorksStore = defineStore("works", {
     savingWorkMap: {},
     saveErrorMap: {},
     dirtyWorkMap: {},
+    conflictMap: {},
+    liveSyncActive: false,
+    liveSyncError: null,
+    sharedWorksError: null,
+    editHistoryMap: {},
+    savedVersionMap: {},
   }),
   getters: {
     getWorkById: (state) => (id: string) => state.works.find((work) => work.id === id),
+    /** ログイン中のユーザーの作品に対する権限（自分の作品は owner） */
+    getWorkRole: (state) => (id: string, userId: string | null) => {
+      const work = state.works.find((item) => item.id === id);
+      return work ? getWorkMemberRole(work, userId) : null;
+    },
     isWorkDirty: (state) => (id: string) => !!state.dirtyWorkMap[id],
     isSavingWork: (state) => (id: string) => !!state.savingWorkMap[id],
     getSaveError: (state) => (id: string) => state.saveErrorMap[id] ?? null,
+    getConflict: (state) => (id: string) => state.conflictMap[id] ?? null,
+    /** 作品で使用する工程設定（作品固有の設定がなければ全体設定） */
+    getWorkStageWorkloads: (state) => (id: string): WorkStageWorkload[] => {
+      const work = state.works.find((item) => item.id === id);
+      return work?.workStageWorkloads && work.workStageWorkloads.length > 0 ? work.workStageWorkloads : useSettingsStore().stageWorkloads;
+    },
+    canUndoWorkEdit: (state) => (id: string) => (state.editHistoryMap[id]?.undo.length ?? 0) > 0,
+    canRedoWorkEdit: (state) => (id: string) => (state.editHistoryMap[id]?.redo.length ?? 0) > 0,
+    /** アウトボックスに送信待ちの保存があるか */
+    isWorkQueued: () => (id: string) => useOutboxStore().getTargetStatus("work", id) === "queued",
+    /** 保存中、またはアウトボックスから再送中か */
+    isWorkSyncing: (state) => (id: string) => !!state.savingWorkMap[id] || useOutboxStore().getTargetStatus("work", id) === "syncing",
+    /** アウトボックスからの再送に失敗したか */
+    isWorkSyncFailed: () => (id: string) => useOutboxStore().getTargetStatus("work", id) === "failed",
+    /**
+     * 作品の同期状態
+     * dirty: 未保存の変更あり / queued: 送信待ち / syncing: 送信中 / failed: 再送失敗 / synced: 同期済み
+     */
+    getWorkSyncStatus: (state) => (id: string): WorkSyncStatus => {
+      const outboxStatus = useOutboxStore().getTargetStatus("work", id);
+      if (outboxStatus === "failed") {
+        return "failed";
+      }
+      if (state.savingWorkMap[id] || outboxStatus === "syncing") {
+        return "syncing";
+      }
+      if (outboxStatus === "queued") {
+        return "queued";
+      }
+      if (state.dirtyWorkMap[id]) {
+        return "dirty";
+      }
+      return "synced";
+    },
   },
   actions: {
     markWorkDirty(workId: string) {
@@ -113,6 +251,14 @@ export const useWorksStore = defineStore("works", {
     },
     setWorks(works: Work[]) {
       this.works = works;
+      this.savedVersionMap = Object.fromEntries(works.map((work) => [work.id, toWorkVersion(work)]));
+    },
+    /**
+     * 保存済みの版を記録（保存時はこの版と比較して競合を検出する）
+     * 編集操作は updatedAt を更新するため、作品の値ではなく読み込み・保存した時点の版を基準にする
+     */
+    recordSavedVersion(workId: string, version: WorkVersion) {
+      this.savedVersionMap = { ...this.savedVersionMap, [workId]: version };
     },
     async fetchWorks(userId: string) {
       if (!userId) {
@@ -124,12 +270,31 @@ export const useWorksStore = defineStore("works", {
 
       try {
         const documents = await getCollectionDocs<WorkDocument>(buildWorkCollectionPath(userId));
-        const normalized = documents.map((doc) => mapDocumentToWork(doc));
-        this.setWorks(normalized);
+        const outboxStore = useOutboxStore();
+        outboxStore.restore();
+
+        // 送信待ちの保存がある作品はローカルの内容を優先する
+        const documentMap = new Map(documents.map((doc) => [doc.id, doc]));
+        const pendingWorkIds = new Set(outboxStore.entries.filter((entry) => entry.userId === userId && entry.scope === "work").map((entry) => entry.targetId));
+        pendingWorkIds.forEach((pendingWorkId) => {
+          const pending = outboxStore.getPendingDocument(buildWorkDocumentPath(userId, pendingWorkId));
+          if (pending === "deleted") {
+            documentMap.delete(pendingWorkId);
+          } else if (pending) {
+            documentMap.set(pendingWorkId, { ...(pending as WorkDocument), id: pendingWorkId });
+          }
+        });
+
+        const normalized = [...documentMap.values()].map((doc) => mapDocumentToWork(doc));
+        const sharedWorks = await this.loadSharedWorks(userId);
+        this.setWorks([...normalized, ...sharedWorks.filter((work) => !documentMap.has(work.id))]);
         this.worksLoaded = true;
         this.dirtyWorkMap = {};
         this.saveErrorMap = {};
         this.savingWorkMap = {};
+        this.conflictMap = {};
+        this.editHistoryMap = {};
+        this.applyOutboxConflicts();
       } catch (error) {
         this.loadError = mapError(error, "作品の読み込みに失敗しました。");
         throw error;
@@ -137,22 +302,53 @@ export const useWorksStore = defineStore("works", {
         this.loadingWorks = false;
       }
     },
+    /**
+     * 他のアカウントから共有された作品を読み込む（Firestore 使用時のみ）
+     * 読み込みに失敗しても自分の作品の読み込みは続ける
+     */
+    async loadSharedWorks(userId: string): Promise<Work[]> {
+      this.sharedWorksError = null;
+
+      try {
+        const documents = await getCollectionGroupDocsContaining<WorkDocument>("works", "memberIds", userId);
+        const outboxStore = useOutboxStore();
+
+        return (documents ?? []).flatMap((doc) => {
+          const ownerId = parseWorkOwnerId(doc.path);
+          if (!ownerId || ownerId === userId) {
+            return [];
+          }
+          // 送信待ちの保存がある作品はローカルの内容を優先する
+          const pending = outboxStore.getPendingDocument(doc.path);
+          if (pending === "deleted") {
+            return [];
+          }
+          const data = (pending as WorkDocument | null) ?? doc.data;
+          return [{ ...mapDocumentToWork({ ...data, id: doc.id }), ownerId }];
+        });
+      } catch (error) {
+        console.error("共有された作品の読み込みに失敗しました:", error);
+        this.sharedWorksError = mapError(error, "共有された作品の読み込みに失敗しました。");
+        return [];
+      }
+    },
     async fetchWorkById(userId: string, workId: string) {
       if (!userId || !workId) {
         return;
       }
 
-      // 未保存の変更がある場合は再読み込みをスキップ
-      if (this.dirtyWorkMap[workId]) {
+      // 未保存の変更や送信待ちの保存がある場合は再読み込みをスキップ
+      if (this.dirtyWorkMap[workId] || useOutboxStore().getEntriesForTarget("work", workId).length > 0) {
         return;
       }
 
       try {
         this.loadingWorks = true;
-        const document = await getDocument<WorkDocument>(buildWorkDocumentPath(userId, workId));
+        const ownerId = this.getWorkById(workId)?.ownerId;
+        const document = await getDocument<WorkDocument>(buildWorkDocumentPath(ownerId ?? userId, workId));
 
         if (document) {
-          const normalizedWork = mapDocumentToWork({ ...document, id: workId });
+          const normalizedWork = { ...mapDocumentToWork({ ...document, id: workId }), ...(ownerId ? { ownerId } : {}) };
 
           // 既存の作品データを更新
           const index = this.works.findIndex((work) => work.id === workId);
@@ -161,9 +357,16 @@ export const useWorksStore = defineStore("works", {
           } else {
             this.works.push(normalizedWork);
           }
+          this.recordSavedVersion(workId, toWorkVersion(normalizedWork));
 
-          // dirty状態をクリア
+          // dirty状態・競合情報・編集履歴をクリア
           this.clearWorkDirty(workId);
+          this.clearEditHistory(workId);
+          if (this.conflictMap[workId]) {
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
+            const { [workId]: _, ...rest } = this.conflictMap;
+            this.conflictMap = rest;
+          }
         }
       } catch (error) {
         console.error("Failed to fetch work:", error);
@@ -172,6 +375,174 @@ export const useWorksStore = defineStore("works", {
         this.loadingWorks = false;
       }
     },
+    /** リアルタイム同期を開始（他端末での更新を works に反映する） */
+    startLiveSync(userId: string) {
+      if (!userId) {
+        return;
+      }
+
+      this.stopLiveSync();
+      this.liveSyncError = null;
+
+      const unsubscribe = subscribeCollection<WorkDocument>(
+        buildWorkCollectionPath(userId),
+        (changes) => this.applyRemoteWorkChanges(changes),
+        (error) => {
+          console.error("作品のリアルタイム同期に失敗しました:", error);
+          this.liveSyncError = mapError(error, "リアルタイム同期に失敗しました。");
+          this.stopLiveSync();
+        },
+      );
+
+      if (!unsubscribe) {
+        this.liveSyncError = "現在の保存先ではリアルタイム同期を利用できません。";
+        return;
+      }
+
+      liveSyncUnsubscribe = unsubscribe;
+      this.liveSyncActive = true;
+    },
+    stopLiveSync() {
+      if (liveSyncUnsubscribe) {
+        liveSyncUnsubscribe();
+        liveSyncUnsubscribe = null;
+      }
+      this.liveSyncActive = false;
+    },
+    /** リアルタイム同期の有効・無効を切り替えて端末に記憶する */
+    setLiveSyncPreference(userId: string | null, enabled: boolean) {
+      if (typeof localStorage !== "undefined") {
+        localStorage.setItem(LIVE_SYNC_PREFERENCE_KEY, String(enabled));
+      }
+
+      if (enabled && userId) {
+        this.startLiveSync(userId);
+      } else {
+        this.stopLiveSync();
+        this.liveSyncError = null;
+      }
+    },
+    /**
+     * 購読で受け取った変更を works に反映
+     * 未保存の変更・保存中・送信待ち・競合中の作品はローカルの内容を優先して上書きしない
+     */
+    applyRemoteWorkChanges(changes: CollectionChange<WorkDocument>[]) {
+      const outboxStore = useOutboxStore();
+
+      changes.forEach((change) => {
+        // 自分の書き込みの反映待ちは無視
+        if (change.hasPendingWrites) {
+          return;
+        }
+
+        const isProtected =
+          !!this.dirtyWorkMap[change.id] || !!this.savingWorkMap[change.id] || !!this.conflictMap[change.id] || outboxStore.getEntriesForTarget("work", change.id).length > 0;
+        if (isProtected) {
+          return;
+        }
+
+        const index = this.works.findIndex((work) => work.id === change.id);
+
+        if (change.type === "removed") {
+          if (index !== -1) {
+            this.works.splice(index, 1);
+          }
+          return;
+        }
+
+        const remoteWork = mapDocumentToWork({ ...change.data, id: change.id });
+        if (index === -1) {
+          this.works.push(remoteWork);
+          this.recordSavedVersion(change.id, toWorkVersion(remoteWork));
+          return;
+        }
+
+        const current = this.works[index]!;
+        if (!hasWorkVersionChanged(remoteWork, current)) {
+          return;
+        }
+        this.works[index] = remoteWork;
+        this.recordSavedVersion(change.id, toWorkVersion(remoteWork));
+        this.clearEditHistory(change.id);
+      });
+    },
+    /** 変更前の状態を元に戻す履歴に積む（新しい操作をしたらやり直し履歴は破棄） */
+    pushUndoSnapshot(workId: string, label: string) {
+      const target = this.works.find((work) => work.id === workId);
+      if (!target) {
+        return;
+      }
+
+      const history = this.editHistoryMap[workId] ?? { undo: [], redo: [] };
+      this.editHistoryMap = {
+        ...this.editHistoryMap,
+        [workId]: {
+          undo: [...history.undo, createEditSnapshot(target, label)].slice(-MAX_UNDO_STEPS),
+          redo: [],
+        },
+      };
+    },
+    clearEditHistory(workId: string) {
+      if (!this.editHistoryMap[workId]) {
+        return;
+      }
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { [workId]: _, ...rest } = this.editHistoryMap;
+      this.editHistoryMap = rest;
+    },
+    restoreEditSnapshot(target: Work, snapshot: WorkEditSnapshot) {
+      target.units = snapshot.units;
+      target.totalUnits = snapshot.totalUnits;
+      target.totalEstimatedHours = snapshot.totalEstimatedHours;
+      target.progressHistory = snapshot.progressHistory;
+      target.stageTransitions = snapshot.stageTransitions;
+      target.updatedAt = new Date().toISOString();
+      this.markWorkDirty(target.id);
+    },
+    /**
+     * 直前の操作を元に戻す（進捗履歴も操作前の状態に戻す）
+     * @returns 元に戻した操作の名前（履歴がない場合は null）
+     */
+    undoWorkEdit(workId: string): string | null {
+      const target = this.works.find((work) => work.id === workId);
+      const history = this.editHistoryMap[workId];
+      const snapshot = history?.undo[history.undo.length - 1];
+      if (!target || !snapshot) {
+        return null;
+      }
+
+      this.editHistoryMap = {
+        ...this.editHistoryMap,
+        [workId]: {
+          undo: history.undo.slice(0, -1),
+          redo: [...history.redo, createEditSnapshot(target, snapshot.label)],
+        },
+      };
+      this.restoreEditSnapshot(target, snapshot);
+      return snapshot.label;
+    },
+    /**
+     * 元に戻した操作をやり直す
+     * @returns やり直した操作の名前（履歴がない場合は null）
+     */
+    redoWorkEdit(workId: string): string | null {
+      const target = this.works.find((work) => work.id === workId);
+      const history = this.editHistoryMap[workId];
+      const snapshot = history?.redo[history.redo.length - 1];
+      if (!target || !snapshot) {
+        return null;
+      }
+
+      this.editHistoryMap = {
+        ...this.editHistoryMap,
+        [workId]: {
+          undo: [...history.undo, createEditSnapshot(target, snapshot.label)],
+          redo: history.redo.slice(0, -1),
+        },
+      };
+      this.restoreEditSnapshot(target, snapshot);
+      return snapshot.label;
+    },
     discardWorkChanges(workId: string) {
       // dirty状態をクリア
       this.clearWorkDirty(workId);
@@ -316,7 +687,7 @@ export const useWorksStore = defineStore("works", {
       this.setSaveError(work.id, null);
       return work;
     },
-    updateWork(id: string, patch: Partial<Pick<Work, "title" | "status" | "startDate" | "deadline" | "unitEstimatedHours" | "workGranularities" | "workStageWorkloads">>) {
+    updateWork(id: string, patch: Partial<Pick<Work, "title" | "status" | "startDate" | "deadline" | "priority" | "unitEstimatedHours" | "workGranularities" | "workStageWorkloads">>) {
       const target = this.works.find((work) => work.id === id);
       if (!target) {
         return;
@@ -336,6 +707,9 @@ export const useWorksStore = defineStore("works", {
       if (patch.deadline !== undefined) {
         target.deadline = patch.deadline;
       }
+      if (patch.priority !== undefined) {
+        target.priority = patch.priority;
+      }
 
       if (patch.unitEstimatedHours !== undefined) {
         target.unitEstimatedHours = Math.max(0, patch.unitEstimatedHours);
@@ -357,6 +731,29 @@ export const useWorksStore = defineStore("works", {
 
       if (patch.workStageWorkloads !== undefined) {
         target.workStageWorkloads = patch.workStageWorkloads;
+
+        // 工程を減らした場合は、範囲外になったユニットを最後の工程に合わせる
+        const lastStageIndex = patch.workStageWorkloads.length - 1;
+        if (lastStageIndex >= 0) {
+          getAllLeafUnits(target.units).forEach((unit) => {
+            if ((unit.stageIndex ?? 0) > lastStageIndex) {
+              unit.stageIndex = lastStageIndex;
+            }
+          });
+        }
+
+        // 前提工程の変更に合わせて、工程ごとの完了記録を整える（直列に戻した場合は stageIndex だけで管理する）
+        const stages = patch.workStageWorkloads;
+        const isLinear = isLinearStageFlow(stages);
+        getAllLeafUnits(target.units).forEach((unit) => {
+          if (isLinear) {
+            delete unit.completedStageIds;
+            return;
+          }
+          const completed = getCompletedStageIds(unit, stages);
+          unit.completedStageIds = stages.map(resolveStageId).filter((stageId) => completed.has(stageId));
+          unit.stageIndex = deriveStageIndex(completed, stages);
+        });
       }
 
       if (shouldRecalculateTotals) {
@@ -408,7 +805,18 @@ export const useWorksStore = defineStore("works", {
         return;
       }
 
-      unit.stageIndex = (unit.stageIndex + 1) % stageCount;
+      this.pushUndoSnapshot(workId, "工程を進める");
+      const stages = this.getWorkStageWorkloads(workId);
+      const previous = captureUnitStage(unit, stages);
+      if (stages.length > 0 && !isLinearStageFlow(stages)) {
+        // 前提工程で分岐する場合は、着手できる工程のうち最初のものを完了にする
+        const completed = completeNextStage(getCompletedStageIds(unit, stages), stages);
+        unit.completedStageIds = stages.map(resolveStageId).filter((stageId) => completed.has(stageId));
+        unit.stageIndex = deriveStageIndex(completed, stages);
+      } else {
+        unit.stageIndex = (unit.stageIndex + 1) % stageCount;
+      }
+      appendStageTransition(target, unit, stages, previous);
       target.updatedAt = new Date().toISOString();
       this.markWorkDirty(target.id);
 
@@ -426,13 +834,112 @@ export const useWorksStore = defineStore("works", {
         return;
       }
 
+      this.pushUndoSnapshot(workId, "工程を変更");
+      const stages = this.getWorkStageWorkloads(workId);
+      const previous = captureUnitStage(unit, stages);
       unit.stageIndex = Math.max(0, newStage);
+      // 工程を直接指定した場合は、その工程までを順に完了したものとして扱う
+      delete unit.completedStageIds;
+      appendStageTransition(target, unit, stages, previous);
       target.updatedAt = new Date().toISOString();
       this.markWorkDirty(target.id);
 
       // 進捗履歴を記録
       this.recordProgressHistory(workId);
     },
+    /**
+     * 最下位ユニットの工程ごとの完了を切り替える（前提工程で分岐する作品用）
+     * 前提工程が終わっていない工程は完了にできない。完了を取り消すと、その工程を前提とする工程も未完了に戻す
+     */
+    toggleUnitStageCompletion(workId: string, unitId: string, stageId: number): boolean {
+      const target = this.works.find((work) => work.id === workId);
+      if (!target) {
+        return false;
+      }
+
+      const unit = findUnitInHierarchy(target.units, unitId);
+      if (!unit || unit.stageIndex === undefined) {
+        return false;
+      }
+
+      const stages = this.getWorkStageWorkloads(workId);
+      const completed = toggleStageCompletion(getCompletedStageIds(unit, stages), stageId, stages);
+      if (!completed) {
+        return false;
+      }
+
+      this.pushUndoSnapshot(workId, "工程の完了を切り替え");
+      const previous = captureUnitStage(unit, stages);
+      unit.completedStageIds = stages.map(resolveStageId).filter((id) => completed.has(id));
+      unit.stageIndex = deriveStageIndex(completed, stages);
+      appendStageTransition(target, unit, stages, previous);
+      target.updatedAt = new Date().toISOString();
+      this.markWorkDirty(target.id);
+
+      // 進捗履歴を記録
+      this.recordProgressHistory(workId);
+      return true;
+    },
+
+    /**
+     * ユニットの担当者を設定（中間ユニットの場合は配下の最下位ユニットすべて）
+     * stageId を指定した場合はその工程だけの担当者を設定する。collaboratorId が null の場合は本人の作業に戻す
+     */
+    assignUnit(workId: string, unitId: string, collaboratorId: string | null, stageId?: number): boolean {
+      const target = this.works.find((work) => work.id === workId);
+      if (!target) {
+        return false;
+      }
+
+      const unit = findUnitInHierarchy(target.units, unitId);
+      if (!unit) {
+        return false;
+      }
+
+      this.pushUndoSnapshot(workId, "担当者を変更");
+      getAllLeafUnits([unit]).forEach((leaf) => {
+        if (stageId === undefined) {
+          // ユニット全体の担当者を変更した場合は工程ごとの指定も解除する
+          delete leaf.stageAssignees;
+          if (collaboratorId) {
+            leaf.assigneeId = collaboratorId;
+          } else {
+            delete leaf.assigneeId;
+          }
+          return;
+        }
+
+        const others = (leaf.stageAssignees ?? []).filter((entry) => entry.stageId !== stageId);
+        const next = collaboratorId ? [...others, { stageId, collaboratorId }].sort((a, b) => a.stageId - b.stageId) : others;
+        if (next.length > 0) {
+          leaf.stageAssignees = next;
+        } else {
+          delete leaf.stageAssignees;
+        }
+      });
+      target.updatedAt = new Date().toISOString();
+      this.markWorkDirty(target.id);
+      return true;
+    },
+
+    /**
+     * 作品の共有先の権限を設定（role が null の場合は共有を解除する）
+     * 保存すると、解除したアカウントからは作品を読み書きできなくなる
+     */
+    setWorkMemberRole(workId: string, memberId: string, role: WorkMemberRole | null): boolean {
+      const target = this.works.find((work) => work.id === workId);
+      const trimmedId = memberId.trim();
+      if (!target || !trimmedId || trimmedId === target.ownerId) {
+        return false;
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { [trimmedId]: _, ...rest } = target.members ?? {};
+      target.members = role ? { ...rest, [trimmedId]: role } : rest;
+      target.updatedAt = new Date().toISOString();
+      this.markWorkDirty(target.id);
+      return true;
+    },
 
     // 最下位ユニットの作業段階を一括更新
     applyStageIndicesToLeafUnits(workId: string, stageIndices: number[]) {
@@ -450,8 +957,13 @@ export const useWorksStore = defineStore("works", {
       }
 
       // 各最下位ユニットに作業段階を適用
+      const timestamp = Date.now();
+      const stages = this.getWorkStageWorkloads(workId);
       leafUnits.forEach((unit, index) => {
+        const previous = captureUnitStage(unit, stages);
         unit.stageIndex = Math.max(0, stageIndices[index] || 0);
+        delete unit.completedStageIds;
+        appendStageTransition(target, unit, stages, previous, timestamp);
       });
 
       target.updatedAt = new Date().toISOString();
@@ -510,6 +1022,7 @@ export const useWorksStore = defineStore("works", {
       }
 
       // 作品の構造を更新
+      this.pushUndoSnapshot(workId, "構造を上書き");
       target.units = newUnits;
       target.totalUnits = totalUnits;
       target.totalEstimatedHours = Number((totalLeafUnits * target.unitEstimatedHours).toFixed(2));
@@ -538,6 +1051,9 @@ export const useWorksStore = defineStore("works", {
 
       const normalizedCount = normalizePositiveInteger(childrenCount, unit.children.length);
       const currentCount = unit.children.length;
+      if (normalizedCount !== currentCount) {
+        this.pushUndoSnapshot(workId, "子ユニット数を変更");
+      }
 
       if (normalizedCount > currentCount) {
         // 子ユニットを追加
@@ -669,6 +1185,8 @@ export const useWorksStore = defineStore("works", {
         return;
       }
 
+      this.pushUndoSnapshot(workId, "ユニットを追加");
+
       // 親ユニットに子配列がない場合は作成
       if (!parentUnit.children) {
         parentUnit.children = [];
@@ -772,6 +1290,11 @@ export const useWorksStore = defineStore("works", {
         return;
       }
 
+      if (!findUnitInHierarchy(target.units, unitId)) {
+        return;
+      }
+      this.pushUndoSnapshot(workId, "ユニットを削除");
+
       // 再帰的にユニットを削除する関数
       const removeFromArray = (units: WorkUnit[], targetId: string): boolean => {
         const index = units.findIndex((unit) => unit.id === targetId);
@@ -800,31 +1323,192 @@ export const useWorksStore = defineStore("works", {
       }
     },
 
-    async saveWork(payload: SaveWorkPayload) {
+    /**
+     * 作品を保存
+     * @param additionalWrites 作品の保存と同じバッチで書き込む変更（以前の公開リンクの削除など）
+     */
+    async saveWork(payload: SaveWorkPayload, additionalWrites: OutboxWriteRequest[] = []) {
       if (!payload.userId) {
         throw new Error("ユーザー情報が取得できませんでした。");
       }
 
+      // 同じ作品の保存は順番に実行する（保存中の版と競合と誤判定しないため）
+      const previous = pendingSaveChains.get(payload.workId) ?? Promise.resolve();
+      const current = previous.catch(() => undefined).then(() => this.persistWork(payload, additionalWrites));
+      pendingSaveChains.set(payload.workId, current);
+
+      try {
+        return await current;
+      } finally {
+        if (pendingSaveChains.get(payload.workId) === current) {
+          pendingSaveChains.delete(payload.workId);
+        }
+      }
+    },
+    async persistWork(payload: SaveWorkPayload, additionalWrites: OutboxWriteRequest[] = []) {
       const target = this.works.find((work) => work.id === payload.workId);
       if (!target) {
         return;
       }
 
+      const outboxStore = useOutboxStore();
+      const path = buildWorkDocumentPath(resolveWorkOwnerId(target, payload.userId), payload.workId);
+      // 新しく作成した作品は保存済みの版がないため、作品の値を基準にする
+      const base = this.savedVersionMap[payload.workId] ?? toWorkVersion(target);
+      const previous = { revision: target.revision, updatedAt: target.updatedAt };
+
       this.setSaving(payload.workId, true);
       this.setSaveError(payload.workId, null);
 
-      target.updatedAt = new Date().toISOString();
-
       try {
-        await setDocument(buildWorkDocumentPath(payload.userId, payload.workId), serializeWork(target));
+        // 壊れたデータを書き込まないよう、保存前に形式を検証する
+        assertValidWorkDocument(serializeWork(target));
+
+        // 保存済みの版が読み込み時点から変わっていないか確認（送信待ちがある場合は再送の直前に確認する）
+        if (outboxStore.getEntriesForTarget("work", payload.workId).length === 0) {
+          const stored = await getDocument<WorkDocument>(path).catch((error) => {
+            console.warn("競合確認のための読み込みに失敗しました:", error);
+            return null;
+          });
+
+          if (stored && hasWorkVersionChanged(stored, base)) {
+            const remote = mapDocumentToWork({ ...stored, id: payload.workId });
+            this.conflictMap = { ...this.conflictMap, [payload.workId]: target.ownerId ? { ...remote, ownerId: target.ownerId } : remote };
+            throw new WorkConflictError();
+          }
+        }
+
+        target.revision = base.revision + 1;
+        target.updatedAt = new Date().toISOString();
+
+        const writes: OutboxWriteRequest[] = [
+          { userId: payload.userId, scope: "work", targetId: payload.workId, operation: "set", path, data: serializeWork(target), baseVersion: base },
+        ];
+        // 公開リンクの進捗も合わせて更新する（共有先の編集者が保存した場合も、作成者の作品のスナップショットとして書き込む）
+        // 保存した人の全体設定で公開内容が変わらないよう、作品固有の工程設定がない作品はスナップショットを更新しない
+        if (target.publicShareToken && hasWorkStageSettings(target)) {
+          const stageMetrics = buildStageWorkloadMetrics(target, [], []);
+          const ownerId = resolveWorkOwnerId(target, payload.userId);
+          writes.push({
+            userId: payload.userId,
+            scope: "publicShare",
+            targetId: payload.workId,
+            operation: "set",
+            path: buildPublicShareDocumentPath(target.publicShareToken),
+            data: { ...buildPublicProgressShare(target, ownerId, stageMetrics, this.calculateActualWorkHours(payload.workId)) },
+          });
+        }
+        writes.push(...additionalWrites);
+
+        // 通信できない場合はアウトボックスに登録され、接続回復後に再送される
+        const result = writes.length > 1 ? await outboxStore.writeBatch(writes) : await outboxStore.write(writes[0]!);
+        this.recordSavedVersion(payload.workId, toWorkVersion(target));
         this.clearWorkDirty(payload.workId);
+        return result;
       } catch (error) {
+        if (!(error instanceof WorkConflictError)) {
+          target.revision = previous.revision;
+          target.updatedAt = previous.updatedAt;
+        }
         this.setSaveError(payload.workId, mapError(error, "作品の保存に失敗しました。"));
         throw error;
       } finally {
         this.setSaving(payload.workId, false);
       }
     },
+    /**
+     * 送信待ちの保存のうち、再送前の確認で競合したものを conflictMap に反映
+     * オフライン中の編集は送信せずに残しているため、保存時の競合と同じ方法で解決できる
+     */
+    applyOutboxConflicts() {
+      useOutboxStore()
+        .entries.filter((entry) => entry.scope === "work" && entry.conflictDocument)
+        .forEach((entry) => {
+          const ownerId = this.getWorkById(entry.targetId)?.ownerId;
+          const remote = mapDocumentToWork({ ...(entry.conflictDocument as WorkDocument), id: entry.targetId });
+          this.conflictMap = { ...this.conflictMap, [entry.targetId]: ownerId ? { ...remote, ownerId } : remote };
+          this.setSaveError(entry.targetId, new WorkConflictError().message);
+        });
+    },
+    /**
+     * 保存時に検出した競合を解決して保存
+     * merge: 最下位ユニットごとに進んだ方のstageIndexを採用し、進捗履歴を日付で統合する
+     */
+    async resolveWorkConflict(payload: ResolveWorkConflictPayload) {
+      const local = this.works.find((work) => work.id === payload.workId);
+      const remote = this.conflictMap[payload.workId];
+      if (!local || !remote) {
+        return;
+      }
+
+      const index = this.works.indexOf(local);
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { [payload.workId]: _, ...rest } = this.conflictMap;
+      this.conflictMap = rest;
+      this.setSaveError(payload.workId, null);
+      // どの解決方法でも、確認した他端末の版を基準に保存する
+      this.recordSavedVersion(payload.workId, toWorkVersion(remote));
+
+      if (payload.resolution === "remote") {
+        // 送信せずに残していたオフライン中の保存も破棄する
+        useOutboxStore().discardConflicts("work", payload.workId);
+        this.works[index] = remote;
+        this.clearWorkDirty(payload.workId);
+        this.clearEditHistory(payload.workId);
+        return;
+      }
+
+      if (payload.resolution === "merge") {
+        const diverged = countDivergedLeafUnits(local, remote);
+        this.works[index] = mergeWorkVersions(local, remote);
+        if (diverged > 0) {
+          this.recordProgressHistory(payload.workId);
+        }
+      } else {
+        local.revision = remote.revision;
+        local.updatedAt = remote.updatedAt;
+        // 共有先・公開リンクはマージと同じく保存済みの内容を採用する
+        local.members = remote.members;
+        local.publicShareToken = remote.publicShareToken;
+      }
+
+      this.markWorkDirty(payload.workId);
+      await this.saveWork({ userId: payload.userId, workId: payload.workId });
+    },
+    /**
+     * 公開リンクを発行・再発行（enabled: true）または停止（enabled: false）して保存
+     * 以前のリンクは作品の保存と同じバッチで進捗のスナップショットを削除して閲覧できなくする
+     * （削除だけが失敗してリンクが残ったまま停止したように見えることがないようにする）
+     */
+    async updatePublicShare(payload: SaveWorkPayload & { enabled: boolean }) {
+      const target = this.works.find((work) => work.id === payload.workId);
+      if (!target || target.ownerId) {
+        return;
+      }
+
+      const previousToken = target.publicShareToken;
+      if (payload.enabled) {
+        // 公開スナップショットは作品固有の工程設定から作るため、共有開始時に全体設定をコピーしておく
+        const settingsStore = useSettingsStore();
+        await this.migrateWorkSettings({ workId: target.id, granularities: settingsStore.granularities, stageWorkloads: settingsStore.stageWorkloads });
+        target.publicShareToken = generateToken();
+      } else {
+        delete target.publicShareToken;
+      }
+      target.updatedAt = new Date().toISOString();
+      this.markWorkDirty(target.id);
+
+      const removePrevious: OutboxWriteRequest[] = previousToken
+        ? [{ userId: payload.userId, scope: "publicShare", targetId: payload.workId, operation: "delete", path: buildPublicShareDocumentPath(previousToken) }]
+        : [];
+
+      try {
+        await this.saveWork({ userId: payload.userId, workId: payload.workId }, removePrevious);
+      } catch (error) {
+        target.publicShareToken = previousToken;
+        throw error;
+      }
+    },
     async removeWork(payload: RemoveWorkPayload) {
       if (!payload.userId) {
         throw new Error("ユーザー情報が取得できませんでした。");
@@ -835,10 +1519,28 @@ export const useWorksStore = defineStore("works", {
         return;
       }
 
+      const target = this.works[index];
+      const writes: OutboxWriteRequest[] = [
+        {
+          userId: payload.userId,
+          scope: "work",
+          targetId: payload.workId,
+          operation: "delete",
+          path: buildWorkDocumentPath(resolveWorkOwnerId(target, payload.userId), payload.workId),
+        },
+      ];
+      // 公開リンクも合わせて停止する（共有された作品を owner の権限で削除する場合も含む）
+      if (target.publicShareToken) {
+        writes.push({ userId: payload.userId, scope: "publicShare", targetId: payload.workId, operation: "delete", path: buildPublicShareDocumentPath(target.publicShareToken) });
+      }
+
       try {
-        await deleteDocument(buildWorkDocumentPath(payload.userId, payload.workId));
+        await useOutboxStore().writeBatch(writes);
       } finally {
         this.works.splice(index, 1);
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { [payload.workId]: _, ...rest } = this.savedVersionMap;
+        this.savedVersionMap = rest;
         this.clearWorkDirty(payload.workId);
         this.setSaving(payload.workId, false);
         this.setSaveError(payload.workId, null);
@@ -873,6 +1575,7 @@ export const useWorksStore = defineStore("works", {
         label: s.label,
         color: s.color,
         baseHours: s.baseHours, // 既に計算済みのbaseHoursを使用
+        ...(s.prerequisites ? { prerequisites: [...s.prerequisites] } : {}),
       }));
 
       // 作品を直接更新
@@ -943,23 +1646,10 @@ export const useWorksStore = defineStore("works", {
       );
 
       if (stageMetrics) {
-        const stageCount = stageMetrics.stageWorkloadHours.length;
-        const totalWorkHoursPerUnit = stageMetrics.totalWorkHoursPerUnit;
-        const totalEstimatedHours = Number((totalWorkHoursPerUnit * totalUnits).toFixed(2));
+        const totalEstimatedHours = Number((stageMetrics.totalWorkHoursPerUnit * totalUnits).toFixed(2));
 
-        const completedWorkHours = leafUnits.reduce((sum, unit) => {
-          const stageIndex = Math.max(0, Math.min(unit.stageIndex ?? 0, stageCount));
-
-          if (stageIndex === 0) {
-            return sum;
-          }
-
-          if (stageIndex >= stageCount) {
-            return sum + totalWorkHoursPerUnit;
-          }
-
-          return sum + (stageMetrics.cumulativeWorkloads[stageIndex] || 0);
-        }, 0);
+        // 完了した工程の工数を合計（前提工程で分岐する作品では工程ごとの完了記録を使用）
+        const completedWorkHours = leafUnits.reduce((sum, unit) => sum + calculateUnitCompletedHours(unit, stageMetrics), 0);
 
         const completedEstimatedHours = Number(completedWorkHours.toFixed(2));
         const remainingEstimatedHours = Number((totalEstimatedHours - completedWorkHours).toFixed(2));
@@ -979,7 +1669,7 @@ export const useWorksStore = defineStore("works", {
       }
 
       // 従来の計算方法（工数データがない場合）
-      const stageCount = settingsStore.stageWorkloads.length;
+      const stageCount = this.getWorkStageWorkloads(workId).length;
 
       const completedUnits = stageCount > 0
         ? leafUnits.filter(unit => (unit.stageIndex ?? 0) >= stageCount - 1).length
@@ -1023,6 +1713,7 @@ export const useWorksStore = defineStore("works", {
       );
 
       let unitStageCounts: UnitStageCountEntry[] | undefined;
+      let completedStageCounts: UnitStageCountEntry[] | undefined;
 
       if (stageMetrics) {
         const stageCount = stageMetrics.stageWorkloadHours.length;
@@ -1055,6 +1746,14 @@ export const useWorksStore = defineStore("works", {
         }
 
         unitStageCounts = entries;
+
+        // 前提工程で分岐する作品は、工程ごとの完了ユニット数も記録（stageIndex だけでは並行する工程の進捗を表せないため）
+        if (!isLinearStageFlow(stageMetrics.stageWorkloads)) {
+          completedStageCounts = stageIdByIndex.map(stageId => ({
+            stageId,
+            count: leafUnits.filter(unit => getCompletedStageIds(unit, stageMetrics.stageWorkloads).has(stageId)).length,
+          }));
+        }
       }
 
       // 進捗履歴を初期化（存在しない場合）
@@ -1069,7 +1768,8 @@ export const useWorksStore = defineStore("works", {
         date: today,
         completedHours,
         timestamp: Date.now(),
-        ...(unitStageCounts ? { unitStageCounts } : {})
+        ...(unitStageCounts ? { unitStageCounts } : {}),
+        ...(completedStageCounts ? { completedStageCounts } : {})
       } as WorkProgressHistory;
 
       if (existingIndex >= 0) {
@@ -29,6 +29,26 @@ export interface UnitStageCountEntry {
 
 export type UnitStageCounts = UnitStageCountEntry[];
 
+/**
+ * 最下位ユニットの工程変更イベント
+ * 直列の作品は stageIndex が変わるたびに、前提工程で分岐する作品は工程の完了を切り替えるたびに（工程ごとに1件）記録し、
+ * 工程ごとのサイクルタイム集計・実績工数の推定に使用する
+ */
+export interface StageTransitionEvent {
+  /** 対象の最下位ユニットID */
+  unitId: string;
+  /** 変更前の工程インデックス */
+  fromStage: number;
+  /** 変更後の工程インデックス */
+  toStage: number;
+  /** 変更日時のタイムスタンプ */
+  timestamp: number;
+  /** 完了を切り替えた工程ID（分岐する作品のみ。並行する工程の完了は stageIndex が変わらなくても記録する） */
+  stageId?: number;
+  /** stageId の工程を完了にしたか（false は完了の取り消し） */
+  completed?: boolean;
+}
+
 /**
  * 作品の日別進捗履歴
  * 工数操作があった日付とその時点での完了工数を記録
@@ -40,7 +60,19 @@ export interface WorkProgressHistory {
   completedHours?: number;
   /** ステージごとの到達ユニット数（最低粒度単位） */
   unitStageCounts?: UnitStageCounts;
+  /** 工程ごとの完了ユニット数（前提工程で分岐する作品のみ記録） */
+  completedStageCounts?: UnitStageCounts;
   /** 記録日時のタイムスタンプ */
   timestamp: number;
 }
 
+
+/**
+ * 日付ごとの完了工数（進捗履歴から求めたグラフ・予測用の値）
+ */
+export interface CompletedHoursPoint {
+  /** 日付（YYYY-MM-DD形式） */
+  date: string;
+  /** その日の時点での完了工数（時間） */
+  completedHours: number;
+}
@@ -1,13 +1,34 @@
-import type { WorkProgressHistory } from "./models";
+import type { CompletedHoursPoint, StageTransitionEvent, WorkProgressHistory } from "./models";
 
 export const WORK_STATUSES = ["未着手", "作業中", "完了", "保留"] as const;
 export type WorkStatus = (typeof WORK_STATUSES)[number];
 
+/** 複数作品の作業計画での優先度（大きいほど先に作業時間を割り当てる） */
+export const WORK_PRIORITIES = [
+  { value: 1, label: "高" },
+  { value: 0, label: "通常" },
+  { value: -1, label: "低" },
+] as const;
+
+/** 共有先の権限（owner: 共有の管理・削除もできる / editor: 進捗や内容を編集できる / viewer: 閲覧のみ） */
+export const WORK_MEMBER_ROLES = ["owner", "editor", "viewer"] as const;
+export type WorkMemberRole = (typeof WORK_MEMBER_ROLES)[number];
+export const WORK_MEMBER_ROLE_LABELS: Record<WorkMemberRole, string> = { owner: "オーナー", editor: "編集者", viewer: "閲覧者" };
+
+/** 最下位ユニットの工程ごとの担当者（ユニットの担当者より優先） */
+export interface UnitStageAssignee {
+  stageId: number;
+  collaboratorId: string;
+}
+
 export interface WorkUnit {
   id: string;
   index: number;
   children?: WorkUnit[]; // 最下位以外は持つ
   stageIndex?: number; // 最下位のみ持つ
+  completedStageIds?: number[]; // 最下位のみ。前提工程で分岐する作品で完了した工程ID
+  assigneeId?: string; // 最下位のみ。担当するアシスタント（未設定は本人）
+  stageAssignees?: UnitStageAssignee[]; // 最下位のみ。工程ごとの担当者
 }
 
 // 作品固有の粒度設定
@@ -29,6 +50,7 @@ export interface WorkStageWorkload {
   label: string;
   color: string;
   baseHours: number | null; // 最低粒度での工数のみ保持
+  prerequisites?: number[]; // 前提工程ID（より前の工程のみ）。未設定は直前の工程
   entries?: WorkStageWorkloadEntry[]; // 後方互換性のため（古いデータ用）
 }
 
@@ -67,6 +89,7 @@ export interface Work {
   unitEstimatedHours: number;
   totalEstimatedHours: number; // レガシーフィールド: 新規計算では worksStore.calculateActualWorkHours() を使用すること
   units: WorkUnit[]; // 最上位粒度の配列
+  priority?: number; // 作業計画での優先度（未設定は0）
 
   // 作品固有の設定
   workGranularities?: WorkGranularity[]; // 作品作成時点の粒度設定
@@ -74,9 +97,40 @@ export interface Work {
 
   // 進捗履歴
   progressHistory?: WorkProgressHistory[]; // 日別の進捗履歴
+  stageTransitions?: StageTransitionEvent[]; // 最下位ユニットの工程変更イベント
+
+  // 保存ごとに加算される版数（複数端末での競合検出用）
+  revision?: number;
+
+  // 共有
+  members?: Record<string, WorkMemberRole>; // 共有先のユーザーID → 権限（作成者は含めない）
+  ownerId?: string; // 他のアカウントから共有された作品の作成者（保存しない。自分の作品は未設定）
+  publicShareToken?: string; // 公開リンクのトークン（publicShares/{token} に進捗を公開。未設定は非公開）
 }
 
-export type WorkDocument = Omit<Work, "id">;
+/** 作品ドキュメント（memberIds は共有された作品を検索するための members のキー一覧） */
+export type WorkDocument = Omit<Work, "id" | "ownerId"> & { memberIds?: string[] };
+
+/**
+ * 公開リンクで閲覧できる進捗のスナップショット（publicShares/{token}）
+ * ログインなしで読めるため、担当者や進捗履歴の詳細など作品の一部は含めない
+ */
+export interface PublicProgressShare {
+  ownerId: string;
+  workId: string;
+  title: string;
+  status: WorkStatus;
+  startDate: string;
+  deadline: string;
+  progressPercentage: number;
+  totalHours: number;
+  completedHours: number;
+  stages: WorkStageWorkload[];
+  stageWorkloadHours: number[];
+  units: WorkUnit[]; // 構造と工程のみ
+  history: CompletedHoursPoint[]; // 記録日ごとの完了工数
+  updatedAt: string;
+}
 
 export interface WorksState {
   works: Work[];
@@ -86,8 +140,38 @@ export interface WorksState {
   savingWorkMap: Record<string, boolean>;
   saveErrorMap: Record<string, string>;
   dirtyWorkMap: Record<string, boolean>;
+  conflictMap: Record<string, Work>; // 保存時に検出した他端末の版
+  liveSyncActive: boolean; // リアルタイム同期の購読中かどうか
+  liveSyncError: string | null;
+  sharedWorksError: string | null; // 共有された作品の読み込みエラー
+  editHistoryMap: Record<string, WorkEditHistory>; // 作品ごとの元に戻す／やり直し履歴
+  savedVersionMap: Record<string, WorkVersion>; // 読み込み・保存した時点の保存済みの版（競合検出の基準）
 }
 
+/** 保存済みの作品の版（版数を持たない旧データは 0 とし、更新日時で比較する） */
+export interface WorkVersion {
+  revision: number;
+  updatedAt: string;
+}
+
+/** 元に戻す／やり直し用の作品スナップショット（構造・進捗・進捗履歴） */
+export interface WorkEditSnapshot {
+  label: string;
+  units: WorkUnit[];
+  totalUnits: number;
+  totalEstimatedHours: number;
+  progressHistory: WorkProgressHistory[];
+  stageTransitions: StageTransitionEvent[];
+}
+
+export interface WorkEditHistory {
+  undo: WorkEditSnapshot[];
+  redo: WorkEditSnapshot[];
+}
+
+/** 競合の解決方法（merge: ユニット単位でマージ / local: この端末で上書き / remote: 保存済みの内容を採用） */
+export type WorkConflictResolution = "merge" | "local" | "remote";
+
 export interface CreateWorkPayload {
   title: string;
   status: WorkStatus;
@@ -112,3 +196,10 @@ export interface SaveWorkPayload {
   userId: string;
   workId: string;
 }
+
+export interface ResolveWorkConflictPayload extends SaveWorkPayload {
+  resolution: WorkConflictResolution;
+}
+
+/** 作品の同期状態（dirty: 未保存 / queued: 送信待ち / syncing: 送信中 / failed: 再送失敗 / synced: 同期済み） */
+export type WorkSyncStatus = "dirty" | "queued" | "syncing" | "failed" | "synced";
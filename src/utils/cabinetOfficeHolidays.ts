@@ -0,0 +1,90 @@
+import type { Holiday } from "./dateUtils";
+import { parseHolidaySetFile, toHolidays } from "./holidaySets";
+
+/**
+ * 内閣府「国民の祝日」CSV（syukujitsu.csv）の読み込み
+ * 形式: 見出し行「国民の祝日・休日月日,国民の祝日・休日名称」＋「YYYY/M/D,名称」の行
+ */
+
+const JAPANESE_TEXT_PATTERN = /[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/;
+
+/**
+ * CSV ファイルの内容を文字列に変換
+ * 内閣府の配布ファイルは Shift_JIS のため、UTF-8 として読めない場合は Shift_JIS として読む
+ */
+export const decodeHolidayCsv = (buffer: ArrayBuffer): string => {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("shift_jis").decode(buffer);
+  }
+};
+
+/** 祝日名から引用符・制御文字・文字化けした文字を取り除く */
+const cleanHolidayName = (name: string): string =>
+  name
+    .replace(/["\u201C\u201D]/g, "")
+    .replace(/[\x00-\x1F\x7F-\x9F]/g, "")
+    .replace(/[?\uFFFD]/g, "")
+    .trim();
+
+/**
+ * 内閣府の祝日 CSV を祝日一覧に変換
+ * 祝日名に日本語が含まれない行は文字化けとみなして除外する
+ */
+export const parseCabinetOfficeHolidayCsv = (text: string): Holiday[] => {
+  const entries = parseHolidaySetFile(text, "syukujitsu.csv")
+    .map((entry) => ({ date: entry.date, name: cleanHolidayName(entry.name) }))
+    .filter((entry) => JAPANESE_TEXT_PATTERN.test(entry.name));
+
+  if (entries.length === 0) {
+    throw new Error("祝日を読み込めませんでした。内閣府の「国民の祝日」CSV（syukujitsu.csv）を選択してください。");
+  }
+
+  return toHolidays(entries);
+};
+
+/**
+ * 祝日データの差分
+ */
+export interface HolidayDiff {
+  added: Holiday[];
+  removed: Holiday[];
+  renamed: Array<{ date: Date; before: string; after: string }>;
+  unchangedCount: number;
+}
+
+const toDateKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+/**
+ * 現在の祝日データと新しい祝日データを日付単位で比較
+ */
+export const diffHolidays = (current: Holiday[], next: Holiday[]): HolidayDiff => {
+  const currentByDate = new Map(current.map((holiday) => [toDateKey(holiday.date), holiday]));
+  const nextByDate = new Map(next.map((holiday) => [toDateKey(holiday.date), holiday]));
+  const diff: HolidayDiff = { added: [], removed: [], renamed: [], unchangedCount: 0 };
+
+  nextByDate.forEach((holiday, key) => {
+    const existing = currentByDate.get(key);
+    if (!existing) {
+      diff.added.push(holiday);
+    } else if (existing.name !== holiday.name) {
+      diff.renamed.push({ date: holiday.date, before: existing.name, after: holiday.name });
+    } else {
+      diff.unchangedCount++;
+    }
+  });
+  currentByDate.forEach((holiday, key) => {
+    if (!nextByDate.has(key)) {
+      diff.removed.push(holiday);
+    }
+  });
+
+  const byDate = (a: { date: Date }, b: { date: Date }) => a.date.getTime() - b.date.getTime();
+  diff.added.sort(byDate);
+  diff.removed.sort(byDate);
+  diff.renamed.sort(byDate);
+  return diff;
+};
+
+export const hasHolidayChanges = (diff: HolidayDiff) => diff.added.length > 0 || diff.removed.length > 0 || diff.renamed.length > 0;
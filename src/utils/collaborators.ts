@@ -0,0 +1,115 @@
+import type { Collaborator } from "@/store/collaboratorsStore";
+import type { Work, WorkUnit } from "@/types/work";
+import { getCompletedStageIds, resolveStageId, type StageNode } from "@/utils/stageGraph";
+import type { StageWorkloadMetrics } from "@/utils/workStoreHelpers";
+import { collectLeafUnits } from "@/utils/workUtils";
+
+/**
+ * ユニットの担当者
+ * 担当者が未設定（null）のユニット・工程は本人の作業として扱う
+ */
+
+/** 担当者での絞り込み（all: すべて / owner: 本人 / それ以外: アシスタントのID） */
+export type AssigneeFilter = "all" | "owner" | string;
+
+/** 担当者の表示に使う工程 */
+export type AssigneeStage = StageNode & { label: string };
+
+/**
+ * 作品構造の表示・操作に使う担当者の状態（ユニットエディターから最下位ユニットまで受け渡す）
+ */
+export interface UnitAssigneeView {
+  collaborators: Collaborator[];
+  /** 作品の工程（工程IDの解決と工程名の表示に使う） */
+  stages: AssigneeStage[];
+  filter: AssigneeFilter;
+  colorByAssignee: boolean;
+  /** 割り当てモード（ユニットのクリックで担当者を割り当てる） */
+  assignMode: boolean;
+  /** 割り当てる担当者（null: 本人に戻す） */
+  assignTo: string | null;
+  /** 割り当てる工程ID（null: ユニット全体） */
+  assignStageId: number | null;
+}
+
+export const createUnitAssigneeView = (collaborators: Collaborator[] = [], stages: AssigneeStage[] = []): UnitAssigneeView => ({
+  collaborators,
+  stages,
+  filter: "all",
+  colorByAssignee: false,
+  assignMode: false,
+  assignTo: null,
+  assignStageId: null,
+});
+
+/** 工程の担当者（工程ごとの担当者 → ユニットの担当者の順で判定） */
+export const resolveStageAssigneeId = (unit: Pick<WorkUnit, "assigneeId" | "stageAssignees">, stageId: number): string | null =>
+  unit.stageAssignees?.find((entry) => entry.stageId === stageId)?.collaboratorId ?? unit.assigneeId ?? null;
+
+/** 担当者のID（登録されていない・削除済みのアシスタントは本人 null として扱う） */
+export const resolveKnownAssigneeId = (assigneeId: string | null, collaborators: Collaborator[]): string | null =>
+  assigneeId && collaborators.some((collaborator) => collaborator.id === assigneeId) ? assigneeId : null;
+
+/**
+ * ユニットが担当者の絞り込み条件に合うか
+ * 担当者ごとの残り工数と同じく工程ごとに担当者を解決し、いずれかの工程の担当者が一致すれば対象とする（工程がなければユニットの担当者で判定）
+ */
+export const matchesAssigneeFilter = (
+  unit: Pick<WorkUnit, "assigneeId" | "stageAssignees">,
+  view: Pick<UnitAssigneeView, "filter" | "collaborators" | "stages">,
+): boolean => {
+  if (view.filter === "all") {
+    return true;
+  }
+  const assigneeIds =
+    view.stages.length > 0
+      ? view.stages.map((stage, index) => resolveStageAssigneeId(unit, resolveStageId(stage, index)))
+      : [unit.assigneeId ?? null];
+  const target = view.filter === "owner" ? null : view.filter;
+  return assigneeIds.some((assigneeId) => resolveKnownAssigneeId(assigneeId, view.collaborators) === target);
+};
+
+/** ユニットに関わる担当者のID（ユニットの担当者 → 工程ごとの担当者の順、重複なし） */
+export const getUnitAssigneeIds = (unit: Pick<WorkUnit, "assigneeId" | "stageAssignees">): string[] => [
+  ...new Set([...(unit.assigneeId ? [unit.assigneeId] : []), ...(unit.stageAssignees ?? []).map((entry) => entry.collaboratorId)]),
+];
+
+/** ユニットの担当者の説明（例: 「担当: Aさん / 背景: Bさん」）。担当者がいなければ空文字 */
+export const describeUnitAssignees = (
+  unit: Pick<WorkUnit, "assigneeId" | "stageAssignees">,
+  view: Pick<UnitAssigneeView, "collaborators" | "stages">,
+): string => {
+  const nameOf = (id: string) => view.collaborators.find((collaborator) => collaborator.id === id)?.name ?? "不明なアシスタント";
+  const labelOf = (stageId: number) => view.stages.find((stage, index) => resolveStageId(stage, index) === stageId)?.label ?? `工程${stageId}`;
+  const parts: string[] = [];
+  if (unit.assigneeId) {
+    parts.push(`担当: ${nameOf(unit.assigneeId)}`);
+  }
+  (unit.stageAssignees ?? []).forEach((entry) => {
+    parts.push(`${labelOf(entry.stageId)}: ${nameOf(entry.collaboratorId)}`);
+  });
+  return parts.join(" / ");
+};
+
+/**
+ * 担当者ごとの残り工数（本人の分は null をキーにする）
+ * calculateRemainingHoursByStage と同じく、各ユニットの未完了の工程を残りとみなす
+ */
+export const calculateRemainingHoursByAssignee = (work: Work, metrics: StageWorkloadMetrics): Map<string | null, number> => {
+  const remaining = new Map<string | null, number>();
+
+  collectLeafUnits(work.units).forEach((unit) => {
+    const completed = getCompletedStageIds(unit, metrics.stageWorkloads);
+    metrics.stageWorkloads.forEach((stage, index) => {
+      const stageId = resolveStageId(stage, index);
+      if (completed.has(stageId)) {
+        return;
+      }
+      const assigneeId = resolveStageAssigneeId(unit, stageId);
+      remaining.set(assigneeId, (remaining.get(assigneeId) ?? 0) + (metrics.stageWorkloadHours[index] || 0));
+    });
+  });
+
+  remaining.forEach((hours, assigneeId) => remaining.set(assigneeId, Number(hours.toFixed(2))));
+  return remaining;
+};
@@ -0,0 +1,165 @@
+import type { CustomDate, CustomDateType } from "@/store/customDatesStore";
+import type { ParsedICalendarEvent } from "./icalendar";
+import { calculateWindowHours, formatMinutesAsTime, normalizeTimeWindows, subtractTimeWindows, type WorkTimeWindow } from "./timeWindows";
+import type { DayWorkTime } from "./workloadUtils";
+
+/**
+ * 取り込みで作成・更新するカスタム日付
+ */
+export interface CustomDateImportChange {
+  date: string;
+  type: CustomDateType;
+  customHours?: number;
+  windows?: WorkTimeWindow[];
+  /** 変換元の予定名 */
+  summaries: string[];
+  /** 既に設定されている日付ごとの設定（上書き対象） */
+  existing: CustomDate | null;
+}
+
+export interface CustomDateImportOptions {
+  /** この分類（CATEGORIES）または件名を含む予定は任意休日として扱う */
+  holidayTag: string;
+  /** この日付以降の予定だけを取り込む（YYYY-MM-DD） */
+  fromDate?: string;
+  /** 既に設定がある日を上書きするか */
+  overwriteExisting: boolean;
+  existingCustomDates: CustomDate[];
+  /** カスタム日付を考慮しない、曜日・祝日設定だけの作業時間 */
+  getBaseWorkTime: (date: string) => DayWorkTime;
+}
+
+interface DayBusyState {
+  holiday: boolean;
+  allDay: boolean;
+  blocks: WorkTimeWindow[];
+  summaries: string[];
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toDateKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const hasHolidayTag = (event: ParsedICalendarEvent, tag: string) => {
+  const normalized = tag.trim().toLowerCase();
+  if (!normalized) {
+    return false;
+  }
+  return event.categories.some((category) => category.toLowerCase() === normalized) || event.summary.toLowerCase().includes(normalized);
+};
+
+/**
+ * 予定を日ごとに分割して、終日の予定・時間指定の予定を集計する
+ */
+const collectBusyDays = (events: ParsedICalendarEvent[], holidayTag: string, fromDate?: string) => {
+  const days = new Map<string, DayBusyState>();
+  const getDay = (date: string) => {
+    let state = days.get(date);
+    if (!state) {
+      state = { holiday: false, allDay: false, blocks: [], summaries: [] };
+      days.set(date, state);
+    }
+    return state;
+  };
+
+  events.forEach((event) => {
+    const tagged = hasHolidayTag(event, holidayTag);
+    // 「予定なし」の予定は作業時間に影響しない（任意休日のタグ付きは除く）
+    if (event.transparent && !tagged) {
+      return;
+    }
+
+    // 終了は含まないため、最後の1ミリ秒が属する日までを対象にする
+    const lastMoment = new Date(Math.max(event.start.getTime(), event.end.getTime() - 1));
+    for (let cursor = startOfDay(event.start); cursor <= lastMoment; cursor = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 1)) {
+      const date = toDateKey(cursor);
+      if (fromDate && date < fromDate) {
+        continue;
+      }
+
+      const state = getDay(date);
+      if (event.summary && !state.summaries.includes(event.summary)) {
+        state.summaries.push(event.summary);
+      }
+      if (tagged) {
+        state.holiday = true;
+      } else if (event.allDay) {
+        state.allDay = true;
+      } else {
+        const startMinutes = Math.max(0, Math.round((event.start.getTime() - cursor.getTime()) / 60000));
+        const endMinutes = Math.min(MINUTES_PER_DAY, Math.round((event.end.getTime() - cursor.getTime()) / 60000));
+        if (endMinutes > startMinutes) {
+          state.blocks.push({ start: formatMinutesAsTime(startMinutes), end: formatMinutesAsTime(endMinutes), label: event.summary || undefined });
+        }
+      }
+    }
+  });
+
+  return days;
+};
+
+/**
+ * 読み込んだ予定をカスタム日付への変更に変換する
+ * - 任意休日のタグ付き予定 → custom-holiday
+ * - 終日の予定 → unavailable
+ * - 時間指定の予定 → custom-hours（通常の作業時間から予定を除いた残り）
+ */
+export const planCustomDateImport = (events: ParsedICalendarEvent[], options: CustomDateImportOptions): CustomDateImportChange[] => {
+  const busyDays = collectBusyDays(events, options.holidayTag, options.fromDate);
+  const changes: CustomDateImportChange[] = [];
+
+  [...busyDays.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([date, state]) => {
+      const existing = options.existingCustomDates.find((customDate) => customDate.date === date) ?? null;
+      if (existing && !options.overwriteExisting) {
+        return;
+      }
+
+      const base = { date, summaries: state.summaries, existing };
+      if (state.holiday) {
+        changes.push({ ...base, type: "custom-holiday" });
+        return;
+      }
+      if (state.allDay) {
+        changes.push({ ...base, type: "unavailable" });
+        return;
+      }
+      if (state.blocks.length === 0) {
+        return;
+      }
+
+      const blocks = normalizeTimeWindows(state.blocks);
+      const workTime = options.getBaseWorkTime(date);
+      if (workTime.windows) {
+        // 作業時間帯と重ならない予定は作業時間に影響しない
+        const windows = subtractTimeWindows(workTime.windows, blocks);
+        if (calculateWindowHours(windows) === workTime.hours) {
+          return;
+        }
+        changes.push({ ...base, type: "custom-hours", windows, customHours: calculateWindowHours(windows) });
+        return;
+      }
+
+      const remaining = Math.max(0, Math.round((workTime.hours - calculateWindowHours(blocks)) * 100) / 100);
+      if (remaining === workTime.hours) {
+        return;
+      }
+      changes.push({ ...base, type: "custom-hours", customHours: remaining });
+    });
+
+  return changes;
+};
+
+/**
+ * プレビュー表示用に変更内容を CustomDate に変換する
+ */
+export const toPreviewCustomDate = (change: CustomDateImportChange): CustomDate => {
+  const now = new Date().toISOString();
+  const customDate: CustomDate = { id: change.date, date: change.date, type: change.type, createdAt: change.existing?.createdAt ?? now, updatedAt: now };
+  if (change.customHours !== undefined) customDate.customHours = change.customHours;
+  if (change.windows && change.windows.length > 0) customDate.windows = change.windows;
+  return customDate;
+};
@@ -0,0 +1,139 @@
+import type { CustomDate, CustomDateRecurrence, CustomDateRule } from "@/store/customDatesStore";
+
+const WEEKDAY_LABELS = ["日", "月", "火", "水", "木", "金", "土"];
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * YYYY-MM-DD をローカル時刻の Date に変換
+ */
+const parseDateKey = (dateStr: string): Date => {
+  const [year, month, day] = dateStr.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+// 日曜始まりの週の初日
+const startOfWeek = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+
+const matchesRecurrence = (recurrence: CustomDateRecurrence, date: Date, anchorDate: string): boolean => {
+  switch (recurrence.frequency) {
+    case "weekly": {
+      if (!recurrence.weekdays.includes(date.getDay())) {
+        return false;
+      }
+      const interval = Math.max(1, Math.floor(recurrence.interval || 1));
+      if (interval === 1) {
+        return true;
+      }
+      // 適用開始日の週を基準に N 週おきに適用
+      const weeks = Math.round((startOfWeek(date).getTime() - startOfWeek(parseDateKey(anchorDate)).getTime()) / (MS_PER_DAY * 7));
+      return weeks % interval === 0;
+    }
+    case "monthly": {
+      if (date.getDay() !== recurrence.weekday) {
+        return false;
+      }
+      // nth: 1〜5 は第N週、-1 は最終週
+      if (recurrence.nth === -1) {
+        const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+        return date.getDate() + 7 > daysInMonth;
+      }
+      return Math.ceil(date.getDate() / 7) === recurrence.nth;
+    }
+    case "yearly": {
+      const monthDay = toDateKey(date).slice(5);
+      const { startMonthDay, endMonthDay } = recurrence;
+      // 年末年始のように年をまたぐ期間にも対応
+      return startMonthDay <= endMonthDay ? monthDay >= startMonthDay && monthDay <= endMonthDay : monthDay >= startMonthDay || monthDay <= endMonthDay;
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * 指定日にルールが適用されるかどうか
+ */
+export const matchesCustomDateRule = (rule: CustomDateRule, dateStr: string): boolean => {
+  if (dateStr < rule.startDate || (rule.endDate && dateStr > rule.endDate)) {
+    return false;
+  }
+  if (rule.exceptions?.includes(dateStr)) {
+    return false;
+  }
+  return matchesRecurrence(rule.recurrence, parseDateKey(dateStr), rule.startDate);
+};
+
+/**
+ * ルールを指定日の CustomDate として展開する
+ */
+export const expandCustomDateRule = (rule: CustomDateRule, dateStr: string): CustomDate => {
+  const customDate: CustomDate = {
+    id: dateStr,
+    date: dateStr,
+    type: rule.type,
+    ruleId: rule.id,
+    createdAt: rule.createdAt,
+    updatedAt: rule.updatedAt,
+  };
+  if (rule.customHours !== undefined) customDate.customHours = rule.customHours;
+  if (rule.windows) customDate.windows = rule.windows;
+  if (rule.blocks) customDate.blocks = rule.blocks;
+  return customDate;
+};
+
+/**
+ * 指定日に適用されるカスタム日付を解決する
+ * 日付ごとの設定が常にルールより優先され、複数のルールが該当する場合は先に登録されたものを使う
+ */
+export const resolveCustomDate = (dateStr: string, customDates: CustomDate[] = [], rules: CustomDateRule[] = []): CustomDate | undefined => {
+  const override = customDates.find((cd) => cd.date === dateStr);
+  if (override) {
+    return override;
+  }
+  const rule = rules.find((item) => matchesCustomDateRule(item, dateStr));
+  return rule ? expandCustomDateRule(rule, dateStr) : undefined;
+};
+
+/**
+ * 指定日以降でルールが適用される日付を最大 limit 件取得する（約1年先まで探索）
+ */
+export const findUpcomingRuleDates = (rule: CustomDateRule, fromDate: string, limit = 3, searchDays = 400): string[] => {
+  const dates: string[] = [];
+  const current = parseDateKey(fromDate < rule.startDate ? rule.startDate : fromDate);
+
+  for (let i = 0; i < searchDays && dates.length < limit; i++) {
+    const dateStr = toDateKey(current);
+    if (rule.endDate && dateStr > rule.endDate) {
+      break;
+    }
+    if (matchesCustomDateRule(rule, dateStr)) {
+      dates.push(dateStr);
+    }
+    current.setDate(current.getDate() + 1);
+  }
+
+  return dates;
+};
+
+/**
+ * 繰り返し条件の表示用テキスト（例: 毎月第2火曜日）
+ */
+export const describeCustomDateRecurrence = (recurrence: CustomDateRecurrence): string => {
+  switch (recurrence.frequency) {
+    case "weekly": {
+      const days = [...recurrence.weekdays].sort((a, b) => a - b).map((day) => WEEKDAY_LABELS[day]).join("・");
+      const interval = Math.max(1, Math.floor(recurrence.interval || 1));
+      const prefix = interval === 1 ? "毎週" : interval === 2 ? "隔週" : `${interval}週ごと`;
+      return `${prefix} ${days}曜日`;
+    }
+    case "monthly":
+      return `毎月${recurrence.nth === -1 ? "最終" : `第${recurrence.nth}`}${WEEKDAY_LABELS[recurrence.weekday]}曜日`;
+    case "yearly":
+      return `毎年 ${recurrence.startMonthDay.replace("-", "/")}〜${recurrence.endMonthDay.replace("-", "/")}`;
+    default:
+      return "";
+  }
+};
@@ -0,0 +1,158 @@
+import { getAllHolidays, type Holiday } from "./dateUtils";
+
+/** 組み込みの日本の祝日セットのID */
+export const JAPANESE_HOLIDAY_SET_ID = "jp";
+
+/**
+ * 祝日セットに含まれる1日分の祝日（保存・キャッシュ用）
+ */
+export interface HolidaySetEntry {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+const DATE_PATTERN = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/;
+
+const toDateKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+/** YYYY-MM-DD / YYYY/M/D 形式の日付を YYYY-MM-DD に正規化（不正な日付は null） */
+export const normalizeHolidayDate = (value: string): string | null => {
+  const match = DATE_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return toDateKey(date);
+};
+
+// CSV の1行を分割（ダブルクォート内のカンマは区切りとして扱わない）
+const splitCsvLine = (line: string): string[] => {
+  const columns: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if ((char === "," || char === "\t") && !inQuotes) {
+      columns.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  columns.push(current.trim());
+  return columns;
+};
+
+const parseCsvEntries = (text: string): HolidaySetEntry[] =>
+  text
+    .split(/\r?\n/)
+    .map((line) => splitCsvLine(line))
+    .map(([date = "", name = ""]) => ({ date: normalizeHolidayDate(date), name }))
+    // 見出し行など日付として読めない行は読み飛ばす
+    .filter((entry): entry is HolidaySetEntry => entry.date !== null);
+
+const toEntry = (value: unknown, fallbackDate?: string): HolidaySetEntry | null => {
+  if (typeof value === "string" && fallbackDate) {
+    const date = normalizeHolidayDate(fallbackDate);
+    return date ? { date, name: value.trim() } : null;
+  }
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const raw = value as Record<string, unknown>;
+  const dateValue = typeof raw.date === "string" ? raw.date : fallbackDate;
+  const date = dateValue ? normalizeHolidayDate(dateValue) : null;
+  if (!date) {
+    return null;
+  }
+  const name = typeof raw.name === "string" ? raw.name : typeof raw.localName === "string" ? raw.localName : typeof raw.title === "string" ? raw.title : "";
+  return { date, name: name.trim() };
+};
+
+/**
+ * JSON の祝日一覧を読み込む
+ * 対応形式: [{ date, name }]、{ holidays: [...] }、{ "YYYY-MM-DD": "名前" }
+ */
+const parseJsonEntries = (text: string): HolidaySetEntry[] => {
+  const data = JSON.parse(text) as unknown;
+  const list = Array.isArray(data) ? data : data && typeof data === "object" && Array.isArray((data as Record<string, unknown>).holidays) ? ((data as Record<string, unknown>).holidays as unknown[]) : null;
+
+  if (list) {
+    return list.map((item) => toEntry(item)).filter((entry): entry is HolidaySetEntry => entry !== null);
+  }
+  if (data && typeof data === "object") {
+    return Object.entries(data as Record<string, unknown>)
+      .map(([date, value]) => toEntry(value, date))
+      .filter((entry): entry is HolidaySetEntry => entry !== null);
+  }
+  return [];
+};
+
+/**
+ * ユーザーが用意した祝日ファイル（CSV / JSON）を読み込む
+ * 同じ日付が複数ある場合は最初の行を使用し、日付順に並べて返す
+ */
+export const parseHolidaySetFile = (text: string, fileName = ""): HolidaySetEntry[] => {
+  const trimmed = text.replace(/^\uFEFF/, "").trim();
+  const isJson = fileName.toLowerCase().endsWith(".json") || trimmed.startsWith("[") || trimmed.startsWith("{");
+  const entries = isJson ? parseJsonEntries(trimmed) : parseCsvEntries(trimmed);
+
+  const byDate = new Map<string, HolidaySetEntry>();
+  entries.forEach((entry) => {
+    if (!byDate.has(entry.date)) {
+      byDate.set(entry.date, { date: entry.date, name: entry.name || "休日" });
+    }
+  });
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const toHolidays = (entries: HolidaySetEntry[]): Holiday[] =>
+  entries.map((entry) => {
+    const [year, month, day] = entry.date.split("-").map(Number);
+    return { name: entry.name, date: new Date(year, month - 1, day) };
+  });
+
+export const toHolidaySetEntries = (holidays: Holiday[]): HolidaySetEntry[] => holidays.map((holiday) => ({ date: toDateKey(holiday.date), name: holiday.name }));
+
+/**
+ * 複数の祝日セットを1つにまとめる（同じ日は名前を「 / 」でつなぐ）
+ */
+export const mergeHolidaySets = (sets: Holiday[][]): Holiday[] => {
+  const byDate = new Map<string, Holiday>();
+  sets.forEach((holidays) =>
+    holidays.forEach((holiday) => {
+      const key = toDateKey(holiday.date);
+      const existing = byDate.get(key);
+      if (!existing) {
+        byDate.set(key, { name: holiday.name, date: new Date(holiday.date.getFullYear(), holiday.date.getMonth(), holiday.date.getDate()) });
+      } else if (!existing.name.split(" / ").includes(holiday.name)) {
+        existing.name = `${existing.name} / ${holiday.name}`;
+      }
+    }),
+  );
+  return [...byDate.values()].sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+/**
+ * 日本の祝日のうち、取得済みデータにない年を計算で補う
+ * （内閣府データは翌年分までしか公開されないため、先の締切でも祝日を考慮できるようにする）
+ */
+export const fillCalculatedJapaneseHolidays = (holidays: Holiday[], fromYear: number, toYear: number): Holiday[] => {
+  const coveredYears = new Set(holidays.map((holiday) => holiday.date.getFullYear()));
+  const filled = [...holidays];
+  for (let year = fromYear; year <= toYear; year++) {
+    if (!coveredYears.has(year)) {
+      filled.push(...getAllHolidays(year));
+    }
+  }
+  return filled.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+/** 指定日の祝日を取得 */
+export const findHolidayForDate = (holidays: Holiday[], date: Date): Holiday | null =>
+  holidays.find((holiday) => holiday.date.getFullYear() === date.getFullYear() && holiday.date.getMonth() === date.getMonth() && holiday.date.getDate() === date.getDate()) ?? null;
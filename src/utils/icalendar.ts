@@ -0,0 +1,300 @@
+/**
+ * iCalendar（RFC 5545）形式の読み書き
+ */
+
+export const ICALENDAR_PRODUCT_ID = "-//MangaFlowManager//Calendar Export//JA";
+export const ICALENDAR_UID_DOMAIN = "mangaflowmanager";
+
+/**
+ * 書き出すイベント
+ * 終日イベントは date（と endDate）、時刻指定イベントは startTime / endTime（HH:MM、ローカル時刻）を指定
+ */
+export interface ICalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  date: string; // YYYY-MM-DD
+  endDate?: string; // 終日イベントの最終日（含む）。未指定なら1日のみ
+  startTime?: string;
+  endTime?: string;
+  categories?: string[];
+  lastModified?: string; // ISO 8601
+}
+
+const MAX_LINE_OCTETS = 75;
+const textEncoder = new TextEncoder();
+
+/** TEXT 値のエスケープ */
+export const escapeICalendarText = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+/**
+ * 75オクテットを超える行を折り返す（マルチバイト文字の途中では分割しない）
+ */
+export const foldICalendarLine = (line: string): string => {
+  if (textEncoder.encode(line).length <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const segments: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = textEncoder.encode(char).length;
+    // 継続行は先頭の空白1文字分を差し引く
+    const limit = segments.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      segments.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  segments.push(current);
+
+  return segments.join("\r\n ");
+};
+
+const compactDate = (date: string) => date.replace(/-/g, "");
+
+const nextDate = (date: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  const next = new Date(year, month - 1, day + 1);
+  return `${next.getFullYear()}${String(next.getMonth() + 1).padStart(2, "0")}${String(next.getDate()).padStart(2, "0")}`;
+};
+
+// 24:00 は翌日の 00:00 として書き出す
+const formatLocalDateTime = (date: string, time: string) => {
+  if (time === "24:00") {
+    return `${nextDate(date)}T000000`;
+  }
+  return `${compactDate(date)}T${time.replace(":", "")}00`;
+};
+
+/** UTC の日時（DTSTAMP / LAST-MODIFIED 用） */
+export const formatICalendarTimestamp = (iso: string): string => {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) {
+    return formatICalendarTimestamp(new Date().toISOString());
+  }
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+};
+
+/** 安定した UID を生成（同じ対象には常に同じ UID を割り当てる） */
+export const buildICalendarUid = (...parts: string[]): string =>
+  `${parts.map((part) => encodeURIComponent(part)).join("-")}@${ICALENDAR_UID_DOMAIN}`;
+
+const buildEventLines = (event: ICalendarEvent, timestamp: string): string[] => {
+  const lines = ["BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${timestamp}`];
+
+  if (event.startTime && event.endTime) {
+    lines.push(`DTSTART:${formatLocalDateTime(event.date, event.startTime)}`, `DTEND:${formatLocalDateTime(event.date, event.endTime)}`);
+  } else {
+    lines.push(`DTSTART;VALUE=DATE:${compactDate(event.date)}`, `DTEND;VALUE=DATE:${nextDate(event.endDate ?? event.date)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeICalendarText(event.summary)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeICalendarText(event.description)}`);
+  }
+  if (event.categories && event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeICalendarText).join(",")}`);
+  }
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatICalendarTimestamp(event.lastModified)}`);
+  }
+  lines.push("END:VEVENT");
+
+  return lines;
+};
+
+/**
+ * VCALENDAR 全体の文字列を生成（改行は CRLF）
+ */
+export const buildICalendar = (events: ICalendarEvent[], options: { calendarName?: string; generatedAt?: string } = {}): string => {
+  const timestamp = formatICalendarTimestamp(options.generatedAt ?? new Date().toISOString());
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${ICALENDAR_PRODUCT_ID}`, "CALSCALE:GREGORIAN", "METHOD:PUBLISH"];
+
+  if (options.calendarName) {
+    lines.push(`X-WR-CALNAME:${escapeICalendarText(options.calendarName)}`);
+  }
+  events.forEach((event) => lines.push(...buildEventLines(event, timestamp)));
+  lines.push("END:VCALENDAR");
+
+  return `${lines.map(foldICalendarLine).join("\r\n")}\r\n`;
+};
+
+/**
+ * 読み込んだイベント（end は含まない。終日イベントは翌日0時）
+ */
+export interface ParsedICalendarEvent {
+  uid: string;
+  summary: string;
+  categories: string[];
+  allDay: boolean;
+  start: Date;
+  end: Date;
+  /** TRANSP:TRANSPARENT（予定なし扱い）かどうか */
+  transparent: boolean;
+  /** RRULE を持つ繰り返し予定かどうか（初回のみ取り込む） */
+  recurring: boolean;
+}
+
+interface ICalendarProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+const DATE_TIME_PATTERN = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/;
+const DURATION_PATTERN = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+/** TEXT 値のエスケープを戻す */
+export const unescapeICalendarText = (value: string): string => value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+
+// "NAME;PARAM=VALUE:..." を分解（引用符内の区切り文字は無視する）
+const parsePropertyLine = (line: string): ICalendarProperty | null => {
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ":" && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator < 0) {
+    return null;
+  }
+
+  const [name, ...paramParts] = line.slice(0, separator).split(";");
+  const params: Record<string, string> = {};
+  paramParts.forEach((part) => {
+    const [key, ...rest] = part.split("=");
+    if (key) {
+      params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+    }
+  });
+
+  return { name: (name ?? "").toUpperCase(), params, value: line.slice(separator + 1) };
+};
+
+/**
+ * 日付・日時の値をローカル時刻の Date に変換
+ * UTC（末尾 Z）はローカル時刻へ変換し、TZID 付き・フローティング時刻はローカル時刻として扱う
+ */
+const parseDateValue = (property: ICalendarProperty): { date: Date; allDay: boolean } | null => {
+  const value = property.value.trim();
+  const dateMatch = DATE_PATTERN.exec(value);
+  if (dateMatch) {
+    return { date: new Date(Number(dateMatch[1]), Number(dateMatch[2]) - 1, Number(dateMatch[3])), allDay: true };
+  }
+
+  const dateTimeMatch = DATE_TIME_PATTERN.exec(value);
+  if (!dateTimeMatch) {
+    return null;
+  }
+  const [, year, month, day, hours, minutes, seconds, utc] = dateTimeMatch.map((part) => part ?? "");
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const;
+  return { date: utc ? new Date(Date.UTC(...parts)) : new Date(...parts), allDay: false };
+};
+
+const parseDurationMinutes = (value: string): number | null => {
+  const match = DURATION_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total = Number(weeks ?? 0) * 7 * 24 * 60 + Number(days ?? 0) * 24 * 60 + Number(hours ?? 0) * 60 + Number(minutes ?? 0) + Number(seconds ?? 0) / 60;
+  return sign === "-" ? -total : total;
+};
+
+const buildParsedEvent = (properties: ICalendarProperty[]): ParsedICalendarEvent | null => {
+  const find = (name: string) => properties.find((property) => property.name === name);
+
+  const status = find("STATUS")?.value.trim().toUpperCase();
+  const startProperty = find("DTSTART");
+  const start = startProperty ? parseDateValue(startProperty) : null;
+  if (!start || status === "CANCELLED") {
+    return null;
+  }
+
+  const endProperty = find("DTEND");
+  const durationProperty = find("DURATION");
+  let end = endProperty ? parseDateValue(endProperty)?.date ?? null : null;
+  if (!end && durationProperty) {
+    const minutes = parseDurationMinutes(durationProperty.value);
+    end = minutes !== null ? new Date(start.date.getTime() + minutes * 60000) : null;
+  }
+  if (!end) {
+    // 終了の指定がない場合、終日イベントは1日、時刻指定イベントは開始時刻のみ
+    end = start.allDay ? new Date(start.date.getFullYear(), start.date.getMonth(), start.date.getDate() + 1) : new Date(start.date);
+  }
+
+  return {
+    uid: find("UID")?.value.trim() ?? "",
+    summary: unescapeICalendarText(find("SUMMARY")?.value ?? "").trim(),
+    categories: properties
+      .filter((property) => property.name === "CATEGORIES")
+      .flatMap((property) => property.value.split(/(?<!\\),/))
+      .map((category) => unescapeICalendarText(category).trim())
+      .filter(Boolean),
+    allDay: start.allDay,
+    start: start.date,
+    end,
+    transparent: find("TRANSP")?.value.trim().toUpperCase() === "TRANSPARENT",
+    recurring: Boolean(find("RRULE")),
+  };
+};
+
+/**
+ * iCalendar 文字列から VEVENT を取り出す（キャンセル済み・開始日時のないイベントは除外）
+ */
+export const parseICalendar = (text: string): ParsedICalendarEvent[] => {
+  // 折り返された行を戻す
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: ParsedICalendarEvent[] = [];
+  let current: ICalendarProperty[] | null = null;
+  let nestedDepth = 0;
+
+  lines.forEach((line) => {
+    const upper = line.trim().toUpperCase();
+    if (upper === "BEGIN:VEVENT") {
+      current = [];
+      nestedDepth = 0;
+      return;
+    }
+    if (!current) {
+      return;
+    }
+    if (upper === "END:VEVENT") {
+      const event = buildParsedEvent(current);
+      if (event) {
+        events.push(event);
+      }
+      current = null;
+      return;
+    }
+    // VALARM などのサブコンポーネントは読み飛ばす
+    if (upper.startsWith("BEGIN:")) {
+      nestedDepth++;
+      return;
+    }
+    if (upper.startsWith("END:")) {
+      nestedDepth = Math.max(0, nestedDepth - 1);
+      return;
+    }
+    if (nestedDepth === 0) {
+      const property = parsePropertyLine(line);
+      if (property) {
+        current.push(property);
+      }
+    }
+  });
+
+  return events;
+};
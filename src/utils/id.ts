@@ -7,3 +7,10 @@ export const generateId = (): string => {
   const timestamp = Date.now().toString(16);
   return `id-${timestamp}-${random}`;
 };
+
+/** 推測されにくいトークン（16バイトの乱数を16進数で表した32文字） */
+export const generateToken = (): string => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
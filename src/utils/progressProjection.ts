@@ -0,0 +1,174 @@
+import type { CompletedHoursPoint } from "@/types/models";
+import { addDays, getDateRange } from "@/utils/dateUtils";
+
+/**
+ * 進捗履歴からの完了日の予測
+ * 直近の1日あたりの完了工数（ベロシティ）が続くと仮定して残り工数を割り当て、
+ * ベロシティのばらつきから早い場合・遅い場合の完了日（信頼区間）も求める
+ */
+
+/** ベロシティの基準（calendar: 暦日あたり / workable: 作業可能日あたり） */
+export type VelocityBasis = "calendar" | "workable";
+
+export const VELOCITY_BASIS_OPTIONS: ReadonlyArray<{ value: VelocityBasis; label: string }> = [
+  { value: "workable", label: "作業可能日あたり" },
+  { value: "calendar", label: "暦日あたり" },
+];
+
+/** 予測線の1日分（expected: 平均ペース / low・high: 遅い場合・早い場合の完了工数） */
+export interface ProjectionPoint {
+  date: string;
+  expected: number;
+  low: number;
+  high: number;
+}
+
+export interface CompletionProjection {
+  basis: VelocityBasis;
+  /** ベロシティの計算に使った日数 */
+  sampleDays: number;
+  /** 1日あたりの完了工数（平均・信頼区間の下限・上限） */
+  velocity: number;
+  velocityLow: number;
+  velocityHigh: number;
+  remainingHours: number;
+  /** 完了予測日（予測期間内に完了しない場合は null） */
+  projectedDate: string | null;
+  earliestDate: string | null;
+  latestDate: string | null;
+  /** 予測の起点（今日または最後の記録日）から完了予測までの推移 */
+  points: ProjectionPoint[];
+}
+
+export interface ProjectCompletionOptions {
+  /** 今日（YYYY-MM-DD）。最後の記録日から今日までは進捗なしとして扱う */
+  today: string;
+  basis: VelocityBasis;
+  /** 作業可能日かどうか（basis が workable の場合に使用） */
+  isWorkableDay?: (date: string) => boolean;
+  /** ベロシティを求める直近の暦日数 */
+  windowDays?: number;
+}
+
+// 直近2週間のペースで予測する
+const DEFAULT_WINDOW_DAYS = 14;
+// 信頼区間（80%）の z 値
+const CONFIDENCE_Z = 1.28;
+// 予測する最長期間（これを超える場合は完了日を求めない）
+const MAX_PROJECTION_DAYS = 730;
+
+/** 記録日ごとの完了工数を、最初の記録日から end までの日ごとの値に展開（記録のない日は前日の値を引き継ぐ） */
+export const fillDailyCompletedHours = (series: CompletedHoursPoint[], end: string): CompletedHoursPoint[] => {
+  if (series.length === 0) {
+    return [];
+  }
+
+  const completedByDate = new Map(series.map((point) => [point.date, point.completedHours]));
+  const lastDate = series[series.length - 1]!.date;
+  let previous = 0;
+  return getDateRange(series[0]!.date, end > lastDate ? end : lastDate).map((date) => {
+    previous = completedByDate.get(date) ?? previous;
+    return { date, completedHours: previous };
+  });
+};
+
+/**
+ * 直近のベロシティから完了日を予測
+ * ベロシティが求められない（直近に記録・作業可能日がない、進んでいない）場合や完了済みの場合は null
+ */
+export const projectCompletion = (
+  series: CompletedHoursPoint[],
+  totalHours: number,
+  options: ProjectCompletionOptions,
+): CompletionProjection | null => {
+  const { today, basis, isWorkableDay = () => true, windowDays = DEFAULT_WINDOW_DAYS } = options;
+  const daily = fillDailyCompletedHours(series, today);
+  if (daily.length === 0 || totalHours <= 0) {
+    return null;
+  }
+
+  const origin = daily[daily.length - 1]!;
+  const remainingHours = Number(Math.max(0, totalHours - origin.completedHours).toFixed(2));
+  if (remainingHours <= 0) {
+    return null;
+  }
+
+  const countsDay = (date: string) => basis === "calendar" || isWorkableDay(date);
+
+  // 直近の暦日ごとの増分（workable では作業可能日以外の増分を次の作業可能日に繰り越す）
+  const samples: number[] = [];
+  let carry = 0;
+  daily
+    .slice(1)
+    .map((point, index) => ({ date: point.date, delta: point.completedHours - daily[index]!.completedHours }))
+    .slice(-windowDays)
+    .forEach((sample) => {
+      carry += sample.delta;
+      if (countsDay(sample.date)) {
+        samples.push(carry);
+        carry = 0;
+      }
+    });
+  if (samples.length > 0) {
+    samples[samples.length - 1]! += carry;
+  }
+  if (samples.length === 0) {
+    return null;
+  }
+
+  const velocity = samples.reduce((sum, delta) => sum + delta, 0) / samples.length;
+  if (velocity <= 0) {
+    return null;
+  }
+  const variance = samples.length > 1 ? samples.reduce((sum, delta) => sum + (delta - velocity) ** 2, 0) / (samples.length - 1) : 0;
+  const margin = CONFIDENCE_Z * Math.sqrt(variance / samples.length);
+  const velocityLow = Math.max(0, velocity - margin);
+  const velocityHigh = velocity + margin;
+
+  // 起点の翌日から、数える日ごとに各ペースで工数を積み上げる
+  const points: ProjectionPoint[] = [
+    { date: origin.date, expected: origin.completedHours, low: origin.completedHours, high: origin.completedHours },
+  ];
+  let projectedDate: string | null = null;
+  let earliestDate: string | null = null;
+  let latestDate: string | null = null;
+  let date = origin.date;
+
+  for (let day = 0; day < MAX_PROJECTION_DAYS && !latestDate; day += 1) {
+    date = addDays(date, 1);
+    const previous = points[points.length - 1]!;
+    const step = countsDay(date) ? 1 : 0;
+    const point = {
+      date,
+      expected: Math.min(totalHours, previous.expected + velocity * step),
+      low: Math.min(totalHours, previous.low + velocityLow * step),
+      high: Math.min(totalHours, previous.high + velocityHigh * step),
+    };
+
+    points.push(point);
+    earliestDate ??= point.high >= totalHours ? date : null;
+    projectedDate ??= point.expected >= totalHours ? date : null;
+    latestDate ??= point.low >= totalHours ? date : null;
+    if (projectedDate && velocityLow <= 0) {
+      break;
+    }
+  }
+
+  // 遅い場合のペースでは予測期間内に完了しない場合は、平均ペースの完了日までを予測線にする
+  const lastPointDate = latestDate ?? projectedDate;
+  const round = (value: number) => Number(value.toFixed(2));
+  return {
+    basis,
+    sampleDays: samples.length,
+    velocity: round(velocity),
+    velocityLow: round(velocityLow),
+    velocityHigh: round(velocityHigh),
+    remainingHours,
+    projectedDate,
+    earliestDate,
+    latestDate,
+    points: lastPointDate
+      ? points.filter((point) => point.date <= lastPointDate).map((point) => ({ ...point, expected: round(point.expected), low: round(point.low), high: round(point.high) }))
+      : [],
+  };
+};
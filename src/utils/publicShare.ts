@@ -0,0 +1,58 @@
+import type { PublicProgressShare, Work, WorkUnit } from "@/types/work";
+import { buildCompletedHoursSeries } from "@/utils/workProgressUtils";
+import type { StageWorkloadMetrics } from "@/utils/workStoreHelpers";
+
+/**
+ * 公開リンク（ログインなしで進捗を閲覧できるページ）
+ * トークンをドキュメントIDにした publicShares/{token} へ作品の一部だけを書き出す
+ */
+
+export const buildPublicShareDocumentPath = (token: string): string => `publicShares/${token}`;
+
+/** generateToken で生成したトークンの形式か（firestore.rules の isPublicShareToken と同じ条件） */
+export const isPublicShareToken = (value: unknown): value is string => typeof value === "string" && /^[0-9a-f]{32}$/.test(value);
+
+/** 構造と工程のみを残したユニット（担当者は公開しない） */
+const toPublicUnit = (unit: WorkUnit): WorkUnit =>
+  unit.children
+    ? { id: unit.id, index: unit.index, children: unit.children.map(toPublicUnit) }
+    : {
+        id: unit.id,
+        index: unit.index,
+        stageIndex: unit.stageIndex ?? 0,
+        ...(unit.completedStageIds ? { completedStageIds: [...unit.completedStageIds] } : {}),
+      };
+
+/**
+ * 公開リンク用の進捗スナップショットを作成
+ * @param progress worksStore.calculateActualWorkHours の結果
+ */
+export const buildPublicProgressShare = (
+  work: Work,
+  ownerId: string,
+  metrics: StageWorkloadMetrics | null,
+  progress: { totalEstimatedHours: number; completedEstimatedHours: number; progressPercentage: number },
+): PublicProgressShare => {
+  return {
+    ownerId,
+    workId: work.id,
+    title: work.title,
+    status: work.status,
+    startDate: work.startDate,
+    deadline: work.deadline,
+    progressPercentage: progress.progressPercentage,
+    totalHours: progress.totalEstimatedHours,
+    completedHours: progress.completedEstimatedHours,
+    stages: (metrics?.stageWorkloads ?? work.workStageWorkloads ?? []).map((stage) => ({
+      id: stage.id,
+      label: stage.label,
+      color: stage.color,
+      baseHours: stage.baseHours ?? null,
+      ...(stage.prerequisites ? { prerequisites: [...stage.prerequisites] } : {}),
+    })),
+    stageWorkloadHours: metrics?.stageWorkloadHours ?? [],
+    units: work.units.map(toPublicUnit),
+    history: buildCompletedHoursSeries(work.progressHistory ?? [], metrics),
+    updatedAt: work.updatedAt,
+  };
+};
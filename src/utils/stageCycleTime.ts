@@ -0,0 +1,136 @@
+import type { StageTransitionEvent } from "@/types/models";
+import { isLinearStageFlow, resolveStageId, resolveStagePrerequisites, type StageNode } from "@/utils/stageGraph";
+import { resolveStageColors, resolveStageLabels, type StageDisplaySource } from "@/utils/workProgressUtils";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface StageCycleTimeSummary {
+  stageIndex: number;
+  label: string;
+  color: string;
+  /** 集計に使用したサンプル数（1コマが前工程から当工程へ進んだ回数） */
+  sampleCount: number;
+  /** 中央値（時間/コマ） */
+  medianHours: number | null;
+  /** 90パーセンタイル（時間/コマ） */
+  p90Hours: number | null;
+}
+
+/**
+ * 昇順に並んだ値の百分位数を線形補間で求める
+ */
+export const calculatePercentile = (sortedValues: number[], percentile: number): number | null => {
+  if (sortedValues.length === 0) {
+    return null;
+  }
+  const position = (sortedValues.length - 1) * Math.min(Math.max(percentile, 0), 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const weight = position - lower;
+  return sortedValues[lower] + (sortedValues[upper] - sortedValues[lower]) * weight;
+};
+
+const groupEventsByUnit = (events: StageTransitionEvent[]) => {
+  const eventsByUnit = new Map<string, StageTransitionEvent[]>();
+  events.forEach((event) => {
+    const list = eventsByUnit.get(event.unitId) ?? [];
+    list.push(event);
+    eventsByUnit.set(event.unitId, list);
+  });
+  return eventsByUnit;
+};
+
+/**
+ * 工程変更イベントから工程ごとの所要時間サンプル（時間）を抽出
+ * 工程kの所要時間は「工程k-1に到達した時刻」から「工程kに到達した時刻」までとする
+ * 差し戻し（後退・一巡）があった場合はそれ以降の到達記録を破棄し、複数工程を飛ばした遷移は計測しない
+ */
+export const collectStageCycleSamples = (events: StageTransitionEvent[], stageCount: number): number[][] => {
+  const samples = Array.from({ length: stageCount }, () => [] as number[]);
+
+  // 分岐する作品で記録した工程ごとの完了イベントは直列の到達記録として扱わない
+  groupEventsByUnit(events.filter((event) => event.stageId === undefined)).forEach((unitEvents) => {
+    const arrivals = new Map<number, number>();
+
+    [...unitEvents]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(({ fromStage, toStage, timestamp }) => {
+        if (toStage === fromStage + 1) {
+          const startedAt = arrivals.get(fromStage);
+          if (startedAt !== undefined && toStage < stageCount && timestamp >= startedAt) {
+            samples[toStage].push((timestamp - startedAt) / HOUR_MS);
+          }
+        } else if (toStage < fromStage) {
+          [...arrivals.keys()].filter((stage) => stage > toStage).forEach((stage) => arrivals.delete(stage));
+        }
+        arrivals.set(toStage, timestamp);
+      });
+  });
+
+  return samples;
+};
+
+/**
+ * 分岐・並行のある作品の工程完了イベントから工程ごとの所要時間サンプル（時間）を抽出
+ * 工程の所要時間は「前提工程がすべて完了した時刻」から「その工程を完了した時刻」までとする
+ * 前提工程のない工程や、前提工程の完了が記録されていない場合は計測しない。完了を取り消した工程の記録は破棄する
+ */
+export const collectStageCompletionSamples = (events: StageTransitionEvent[], stages: StageNode[]): number[][] => {
+  const samples = Array.from({ length: stages.length }, () => [] as number[]);
+  const indexById = new Map(stages.map((stage, index) => [resolveStageId(stage, index), index]));
+  const prerequisites = resolveStagePrerequisites(stages);
+
+  groupEventsByUnit(events.filter((event) => event.stageId !== undefined)).forEach((unitEvents) => {
+    const completedAt = new Map<number, number>();
+
+    [...unitEvents]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(({ stageId, completed, timestamp }) => {
+        const stageIndex = indexById.get(stageId as number);
+        if (stageIndex === undefined) {
+          return;
+        }
+        if (!completed) {
+          completedAt.delete(stageId as number);
+          return;
+        }
+        const required = prerequisites[stageIndex];
+        const startedAt = required.map((id) => completedAt.get(id));
+        if (required.length > 0 && startedAt.every((value): value is number => value !== undefined)) {
+          const readyAt = Math.max(...startedAt);
+          if (timestamp >= readyAt) {
+            samples[stageIndex].push((timestamp - readyAt) / HOUR_MS);
+          }
+        }
+        completedAt.set(stageId as number, timestamp);
+      });
+  });
+
+  return samples;
+};
+
+/**
+ * 工程ごとのサイクルタイム（中央値・90パーセンタイル）を集計
+ * 最初の工程（前提工程のない工程）は開始時刻が記録されないため常にサンプルなしとなる
+ * 前提工程で分岐する作品は工程ごとの完了イベントから集計する
+ */
+export const calculateStageCycleTimes = (
+  events: StageTransitionEvent[],
+  stages: Array<StageDisplaySource[number] & Pick<StageNode, "prerequisites">>,
+): StageCycleTimeSummary[] => {
+  const labels = resolveStageLabels(stages);
+  const colors = resolveStageColors(stages);
+  const samples = isLinearStageFlow(stages) ? collectStageCycleSamples(events, stages.length) : collectStageCompletionSamples(events, stages);
+
+  return stages.map((_, stageIndex) => {
+    const sorted = [...samples[stageIndex]].sort((a, b) => a - b);
+    return {
+      stageIndex,
+      label: labels[stageIndex],
+      color: colors[stageIndex],
+      sampleCount: sorted.length,
+      medianHours: calculatePercentile(sorted, 0.5),
+      p90Hours: calculatePercentile(sorted, 0.9),
+    };
+  });
+};
@@ -0,0 +1,183 @@
+import type { WorkUnit } from "@/types/work";
+
+/**
+ * 工程の前提関係（DAG）
+ * - 工程は一覧の順に並び、前提工程にはそれより前の工程だけを指定できる（一覧の順がそのまま作業できる順序になる）
+ * - prerequisites が未設定の工程は直前の工程を前提とする（従来の直列の工程）
+ * - 直列の作品は stageIndex だけで進捗を表す。分岐・並行のある作品は最下位ユニットごとに完了した工程（completedStageIds）を記録し、
+ *   stageIndex には「一覧の先頭から続けて完了している最後の工程」を要約として保持する
+ */
+
+export interface StageNode {
+  id: number;
+  prerequisites?: number[];
+}
+
+/** 工程ID（数値でない古いデータは一覧の位置から採番） */
+export const resolveStageId = (stage: StageNode, index: number): number => {
+  const numeric = Number(stage.id);
+  return Number.isFinite(numeric) ? numeric : index + 1;
+};
+
+/**
+ * 各工程の前提工程IDを一覧の順に返す
+ * 未設定は直前の工程、より後ろの工程や存在しない工程の指定は無視する
+ */
+export const resolveStagePrerequisites = (stages: StageNode[]): number[][] => {
+  const ids = stages.map(resolveStageId);
+
+  return stages.map((stage, index) => {
+    if (!Array.isArray(stage.prerequisites)) {
+      return index > 0 ? [ids[index - 1]] : [];
+    }
+    const earlierIds = new Set(ids.slice(0, index));
+    return [...new Set(stage.prerequisites)].filter((id) => earlierIds.has(id));
+  });
+};
+
+/** すべての工程が直前の工程だけを前提とする（従来の直列の工程）か */
+export const isLinearStageFlow = (stages: StageNode[]): boolean => {
+  const ids = stages.map(resolveStageId);
+  return resolveStagePrerequisites(stages).every((prerequisites, index) =>
+    index === 0 ? prerequisites.length === 0 : prerequisites.length === 1 && prerequisites[0] === ids[index - 1],
+  );
+};
+
+/**
+ * 前提工程の指定を検証（一覧で後ろにある工程・存在しない工程・自分自身は指定できない）
+ */
+export const validateStagePrerequisites = (stages: Array<StageNode & { label?: string }>): string[] => {
+  const violations: string[] = [];
+  const ids = stages.map(resolveStageId);
+
+  stages.forEach((stage, index) => {
+    if (stage.prerequisites === undefined) {
+      return;
+    }
+    const name = stage.label ? `「${stage.label}」` : `工程${index + 1}`;
+    if (!Array.isArray(stage.prerequisites) || !stage.prerequisites.every((id) => Number.isInteger(id))) {
+      violations.push(`${name}の前提工程が正しくありません。`);
+      return;
+    }
+    const earlierIds = new Set(ids.slice(0, index));
+    if (stage.prerequisites.some((id) => !earlierIds.has(id))) {
+      violations.push(`${name}の前提工程には、この工程より前の工程だけを指定できます。`);
+    }
+  });
+
+  return violations;
+};
+
+/**
+ * 最下位ユニットが完了した工程ID
+ * 分岐のある工程では completedStageIds を、直列の工程（または未記録）では stageIndex を使う
+ * stageIndex k（1以上）は工程0〜kを完了、0 は未完了とみなす（calculateActualWorkHours と同じ扱い）
+ */
+export const getCompletedStageIds = (unit: Pick<WorkUnit, "stageIndex" | "completedStageIds">, stages: StageNode[]): Set<number> => {
+  const ids = stages.map(resolveStageId);
+
+  if (Array.isArray(unit.completedStageIds) && !isLinearStageFlow(stages)) {
+    const known = new Set(ids);
+    return new Set(unit.completedStageIds.filter((id) => known.has(id)));
+  }
+
+  const stageIndex = Math.floor(Number(unit.stageIndex ?? 0));
+  if (!Number.isFinite(stageIndex) || stageIndex <= 0) {
+    return new Set();
+  }
+  return new Set(ids.slice(0, Math.min(stageIndex, ids.length - 1) + 1));
+};
+
+/** 前提工程がすべて完了していて、まだ完了していない（着手できる）工程ID */
+export const getAvailableStageIds = (completed: Set<number>, stages: StageNode[]): number[] => {
+  const prerequisites = resolveStagePrerequisites(stages);
+  return stages
+    .map(resolveStageId)
+    .filter((id, index) => !completed.has(id) && prerequisites[index].every((prerequisite) => completed.has(prerequisite)));
+};
+
+/** 完了した工程から stageIndex（先頭から続けて完了している最後の工程）を求める */
+export const deriveStageIndex = (completed: Set<number>, stages: StageNode[]): number => {
+  const ids = stages.map(resolveStageId);
+  let lastCompleted = -1;
+  while (lastCompleted + 1 < ids.length && completed.has(ids[lastCompleted + 1])) {
+    lastCompleted++;
+  }
+  return Math.max(0, lastCompleted);
+};
+
+/** 指定した工程を前提とする工程（間接的なものを含む） */
+const collectDependentStageIds = (stageId: number, stages: StageNode[]): Set<number> => {
+  const ids = stages.map(resolveStageId);
+  const prerequisites = resolveStagePrerequisites(stages);
+  const dependents = new Set<number>();
+
+  ids.forEach((id, index) => {
+    if (prerequisites[index].some((prerequisite) => prerequisite === stageId || dependents.has(prerequisite))) {
+      dependents.add(id);
+    }
+  });
+
+  return dependents;
+};
+
+/**
+ * 工程の完了を切り替える
+ * 完了にできるのは前提工程がすべて完了している工程のみ。完了を取り消すと、その工程を前提とする工程も未完了に戻す
+ * 切り替えられない場合は null を返す
+ */
+export const toggleStageCompletion = (completed: Set<number>, stageId: number, stages: StageNode[]): Set<number> | null => {
+  const next = new Set(completed);
+
+  if (completed.has(stageId)) {
+    next.delete(stageId);
+    collectDependentStageIds(stageId, stages).forEach((id) => next.delete(id));
+    return next;
+  }
+
+  if (!getAvailableStageIds(completed, stages).includes(stageId)) {
+    return null;
+  }
+  next.add(stageId);
+  return next;
+};
+
+/**
+ * 次の工程を完了にする（着手できる工程のうち一覧で最初のもの）
+ * すべて完了している場合は最初の状態に戻す（直列の工程で stageIndex が一周するのと同じ）
+ */
+export const completeNextStage = (completed: Set<number>, stages: StageNode[]): Set<number> => {
+  const [next] = getAvailableStageIds(completed, stages);
+  if (next === undefined) {
+    return new Set();
+  }
+  return new Set([...completed, next]);
+};
+
+/**
+ * 完了した工程の工数合計（stageWorkloadHours は一覧の順の工程ごとの工数）
+ */
+export const sumCompletedStageHours = (completed: Set<number>, stages: StageNode[], stageWorkloadHours: number[]): number =>
+  stages.reduce((sum, stage, index) => (completed.has(resolveStageId(stage, index)) ? sum + (stageWorkloadHours[index] || 0) : sum), 0);
+
+/**
+ * 工程IDを一覧の位置（index + 1）に振り直したときの前提工程ID
+ * 削除された工程・後ろに移った工程への指定は外す。prerequisites が未設定の工程は undefined のまま
+ */
+export const resequenceStagePrerequisites = (stages: Array<{ id: unknown; prerequisites?: unknown }>): Array<number[] | undefined> => {
+  const idMap = new Map<number, number>();
+  stages.forEach((stage, index) => {
+    const id = Number(stage.id);
+    if (Number.isFinite(id) && !idMap.has(id)) {
+      idMap.set(id, index + 1);
+    }
+  });
+
+  return stages.map((stage, index) => {
+    if (!Array.isArray(stage.prerequisites)) {
+      return undefined;
+    }
+    const ids = stage.prerequisites.map((id) => idMap.get(Number(id))).filter((id): id is number => id !== undefined && id <= index);
+    return [...new Set(ids)].sort((a, b) => a - b);
+  });
+};
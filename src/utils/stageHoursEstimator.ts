@@ -0,0 +1,170 @@
+import type { WorkProgressHistory } from "@/types/models";
+import type { Work } from "@/types/work";
+import { formatLocalDate } from "@/utils/dateUtils";
+import { isLinearStageFlow, resolveStageId } from "@/utils/stageGraph";
+import { normalizeUnitStageCounts } from "@/utils/workProgressUtils";
+import type { StageWorkloadMetrics } from "@/utils/workStoreHelpers";
+
+export interface StageHoursEstimate {
+  stageIndex: number;
+  /** 実績から推定した1コマあたりの工数（時間）。サンプルがない場合はnull */
+  estimatedHours: number | null;
+  /** 推定に使用した完了コマ数 */
+  sampleUnits: number;
+  /** 推定に使用した作業日数 */
+  sampleDays: number;
+}
+
+interface StageHoursEstimationOptions {
+  /** 作品ごとの工数設定（配分の重み付けに使用） */
+  resolveMetrics: (work: Work) => StageWorkloadMetrics | null;
+  /** 日付（YYYY-MM-DD）ごとの作業可能時間 */
+  getWorkableHours: (date: string) => number;
+  /** 推定する工程数 */
+  stageCount: number;
+}
+
+interface DailyStageProgress {
+  stageIndex: number;
+  units: number;
+  /** 設定工数 × コマ数（同日に複数工程が進んだ場合の配分比） */
+  weight: number;
+}
+
+/**
+ * 進捗履歴の1エントリから「各工程を終えたコマ数」を算出
+ * 工数計算（calculateActualWorkHours）と同じく、stageIndex k のコマは工程0〜kを終えたものとして扱う
+ * 前提工程で分岐する作品は、記録された工程ごとの完了コマ数（completedStageCounts）をそのまま使う
+ */
+const countCompletedUnitsByStage = (entry: WorkProgressHistory, metrics: StageWorkloadMetrics): number[] => {
+  const stageCount = metrics.stageWorkloadHours.length;
+  if (Array.isArray(entry.completedStageCounts)) {
+    const completedById = new Map(entry.completedStageCounts.map((item) => [Number(item.stageId), Number(item.count) || 0]));
+    return metrics.stageWorkloads.map((stage, index) => completedById.get(resolveStageId(stage, index)) ?? 0);
+  }
+
+  const counts = normalizeUnitStageCounts(entry.unitStageCounts, metrics);
+  const unitsAtIndex = new Array(stageCount + 1).fill(0);
+
+  counts.forEach((count, index) => {
+    const position = count.stageId === null ? stageCount : index;
+    unitsAtIndex[Math.min(position, stageCount)] += count.count;
+  });
+
+  return Array.from({ length: stageCount }, (_, stage) => {
+    const threshold = Math.max(stage, 1);
+    return unitsAtIndex.slice(threshold).reduce((sum, value) => sum + value, 0);
+  });
+};
+
+/**
+ * 分岐・並行のある作品の工程完了イベントから、日付（YYYY-MM-DD）ごとに各工程を終えたコマ数を集計
+ * 同じ日に完了を取り消した分は差し引く
+ */
+const countCompletedUnitsByDate = (work: Work, metrics: StageWorkloadMetrics): Map<string, number[]> => {
+  const indexById = new Map(metrics.stageWorkloads.map((stage, index) => [resolveStageId(stage, index), index]));
+  const countsByDate = new Map<string, number[]>();
+
+  (work.stageTransitions ?? []).forEach((event) => {
+    const stageIndex = event.stageId === undefined ? undefined : indexById.get(event.stageId);
+    if (stageIndex === undefined) {
+      return;
+    }
+    const date = formatLocalDate(new Date(event.timestamp));
+    const counts = countsByDate.get(date) ?? new Array(metrics.stageWorkloads.length).fill(0);
+    counts[stageIndex] += event.completed ? 1 : -1;
+    countsByDate.set(date, counts);
+  });
+
+  return countsByDate;
+};
+
+/**
+ * 進捗履歴と日ごとの作業可能時間から、工程ごとの実績工数（1コマあたり）を推定
+ * 進捗を記録した日の作業可能時間をすべて作業に充てたとみなし、
+ * その日に進んだコマ数を設定工数の比で工程ごとに按分して集計する
+ * 前提工程で分岐する作品は、工程完了イベントを記録し始めた日以降はイベントから各工程を終えたコマ数を数える
+ */
+export const estimateStageHoursFromHistory = (works: Work[], options: StageHoursEstimationOptions): StageHoursEstimate[] => {
+  const { resolveMetrics, getWorkableHours, stageCount } = options;
+  const progressByDate = new Map<string, DailyStageProgress[]>();
+
+  works.forEach((work) => {
+    const metrics = resolveMetrics(work);
+    if (!metrics) {
+      return;
+    }
+
+    const completionsByDate = isLinearStageFlow(metrics.stageWorkloads) ? new Map<string, number[]>() : countCompletedUnitsByDate(work, metrics);
+    const firstEventDate = [...completionsByDate.keys()].sort()[0];
+    const history = [...(work.progressHistory ?? [])]
+      .filter((entry) => Array.isArray(entry.unitStageCounts) && entry.unitStageCounts.length > 0)
+      .filter((entry) => firstEventDate === undefined || entry.date < firstEventDate)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (history.length === 0 && completionsByDate.size === 0) {
+      return;
+    }
+
+    // 工数未設定の工程は設定済み工程の平均で重み付けする（未設定同士は同じ重み）
+    const configuredHours = metrics.stageWorkloadHours.filter((hours) => hours > 0);
+    const fallbackHours = configuredHours.length > 0 ? configuredHours.reduce((sum, hours) => sum + hours, 0) / configuredHours.length : 1;
+    const weightHours = metrics.stageWorkloadHours.map((hours) => (hours > 0 ? hours : fallbackHours));
+    const addDailyProgress = (date: string, completedUnits: number[]) => {
+      const daily = progressByDate.get(date) ?? [];
+      completedUnits.forEach((units, stageIndex) => {
+        if (units <= 0 || stageIndex >= stageCount) {
+          return;
+        }
+        daily.push({ stageIndex, units, weight: units * weightHours[stageIndex] });
+      });
+      if (daily.length > 0) {
+        progressByDate.set(date, daily);
+      }
+    };
+
+    // 作成日に記録が始まっている作品は、作成時点（全コマ未着手）を起点にできる
+    const createdDate = work.createdAt ? work.createdAt.slice(0, 10) : "";
+    let previous: number[] | null = history[0]?.date === createdDate ? new Array(metrics.stageWorkloadHours.length).fill(0) : null;
+
+    history.forEach((entry) => {
+      const current = countCompletedUnitsByStage(entry, metrics);
+      if (previous) {
+        addDailyProgress(
+          entry.date,
+          current.map((completed, stageIndex) => completed - (previous?.[stageIndex] ?? 0)),
+        );
+      }
+      previous = current;
+    });
+
+    completionsByDate.forEach((completedUnits, date) => addDailyProgress(date, completedUnits));
+  });
+
+  const allocatedHours = new Array(stageCount).fill(0);
+  const sampleUnits = new Array(stageCount).fill(0);
+  const sampleDays = Array.from({ length: stageCount }, () => new Set<string>());
+
+  progressByDate.forEach((daily, date) => {
+    const capacity = getWorkableHours(date);
+    // 作業可能時間が0の日に進んだ分は費やした時間が分からないため除外
+    if (!(capacity > 0)) {
+      return;
+    }
+
+    const totalWeight = daily.reduce((sum, item) => sum + item.weight, 0);
+
+    daily.forEach((item) => {
+      const share = item.weight / totalWeight;
+      allocatedHours[item.stageIndex] += capacity * share;
+      sampleUnits[item.stageIndex] += item.units;
+      sampleDays[item.stageIndex].add(date);
+    });
+  });
+
+  return Array.from({ length: stageCount }, (_, stageIndex) => ({
+    stageIndex,
+    estimatedHours: sampleUnits[stageIndex] > 0 ? Math.round((allocatedHours[stageIndex] / sampleUnits[stageIndex]) * 10) / 10 : null,
+    sampleUnits: sampleUnits[stageIndex],
+    sampleDays: sampleDays[stageIndex].size,
+  }));
+};
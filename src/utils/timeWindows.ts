@@ -0,0 +1,116 @@
+/**
+ * 1日の中の時間帯（HH:MM形式。終了は "24:00" まで指定可能）
+ */
+export interface WorkTimeWindow {
+  start: string;
+  end: string;
+  /** 予定名など（一部作業不可の時間帯に使用） */
+  label?: string;
+}
+
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * "HH:MM" を0時からの分数に変換（不正な値はnull）
+ */
+export const parseTimeToMinutes = (value: string): number | null => {
+  const match = TIME_PATTERN.exec(value?.trim() ?? "");
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (minutes >= 60 || hours > 24 || (hours === 24 && minutes > 0)) {
+    return null;
+  }
+  return hours * 60 + minutes;
+};
+
+export const formatMinutesAsTime = (minutes: number): string => {
+  const clamped = Math.max(0, Math.min(MINUTES_PER_DAY, Math.round(minutes)));
+  return `${String(Math.floor(clamped / 60)).padStart(2, "0")}:${String(clamped % 60).padStart(2, "0")}`;
+};
+
+/** 開始が終了より前の有効な時間帯かどうか */
+export const isValidTimeWindow = (window: WorkTimeWindow): boolean => {
+  const start = parseTimeToMinutes(window.start);
+  const end = parseTimeToMinutes(window.end);
+  return start !== null && end !== null && start < end;
+};
+
+type MinuteRange = [number, number];
+
+const toMinuteRanges = (windows: WorkTimeWindow[] = []): MinuteRange[] =>
+  windows
+    .filter(isValidTimeWindow)
+    .map((window) => [parseTimeToMinutes(window.start) as number, parseTimeToMinutes(window.end) as number] as MinuteRange)
+    .sort((a, b) => a[0] - b[0])
+    .reduce<MinuteRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+      return merged;
+    }, []);
+
+/**
+ * 時間帯を開始順に並べ、重なりを結合する
+ */
+export const normalizeTimeWindows = (windows: WorkTimeWindow[] = []): WorkTimeWindow[] =>
+  toMinuteRanges(windows).map(([start, end]) => ({ start: formatMinutesAsTime(start), end: formatMinutesAsTime(end) }));
+
+/**
+ * 時間帯の合計時間（重なりは1回だけ数える）
+ */
+export const calculateWindowHours = (windows: WorkTimeWindow[] = []): number => {
+  const minutes = toMinuteRanges(windows).reduce((sum, [start, end]) => sum + (end - start), 0);
+  return Math.round((minutes / 60) * 100) / 100;
+};
+
+/**
+ * 作業時間帯から作業不可の時間帯を差し引く
+ */
+export const subtractTimeWindows = (windows: WorkTimeWindow[] = [], blocks: WorkTimeWindow[] = []): WorkTimeWindow[] => {
+  const blockRanges = toMinuteRanges(blocks);
+
+  const remaining = toMinuteRanges(windows).flatMap(([start, end]) =>
+    blockRanges.reduce<MinuteRange[]>(
+      (pieces, [blockStart, blockEnd]) =>
+        pieces.flatMap(([pieceStart, pieceEnd]) => {
+          if (blockEnd <= pieceStart || blockStart >= pieceEnd) {
+            return [[pieceStart, pieceEnd] as MinuteRange];
+          }
+          const result: MinuteRange[] = [];
+          if (blockStart > pieceStart) result.push([pieceStart, blockStart]);
+          if (blockEnd < pieceEnd) result.push([blockEnd, pieceEnd]);
+          return result;
+        }),
+      [[start, end]],
+    ),
+  );
+
+  return remaining.map(([start, end]) => ({ start: formatMinutesAsTime(start), end: formatMinutesAsTime(end) }));
+};
+
+/**
+ * 保存データから時間帯の配列を取り出す（不正な要素は除外）
+ */
+export const sanitizeTimeWindows = (raw: unknown): WorkTimeWindow[] => {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+  return raw.flatMap((item) => {
+    if (!item || typeof item !== "object") {
+      return [];
+    }
+    const data = item as Record<string, unknown>;
+    const window: WorkTimeWindow = { start: String(data.start ?? ""), end: String(data.end ?? "") };
+    if (typeof data.label === "string" && data.label.trim()) {
+      window.label = data.label.trim();
+    }
+    return isValidTimeWindow(window) ? [window] : [];
+  });
+};
@@ -0,0 +1,84 @@
+import type { StageTransitionEvent, WorkProgressHistory } from "@/types/models";
+import type { Work, WorkUnit } from "@/types/work";
+import { MAX_STAGE_TRANSITIONS } from "@/utils/workSchema";
+import { collectLeafUnits } from "@/utils/workUtils";
+
+/**
+ * 進捗履歴を日付単位で和集合にする（同じ日付はタイムスタンプが新しい方を採用）
+ */
+export const mergeProgressHistory = (local: WorkProgressHistory[] = [], remote: WorkProgressHistory[] = []): WorkProgressHistory[] => {
+  const byDate = new Map<string, WorkProgressHistory>();
+
+  [...remote, ...local].forEach((entry) => {
+    const existing = byDate.get(entry.date);
+    if (!existing || (entry.timestamp ?? 0) >= (existing.timestamp ?? 0)) {
+      byDate.set(entry.date, entry);
+    }
+  });
+
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * 工程変更イベントを和集合にする（同じユニット・日時・遷移・工程の完了のイベントは1件にまとめる）
+ * 保存できる件数を超えた分は古いものから削除する
+ */
+export const mergeStageTransitions = (local: StageTransitionEvent[] = [], remote: StageTransitionEvent[] = []): StageTransitionEvent[] => {
+  const byKey = new Map<string, StageTransitionEvent>();
+  [...remote, ...local].forEach((event) => {
+    byKey.set(`${event.unitId}:${event.timestamp}:${event.fromStage}:${event.toStage}:${event.stageId ?? ""}:${event.completed ?? ""}`, event);
+  });
+  return [...byKey.values()].sort((a, b) => a.timestamp - b.timestamp).slice(-MAX_STAGE_TRANSITIONS);
+};
+
+// 最下位ユニットの進捗（stageIndex と工程ごとの完了記録）を比較用の文字列にする
+const describeLeafProgress = (unit: WorkUnit): string => `${unit.stageIndex ?? 0}:${[...(unit.completedStageIds ?? [])].sort((a, b) => a - b).join(",")}`;
+
+/**
+ * 最下位ユニットの進捗を比較し、値が異なるユニット数を数える
+ */
+export const countDivergedLeafUnits = (local: Work, remote: Work): number => {
+  const remoteStages = new Map(collectLeafUnits(remote.units).map((unit) => [unit.id, describeLeafProgress(unit)]));
+  return collectLeafUnits(local.units).filter((unit) => remoteStages.has(unit.id) && remoteStages.get(unit.id) !== describeLeafProgress(unit)).length;
+};
+
+const mergeUnits = (units: WorkUnit[], remoteLeaves: Map<string, WorkUnit>): WorkUnit[] =>
+  units.map((unit) => {
+    if (unit.children && unit.children.length > 0) {
+      return { ...unit, children: mergeUnits(unit.children, remoteLeaves) };
+    }
+
+    const remoteUnit = remoteLeaves.get(unit.id);
+    if (!remoteUnit) {
+      return { ...unit };
+    }
+
+    const stageIndex = Math.max(unit.stageIndex ?? 0, remoteUnit.stageIndex ?? 0);
+    // 工程ごとの完了記録はどちらかで完了していれば完了とする
+    if (unit.completedStageIds || remoteUnit.completedStageIds) {
+      const completedStageIds = [...new Set([...(unit.completedStageIds ?? []), ...(remoteUnit.completedStageIds ?? [])])].sort((a, b) => a - b);
+      return { ...unit, stageIndex, completedStageIds };
+    }
+    return { ...unit, stageIndex };
+  });
+
+/**
+ * 競合した2つの版を最下位ユニット単位でマージ
+ * 構造・作品情報はローカルを基準にし、各ユニットはより進んだstageIndexを採用する
+ */
+export const mergeWorkVersions = (local: Work, remote: Work): Work => {
+  const remoteLeaves = new Map(collectLeafUnits(remote.units).map((unit) => [unit.id, unit]));
+
+  return {
+    ...local,
+    units: mergeUnits(local.units, remoteLeaves),
+    progressHistory: mergeProgressHistory(local.progressHistory, remote.progressHistory),
+    stageTransitions: mergeStageTransitions(local.stageTransitions, remote.stageTransitions),
+    // 共有先・公開リンクは保存済みの内容を採用する（共有の変更はその都度保存されるため）
+    members: remote.members,
+    publicShareToken: remote.publicShareToken,
+    // 保存時の版比較は保存済みの版を基準にする
+    revision: remote.revision,
+    updatedAt: remote.updatedAt,
+  };
+};
@@ -1,7 +1,7 @@
 import { normalizeStageColorValue } from "@/modules/works/utils/stageColor";
-import type { UnitStageCountEntry, WorkProgressHistory } from "@/types/models";
+import type { CompletedHoursPoint, UnitStageCountEntry, WorkProgressHistory } from "@/types/models";
 import type { WorkStageWorkload } from "@/types/work";
-import type { StageWorkloadMetrics } from "@/utils/workStoreHelpers";
+import { calculateCompletedHoursFromCompletedStageCounts, calculateCompletedHoursFromStageCounts, type StageWorkloadMetrics } from "@/utils/workStoreHelpers";
 
 export type StageDisplaySource = Array<Pick<WorkStageWorkload, "id" | "label" | "color">>;
 
@@ -113,3 +113,42 @@ export const normalizeUnitStageCounts = (
 
   return normalized;
 };
+
+/**
+ * 進捗履歴の1件から完了工数を求める
+ * 工程ごとのユニット数がない古い記録は completedHours（なければ直前の完了工数）を使う
+ * @returns 完了工数と正規化した工程ごとのユニット数（古い記録では空配列）
+ */
+export const resolveHistoryCompletedHours = (
+  entry: WorkProgressHistory,
+  metrics: StageWorkloadMetrics | null,
+  previousCompleted: number
+): { completedHours: number; unitStageCounts: UnitStageCountEntry[] } => {
+  const hasStructuredStageCounts = Array.isArray(entry.unitStageCounts)
+    && entry.unitStageCounts.some(count => count && typeof count === "object" && "stageId" in count);
+  const unitStageCounts = hasStructuredStageCounts ? normalizeUnitStageCounts(entry.unitStageCounts, metrics) : [];
+
+  if (unitStageCounts.length === 0) {
+    return { completedHours: entry.completedHours ?? previousCompleted, unitStageCounts };
+  }
+
+  // 前提工程で分岐する作品は工程ごとの完了ユニット数から工数を求める
+  const derivedHours = Array.isArray(entry.completedStageCounts)
+    ? calculateCompletedHoursFromCompletedStageCounts(entry.completedStageCounts, metrics)
+    : calculateCompletedHoursFromStageCounts(unitStageCounts, metrics);
+  return { completedHours: Number.isFinite(derivedHours) ? derivedHours : 0, unitStageCounts };
+};
+
+/**
+ * 進捗履歴を記録日ごとの完了工数に変換（記録のない日は含めない）
+ */
+export const buildCompletedHoursSeries = (
+  history: WorkProgressHistory[],
+  metrics: StageWorkloadMetrics | null
+): CompletedHoursPoint[] => {
+  let previousCompleted = 0;
+  return history.map(entry => {
+    previousCompleted = resolveHistoryCompletedHours(entry, metrics, previousCompleted).completedHours;
+    return { date: entry.date, completedHours: Number(previousCompleted.toFixed(2)) };
+  });
+};
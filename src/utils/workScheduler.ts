@@ -0,0 +1,190 @@
+import { addDays } from "./dateUtils";
+
+const EPSILON = 1e-6;
+// 締切のない作品や作業可能時間が足りない場合に計画を打ち切る日数
+const DEFAULT_HORIZON_DAYS = 730;
+
+export interface SchedulableWork {
+  id: string;
+  title: string;
+  /** 締切（YYYY-MM-DD）。未設定の作品は締切ありの作品の後に割り当てる */
+  deadline: string;
+  remainingHours: number;
+  /** 優先度（大きいほど先に割り当てる。未設定は0） */
+  priority?: number;
+}
+
+export interface WorkScheduleOptions {
+  /** 計画の開始日（YYYY-MM-DD） */
+  startDate: string;
+  /** 日付（YYYY-MM-DD）ごとの作業可能時間 */
+  getCapacity: (date: string) => number;
+  horizonDays?: number;
+}
+
+export interface WorkAllocation {
+  workId: string;
+  hours: number;
+}
+
+export interface DailySchedule {
+  date: string;
+  capacity: number;
+  allocations: WorkAllocation[];
+  /** 割り当て後の余り時間 */
+  idleHours: number;
+  /** 割り当てた工数に、締切に間に合わない作品の不足分を上乗せした必要工数 */
+  demand: number;
+  /** 必要工数が作業可能時間を超えているか */
+  overloaded: boolean;
+}
+
+export interface WorkScheduleResult {
+  workId: string;
+  title: string;
+  deadline: string;
+  priority: number;
+  remainingHours: number;
+  /** 割り当て順（0始まり） */
+  order: number;
+  /** 計画上の完了予定日（計画期間内に終わらない場合はnull） */
+  projectedFinishDate: string | null;
+  missesDeadline: boolean;
+  /** 締切日の終わりまでに割り当てられない工数 */
+  shortfallHours: number;
+}
+
+export interface WorkSchedule {
+  days: DailySchedule[];
+  works: WorkScheduleResult[];
+  missedWorkIds: string[];
+}
+
+const roundHours = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * 割り当て順を決定（優先度の高い順 → 締切の早い順 → 締切なし）
+ */
+export const compareSchedulePriority = (a: SchedulableWork, b: SchedulableWork): number => {
+  const priorityDiff = (b.priority ?? 0) - (a.priority ?? 0);
+  if (priorityDiff !== 0) {
+    return priorityDiff;
+  }
+  if (a.deadline !== b.deadline) {
+    if (!a.deadline) return 1;
+    if (!b.deadline) return -1;
+    return a.deadline.localeCompare(b.deadline);
+  }
+  return a.id.localeCompare(b.id);
+};
+
+/**
+ * 複数作品に日ごとの作業可能時間を割り当てる
+ * 各日の作業可能時間を割り当て順に先頭の作品から埋めていき（EDF）、締切に間に合わない作品を検出する
+ */
+export const buildWorkSchedule = (works: SchedulableWork[], options: WorkScheduleOptions): WorkSchedule => {
+  const horizonDays = options.horizonDays ?? DEFAULT_HORIZON_DAYS;
+  const ordered = works.filter((work) => work.remainingHours > EPSILON).sort(compareSchedulePriority);
+
+  const remaining = new Map(ordered.map((work) => [work.id, work.remainingHours]));
+  const finishDates = new Map<string, string>();
+  const shortfalls = new Map<string, number>();
+  const days: DailySchedule[] = [];
+
+  let date = options.startDate;
+  for (let dayIndex = 0; dayIndex < horizonDays && finishDates.size < ordered.length; dayIndex++) {
+    const capacity = Math.max(0, options.getCapacity(date) || 0);
+    let available = capacity;
+    const allocations: WorkAllocation[] = [];
+
+    for (const work of ordered) {
+      if (available <= EPSILON) {
+        break;
+      }
+      const left = remaining.get(work.id) ?? 0;
+      if (left <= EPSILON) {
+        continue;
+      }
+
+      const hours = Math.min(left, available);
+      available -= hours;
+      remaining.set(work.id, left - hours);
+      allocations.push({ workId: work.id, hours: roundHours(hours) });
+
+      if (left - hours <= EPSILON) {
+        finishDates.set(work.id, date);
+      }
+    }
+
+    // 締切日の終わりに残っている工数を不足分として記録
+    ordered.forEach((work) => {
+      if (work.deadline === date) {
+        shortfalls.set(work.id, roundHours(Math.max(0, remaining.get(work.id) ?? 0)));
+      }
+    });
+
+    days.push({ date, capacity, allocations, idleHours: roundHours(available), demand: capacity - available, overloaded: false });
+    date = addDays(date, 1);
+  }
+
+  const lastPlannedDate = days.length > 0 ? days[days.length - 1].date : options.startDate;
+
+  const results = ordered.map((work, order): WorkScheduleResult => {
+    const projectedFinishDate = finishDates.get(work.id) ?? null;
+    // 締切が計画開始日より前の作品は残工数すべてが不足分
+    const shortfallHours = work.deadline && work.deadline < options.startDate ? roundHours(work.remainingHours) : (shortfalls.get(work.id) ?? 0);
+    // 計画期間内に終わらない場合は、締切が計画期間内にあるときのみ遅延とみなす
+    const missesDeadline = !!work.deadline && (projectedFinishDate === null ? work.deadline <= lastPlannedDate : projectedFinishDate > work.deadline);
+
+    return {
+      workId: work.id,
+      title: work.title,
+      deadline: work.deadline,
+      priority: work.priority ?? 0,
+      remainingHours: roundHours(work.remainingHours),
+      order,
+      projectedFinishDate,
+      missesDeadline,
+      shortfallHours: missesDeadline ? Math.max(shortfallHours, 0) : 0,
+    };
+  });
+
+  // 不足分は締切までの作業可能日（なければ締切日）に均等に上乗せする
+  results.forEach((result) => {
+    if (result.shortfallHours <= EPSILON || result.deadline < options.startDate) {
+      return;
+    }
+    const workableDays = days.filter((day) => day.date <= result.deadline && day.capacity > 0);
+    const targets = workableDays.length > 0 ? workableDays : days.filter((day) => day.date === result.deadline);
+    targets.forEach((day) => {
+      day.demand += result.shortfallHours / targets.length;
+    });
+  });
+  days.forEach((day) => {
+    day.overloaded = day.demand > day.capacity + EPSILON;
+    day.demand = roundHours(day.demand);
+  });
+
+  return {
+    days,
+    works: results,
+    missedWorkIds: results.filter((result) => result.missesDeadline).map((result) => result.workId),
+  };
+};
+
+/**
+ * 作品に割り当てた時間を工程別に分割
+ * 残り工数を工程順に消化するものとして、それまでに割り当て済みの時間（consumedHours）の続きから配分する
+ */
+export const splitAllocationByStage = (remainingByStage: number[], consumedHours: number, hours: number): number[] => {
+  let offset = consumedHours;
+  let left = hours;
+
+  return remainingByStage.map((stageHours) => {
+    const skipped = Math.min(offset, stageHours);
+    offset -= skipped;
+    const allocated = Math.min(left, stageHours - skipped);
+    left -= allocated;
+    return roundHours(Math.max(0, allocated));
+  });
+};
@@ -0,0 +1,305 @@
+import type { StageTransitionEvent, UnitStageCounts, WorkProgressHistory } from "@/types/models";
+import type { WorkDocument, WorkUnit } from "@/types/work";
+import { WORK_MEMBER_ROLES, WORK_STATUSES } from "@/types/work";
+import { resolveStageId, validateStagePrerequisites } from "@/utils/stageGraph";
+import { isPublicShareToken } from "@/utils/publicShare";
+
+/**
+ * 作品ドキュメント（WorkDocument）の形式チェック
+ * 保存前に worksStore で検証する。firestore.rules の isValidWork はリストの要素を走査できないため、
+ * 最上位の項目の型・形式と、ユニット・進捗履歴・工程変更イベントの件数の上限だけを同じ条件で確認している
+ * （ユニット階層の形・深さ、進捗履歴と工程変更イベントの各要素はこのモジュールでのみ検証する）
+ */
+
+/** ユニット階層の最大の深さ */
+export const MAX_UNIT_DEPTH = 5;
+
+/** 最上位のユニット数の上限（firestore.rules の isValidWork と同じ値） */
+export const MAX_TOP_LEVEL_UNITS = 1000;
+
+/** 進捗履歴の件数の上限（1日1件のため約10年分。firestore.rules の isValidWork と同じ値） */
+export const MAX_PROGRESS_HISTORY_ENTRIES = 3660;
+
+/** 工程変更イベントの件数の上限（worksStore は超えた分を古いものから削除する。firestore.rules の isValidWork と同じ値） */
+export const MAX_STAGE_TRANSITIONS = 5000;
+
+// エラーメッセージに含める違反の最大件数
+const MAX_REPORTED_VIOLATIONS = 3;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * 作品ドキュメントの形式に違反していた場合のエラー
+ */
+export class WorkValidationError extends Error {
+  readonly violations: string[];
+
+  constructor(violations: string[]) {
+    const listed = violations.slice(0, MAX_REPORTED_VIOLATIONS).join(" / ");
+    const rest = violations.length > MAX_REPORTED_VIOLATIONS ? `（他 ${violations.length - MAX_REPORTED_VIOLATIONS} 件）` : "";
+    super(`作品データに問題があるため保存できませんでした: ${listed}${rest}`);
+    this.name = "WorkValidationError";
+    this.violations = violations;
+  }
+}
+
+/** YYYY-MM-DD 形式の実在する日付か */
+const isValidDate = (value: unknown): value is string => {
+  if (typeof value !== "string" || !DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+const isValidDateTime = (value: unknown): value is string => typeof value === "string" && ISO_DATE_TIME_PATTERN.test(value) && !Number.isNaN(new Date(value).getTime());
+
+const isNonNegativeNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+const isNonNegativeInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+/**
+ * ユニット階層を検証
+ * 最下位のユニットは工程（stageIndex）、それ以外は子ユニット（children）のどちらか一方だけを持つ
+ */
+const validateUnits = (units: unknown, stageIds: number[], violations: string[]) => {
+  const stageCount = stageIds.length;
+  const knownStageIds = new Set(stageIds);
+  if (!Array.isArray(units)) {
+    violations.push("ユニットの一覧が配列ではありません。");
+    return;
+  }
+
+  if (units.length > MAX_TOP_LEVEL_UNITS) {
+    violations.push(`最上位のユニットが多すぎます（最大 ${MAX_TOP_LEVEL_UNITS} 件）。`);
+  }
+
+  const seenIds = new Set<string>();
+  let depthExceeded = false;
+
+  const traverse = (items: WorkUnit[], depth: number, parentPath: string) => {
+    items.forEach((unit, position) => {
+      const path = parentPath ? `${parentPath}-${position + 1}` : `${position + 1}`;
+
+      if (!unit || typeof unit !== "object") {
+        violations.push(`ユニット ${path} の形式が正しくありません。`);
+        return;
+      }
+      if (typeof unit.id !== "string" || unit.id.trim().length === 0) {
+        violations.push(`ユニット ${path} のIDがありません。`);
+      } else if (seenIds.has(unit.id)) {
+        violations.push(`ユニット ${path} のIDが他のユニットと重複しています。`);
+      } else {
+        seenIds.add(unit.id);
+      }
+      if (!Number.isInteger(unit.index) || unit.index < 1) {
+        violations.push(`ユニット ${path} の番号が正しくありません。`);
+      }
+
+      const hasStage = unit.stageIndex !== undefined;
+      const hasChildren = unit.children !== undefined;
+      if (hasStage && hasChildren) {
+        violations.push(`ユニット ${path} に工程と子ユニットの両方が設定されています。`);
+      } else if (!hasStage && !hasChildren) {
+        violations.push(`ユニット ${path} に工程も子ユニットも設定されていません。`);
+      }
+
+      if (hasStage) {
+        if (!isNonNegativeInteger(unit.stageIndex)) {
+          violations.push(`ユニット ${path} の工程が正しくありません。`);
+        } else if (stageCount > 0 && unit.stageIndex >= stageCount) {
+          violations.push(`ユニット ${path} の工程（${unit.stageIndex + 1}）が工程数（${stageCount}）を超えています。`);
+        }
+        if (unit.completedStageIds !== undefined) {
+          const validCompleted =
+            Array.isArray(unit.completedStageIds) && unit.completedStageIds.every((stageId) => Number.isInteger(stageId) && (stageCount === 0 || knownStageIds.has(stageId)));
+          if (!validCompleted) {
+            violations.push(`ユニット ${path} の完了した工程が正しくありません。`);
+          }
+        }
+        if (unit.assigneeId !== undefined && (typeof unit.assigneeId !== "string" || unit.assigneeId.length === 0)) {
+          violations.push(`ユニット ${path} の担当者が正しくありません。`);
+        }
+        if (unit.stageAssignees !== undefined) {
+          const validAssignees =
+            Array.isArray(unit.stageAssignees) &&
+            unit.stageAssignees.every((entry) => entry && Number.isInteger(entry.stageId) && typeof entry.collaboratorId === "string" && entry.collaboratorId.length > 0);
+          if (!validAssignees) {
+            violations.push(`ユニット ${path} の工程ごとの担当者が正しくありません。`);
+          }
+        }
+      }
+
+      if (hasChildren) {
+        if (!Array.isArray(unit.children)) {
+          violations.push(`ユニット ${path} の子ユニットが配列ではありません。`);
+        } else if (depth >= MAX_UNIT_DEPTH) {
+          depthExceeded = true;
+        } else {
+          traverse(unit.children, depth + 1, path);
+        }
+      }
+    });
+  };
+
+  traverse(units as WorkUnit[], 1, "");
+
+  if (depthExceeded) {
+    violations.push(`ユニットの階層が深すぎます（最大 ${MAX_UNIT_DEPTH} 階層）。`);
+  }
+};
+
+const isValidStageCounts = (counts: unknown): boolean =>
+  Array.isArray(counts) && (counts as UnitStageCounts).every((item) => item && (item.stageId === null || Number.isFinite(item.stageId)) && isNonNegativeInteger(item.count));
+
+const validateProgressHistory = (history: unknown, violations: string[]) => {
+  if (!Array.isArray(history)) {
+    violations.push("進捗履歴が配列ではありません。");
+    return;
+  }
+  if (history.length > MAX_PROGRESS_HISTORY_ENTRIES) {
+    violations.push(`進捗履歴が多すぎます（最大 ${MAX_PROGRESS_HISTORY_ENTRIES} 件）。`);
+  }
+
+  (history as WorkProgressHistory[]).forEach((entry, position) => {
+    const label = `進捗履歴 ${position + 1} 件目`;
+    if (!entry || typeof entry !== "object") {
+      violations.push(`${label}の形式が正しくありません。`);
+      return;
+    }
+    if (!isValidDate(entry.date)) {
+      violations.push(`${label}の記録日（${String(entry.date)}）が YYYY-MM-DD 形式ではありません。`);
+    }
+    if (!isNonNegativeNumber(entry.timestamp)) {
+      violations.push(`${label}の記録日時が正しくありません。`);
+    }
+    if (entry.completedHours !== undefined && !isNonNegativeNumber(entry.completedHours)) {
+      violations.push(`${label}の作業済み工数が正しくありません。`);
+    }
+    if (entry.unitStageCounts !== undefined && !isValidStageCounts(entry.unitStageCounts)) {
+      violations.push(`${label}の工程ごとのユニット数が正しくありません。`);
+    }
+    if (entry.completedStageCounts !== undefined && !isValidStageCounts(entry.completedStageCounts)) {
+      violations.push(`${label}の工程ごとの完了ユニット数が正しくありません。`);
+    }
+  });
+};
+
+const validateStageTransitions = (transitions: unknown, violations: string[]) => {
+  if (!Array.isArray(transitions)) {
+    violations.push("工程の変更履歴が配列ではありません。");
+    return;
+  }
+  if (transitions.length > MAX_STAGE_TRANSITIONS) {
+    violations.push(`工程の変更履歴が多すぎます（最大 ${MAX_STAGE_TRANSITIONS} 件）。`);
+  }
+
+  const invalid = (transitions as StageTransitionEvent[]).some(
+    (event) =>
+      !event ||
+      typeof event.unitId !== "string" ||
+      !isNonNegativeInteger(event.fromStage) ||
+      !isNonNegativeInteger(event.toStage) ||
+      !isNonNegativeNumber(event.timestamp) ||
+      (event.stageId !== undefined && (!Number.isInteger(event.stageId) || typeof event.completed !== "boolean")),
+  );
+  if (invalid) {
+    violations.push("工程の変更履歴に正しくない記録が含まれています。");
+  }
+};
+
+/**
+ * 共有先を検証（memberIds は members のキーと一致している必要がある）
+ */
+const validateMembers = (document: WorkDocument, violations: string[]) => {
+  if (document.members === undefined && document.memberIds === undefined) {
+    return;
+  }
+  const members = document.members ?? {};
+  if (typeof members !== "object" || Array.isArray(members) || !Object.values(members).every((role) => WORK_MEMBER_ROLES.includes(role))) {
+    violations.push("共有先の権限が正しくありません。");
+    return;
+  }
+  const memberIds = document.memberIds ?? [];
+  const keys = Object.keys(members);
+  if (!Array.isArray(memberIds) || memberIds.length !== keys.length || !keys.every((key) => memberIds.includes(key))) {
+    violations.push("共有先の一覧が正しくありません。");
+  }
+};
+
+/**
+ * 作品ドキュメントを検証し、違反内容を日本語のメッセージで返す（問題がなければ空配列）
+ */
+export const validateWorkDocument = (document: WorkDocument): string[] => {
+  const violations: string[] = [];
+
+  if (typeof document.title !== "string" || document.title.trim().length === 0) {
+    violations.push("タイトルが入力されていません。");
+  }
+  if (!WORK_STATUSES.includes(document.status)) {
+    violations.push(`ステータス（${String(document.status)}）が正しくありません。`);
+  }
+  if (document.startDate !== "" && !isValidDate(document.startDate)) {
+    violations.push(`開始日（${String(document.startDate)}）が YYYY-MM-DD 形式の日付ではありません。`);
+  }
+  if (document.deadline !== "" && !isValidDate(document.deadline)) {
+    violations.push(`締切日（${String(document.deadline)}）が YYYY-MM-DD 形式の日付ではありません。`);
+  }
+  if (!isValidDateTime(document.createdAt)) {
+    violations.push("作成日時が ISO 8601 形式ではありません。");
+  }
+  if (!isValidDateTime(document.updatedAt)) {
+    violations.push("更新日時が ISO 8601 形式ではありません。");
+  }
+  if (!isNonNegativeInteger(document.totalUnits)) {
+    violations.push("ユニット数が正しくありません。");
+  }
+  if (!Array.isArray(document.defaultCounts) || !document.defaultCounts.every(isNonNegativeInteger)) {
+    violations.push("階層ごとのデフォルト数が正しくありません。");
+  }
+  if (document.primaryGranularityId !== null && typeof document.primaryGranularityId !== "string") {
+    violations.push("基準の粒度が正しくありません。");
+  }
+  if (!isNonNegativeNumber(document.unitEstimatedHours) || !isNonNegativeNumber(document.totalEstimatedHours)) {
+    violations.push("見積もり工数が正しくありません。");
+  }
+  if (document.priority !== undefined && !Number.isInteger(document.priority)) {
+    violations.push("優先度が正しくありません。");
+  }
+  if (document.revision !== undefined && !isNonNegativeInteger(document.revision)) {
+    violations.push("版数が正しくありません。");
+  }
+
+  if (document.publicShareToken !== undefined && !isPublicShareToken(document.publicShareToken)) {
+    violations.push("公開リンクのトークンが正しくありません。");
+  }
+
+  validateMembers(document, violations);
+
+  const stageWorkloads = document.workStageWorkloads ?? [];
+  if (!Array.isArray(stageWorkloads)) {
+    violations.push("作品の工程設定が配列ではありません。");
+  } else {
+    violations.push(...validateStagePrerequisites(stageWorkloads));
+  }
+  if (document.workGranularities !== undefined && !Array.isArray(document.workGranularities)) {
+    violations.push("作品の粒度設定が配列ではありません。");
+  }
+
+  validateUnits(document.units, Array.isArray(stageWorkloads) ? stageWorkloads.map(resolveStageId) : [], violations);
+  validateProgressHistory(document.progressHistory ?? [], violations);
+  validateStageTransitions(document.stageTransitions ?? [], violations);
+
+  return violations;
+};
+
+/**
+ * 作品ドキュメントが形式に違反していれば WorkValidationError を投げる
+ */
+export const assertValidWorkDocument = (document: WorkDocument): void => {
+  const violations = validateWorkDocument(document);
+  if (violations.length > 0) {
+    throw new WorkValidationError(violations);
+  }
+};
@@ -1,5 +1,6 @@
-import type { Work, WorkDocument, WorkUnit, LegacyWork, LegacyPage, LegacyPanel } from "@/types/work";
-import { WORK_STATUSES } from "@/types/work";
+import type { StageTransitionEvent } from "@/types/models";
+import type { Work, WorkDocument, WorkUnit, LegacyWork, LegacyPage, LegacyPanel, UnitStageAssignee, WorkMemberRole } from "@/types/work";
+import { WORK_MEMBER_ROLES, WORK_STATUSES } from "@/types/work";
 import { generateId } from "@/utils/id";
 
 /**
@@ -27,11 +28,21 @@ export const normalizeUnit = (raw: unknown, fallbackIndex: number, isLeafLevel?:
     // 最下位粒度: stageIndexを持つ
     const stageRaw = Number(data.stageIndex);
     const stageIndex = Number.isFinite(stageRaw) && stageRaw >= 0 ? Math.floor(stageRaw) : 0;
+    // 前提工程で分岐する作品のみ、工程ごとの完了記録を持つ
+    const completedStageIds = Array.isArray(data.completedStageIds) ? [...new Set(data.completedStageIds.map(Number).filter(Number.isInteger))] : null;
+    // 担当者（未設定は本人）
+    const assigneeId = typeof data.assigneeId === "string" && data.assigneeId.length > 0 ? data.assigneeId : null;
+    const stageAssignees = Array.isArray(data.stageAssignees)
+      ? (data.stageAssignees as UnitStageAssignee[]).filter((entry) => entry && Number.isInteger(entry.stageId) && typeof entry.collaboratorId === "string" && entry.collaboratorId.length > 0)
+      : [];
 
     return {
       id,
       index,
       stageIndex,
+      ...(completedStageIds ? { completedStageIds } : {}),
+      ...(assigneeId ? { assigneeId } : {}),
+      ...(stageAssignees.length > 0 ? { stageAssignees: stageAssignees.map((entry) => ({ stageId: entry.stageId, collaboratorId: entry.collaboratorId })) } : {}),
     } satisfies WorkUnit;
   } else {
     // 中間粒度: childrenを持つ
@@ -52,6 +63,50 @@ export const normalizeUnit = (raw: unknown, fallbackIndex: number, isLeafLevel?:
   }
 };
 
+/**
+ * 工程変更イベントを正規化（不正な要素は除外）
+ */
+export const normalizeStageTransitions = (raw: unknown): StageTransitionEvent[] => {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw.flatMap((item) => {
+    if (!item || typeof item !== "object") {
+      return [];
+    }
+    const data = item as Record<string, unknown>;
+    const fromStage = Number(data.fromStage);
+    const toStage = Number(data.toStage);
+    const timestamp = Number(data.timestamp);
+    if (typeof data.unitId !== "string" || !Number.isFinite(fromStage) || !Number.isFinite(toStage) || !Number.isFinite(timestamp)) {
+      return [];
+    }
+    const event: StageTransitionEvent = { unitId: data.unitId, fromStage: Math.floor(fromStage), toStage: Math.floor(toStage), timestamp };
+    const stageId = Number(data.stageId);
+    if (data.stageId !== undefined && Number.isInteger(stageId) && typeof data.completed === "boolean") {
+      event.stageId = stageId;
+      event.completed = data.completed;
+    }
+    return [event];
+  });
+};
+
+/**
+ * 共有先を正規化（不正な権限は除外）
+ */
+export const normalizeWorkMembers = (raw: unknown): Record<string, WorkMemberRole> => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(raw as Record<string, unknown>).filter(
+      (entry): entry is [string, WorkMemberRole] => entry[0].length > 0 && WORK_MEMBER_ROLES.includes(entry[1] as WorkMemberRole),
+    ),
+  );
+};
+
 /**
  * Firestoreドキュメントを作品オブジェクトにマッピング
  */
@@ -137,9 +192,14 @@ export const mapDocumentToWork = (item: WorkDocument & { id: string }): Work =>
     unitEstimatedHours,
     totalEstimatedHours,
     units,
+    priority: Number.isFinite(Number(item.priority)) ? Math.round(Number(item.priority)) : 0,
     workGranularities: Array.isArray(item.workGranularities) ? item.workGranularities : [],
     workStageWorkloads: Array.isArray(item.workStageWorkloads) ? item.workStageWorkloads : [],
     progressHistory: Array.isArray(item.progressHistory) ? item.progressHistory : [],
+    stageTransitions: normalizeStageTransitions(item.stageTransitions),
+    revision: Number.isFinite(Number(item.revision)) && Number(item.revision) > 0 ? Math.floor(Number(item.revision)) : 0,
+    members: normalizeWorkMembers(item.members),
+    ...(typeof item.publicShareToken === "string" && item.publicShareToken.length > 0 ? { publicShareToken: item.publicShareToken } : {}),
   };
 };
 
@@ -148,6 +208,9 @@ interface SerializedWorkUnit {
   index: number;
   children?: SerializedWorkUnit[];
   stageIndex?: number;
+  completedStageIds?: number[];
+  assigneeId?: string;
+  stageAssignees?: UnitStageAssignee[];
 }
 
 /**
@@ -162,6 +225,15 @@ export const serializeWorkUnit = (unit: WorkUnit): SerializedWorkUnit => {
   if (unit.stageIndex !== undefined) {
     // 最下位粒度
     result.stageIndex = unit.stageIndex;
+    if (unit.completedStageIds) {
+      result.completedStageIds = [...unit.completedStageIds];
+    }
+    if (unit.assigneeId) {
+      result.assigneeId = unit.assigneeId;
+    }
+    if (unit.stageAssignees && unit.stageAssignees.length > 0) {
+      result.stageAssignees = unit.stageAssignees.map((entry) => ({ ...entry }));
+    }
   } else if (unit.children) {
     // 中間粒度
     result.children = unit.children.map(serializeWorkUnit);
@@ -186,7 +258,15 @@ export const serializeWork = (work: Work): WorkDocument => ({
   unitEstimatedHours: work.unitEstimatedHours,
   totalEstimatedHours: work.totalEstimatedHours,
   units: work.units.map(serializeWorkUnit),
+  priority: work.priority ?? 0,
   workGranularities: work.workGranularities || [],
   workStageWorkloads: work.workStageWorkloads || [],
   progressHistory: work.progressHistory || [],
+  stageTransitions: work.stageTransitions || [],
+  revision: work.revision ?? 0,
+  // 共有先がある場合のみ保存（memberIds は共有された側での検索用）
+  ...(work.members && Object.keys(work.members).length > 0
+    ? { members: { ...work.members }, memberIds: Object.keys(work.members).sort() }
+    : {}),
+  ...(work.publicShareToken ? { publicShareToken: work.publicShareToken } : {}),
 });
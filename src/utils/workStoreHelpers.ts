@@ -1,5 +1,6 @@
 import type { UnitStageCounts } from "@/types/models";
-import type { Work, WorkGranularity, WorkStageWorkload, WorkUnit } from "@/types/work";
+import type { Work, WorkGranularity, WorkMemberRole, WorkStageWorkload, WorkUnit } from "@/types/work";
+import { getCompletedStageIds, resolveStageId, sumCompletedStageHours } from "@/utils/stageGraph";
 import { collectLeafUnits } from "@/utils/workUtils";
 
 /**
@@ -12,6 +13,29 @@ export const mapError = (error: unknown, fallback: string): string => {
   return fallback;
 };
 
+/**
+ * 保存済みの作品が読み込み後に他の端末で更新されていた場合のエラー
+ */
+export class WorkConflictError extends Error {
+  constructor(message = "他の端末でこの作品が更新されています。内容を確認して保存し直してください。") {
+    super(message);
+    this.name = "WorkConflictError";
+  }
+}
+
+/**
+ * 保存済みの版が読み込み時点の版から変わっているか
+ * 版数を持たない旧データは更新日時で比較する
+ */
+export const hasWorkVersionChanged = (stored: Pick<Work, "revision" | "updatedAt">, base: Pick<Work, "revision" | "updatedAt">): boolean => {
+  const storedRevision = stored.revision ?? 0;
+  const baseRevision = base.revision ?? 0;
+  if (storedRevision > 0 || baseRevision > 0) {
+    return storedRevision !== baseRevision;
+  }
+  return typeof stored.updatedAt === "string" && stored.updatedAt !== base.updatedAt;
+};
+
 /**
  * Firestore コレクションパスを構築
  */
@@ -23,6 +47,29 @@ export const buildWorkCollectionPath = (userId: string): string => `users/${user
 export const buildWorkDocumentPath = (userId: string, workId: string): string =>
   `${buildWorkCollectionPath(userId)}/${workId}`;
 
+/**
+ * ドキュメントパス（users/{uid}/works/{workId}）から作品の作成者を取得
+ */
+export const parseWorkOwnerId = (path: string): string | null => {
+  const segments = path.split("/");
+  return segments.length === 4 && segments[0] === "users" && segments[2] === "works" ? (segments[1] ?? null) : null;
+};
+
+/**
+ * 作品の保存先のユーザーID（共有された作品は作成者、自分の作品はログイン中のユーザー）
+ */
+export const resolveWorkOwnerId = (work: Pick<Work, "ownerId"> | undefined, userId: string): string => work?.ownerId ?? userId;
+
+/**
+ * ログイン中のユーザーの作品に対する権限（自分の作品は owner、共有されていなければ null）
+ */
+export const getWorkMemberRole = (work: Pick<Work, "ownerId" | "members">, userId: string | null): WorkMemberRole | null => {
+  if (!work.ownerId) {
+    return "owner";
+  }
+  return userId ? (work.members?.[userId] ?? null) : null;
+};
+
 /**
  * 正の整数に正規化
  */
@@ -263,3 +310,58 @@ export const calculateCompletedHoursFromStageCounts = (
 
   return Number(total.toFixed(2));
 };
+
+/**
+ * 工程ごとの完了ユニット数（completedStageCounts）から作業済み工数を計算
+ * 前提工程で分岐する作品の進捗履歴で使用する
+ */
+export const calculateCompletedHoursFromCompletedStageCounts = (
+  completedStageCounts: UnitStageCounts | undefined,
+  metrics: StageWorkloadMetrics | null
+): number => {
+  if (!completedStageCounts || !metrics) {
+    return 0;
+  }
+
+  const hoursById = new Map<number, number>();
+  metrics.stageWorkloads.forEach((stage, index) => {
+    hoursById.set(resolveStageId(stage, index), metrics.stageWorkloadHours[index] || 0);
+  });
+
+  const total = completedStageCounts.reduce((sum, entry) => {
+    const count = Number(entry?.count);
+    if (entry?.stageId === null || !Number.isFinite(count) || count <= 0) {
+      return sum;
+    }
+    return sum + count * (hoursById.get(Number(entry.stageId)) ?? 0);
+  }, 0);
+
+  return Number(total.toFixed(2));
+};
+
+/**
+ * 最下位ユニットの作業済み工数（完了した工程の工数合計）
+ * 直列の工程では stageIndex k（1以上）で cumulativeWorkloads[k] と同じ値になる
+ */
+export const calculateUnitCompletedHours = (unit: WorkUnit, metrics: StageWorkloadMetrics): number =>
+  sumCompletedStageHours(getCompletedStageIds(unit, metrics.stageWorkloads), metrics.stageWorkloads, metrics.stageWorkloadHours);
+
+/**
+ * 工程ごとの残り工数を計算
+ * calculateActualWorkHours と同じく、各ユニットの未完了の工程を残りとみなす
+ * （直列の工程では stageIndex 0 のユニットは全工程、k（1以上）のユニットは工程k+1以降）
+ */
+export const calculateRemainingHoursByStage = (work: Work, metrics: StageWorkloadMetrics): number[] => {
+  const remaining = new Array(metrics.stageWorkloadHours.length).fill(0);
+
+  getAllLeafUnits(work.units).forEach(unit => {
+    const completed = getCompletedStageIds(unit, metrics.stageWorkloads);
+    metrics.stageWorkloads.forEach((stage, index) => {
+      if (!completed.has(resolveStageId(stage, index))) {
+        remaining[index] += metrics.stageWorkloadHours[index] || 0;
+      }
+    });
+  });
+
+  return remaining.map(hours => Number(hours.toFixed(2)));
+};
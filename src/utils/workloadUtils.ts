@@ -1,6 +1,7 @@
 import type { Holiday } from './dateUtils';
-import { isHoliday } from './dateUtils';
-import type { CustomDate } from '@/store/customDatesStore';
+import type { CustomDate, CustomDateRule } from '@/store/customDatesStore';
+import { resolveCustomDate } from './customDateRules';
+import { calculateWindowHours, subtractTimeWindows, type WorkTimeWindow } from './timeWindows';
 
 export const calculatePanelsPerDay = (totalPanels: number, remainingDays: number) => {
   if (remainingDays <= 0) {
@@ -13,6 +14,7 @@ export const calculatePanelsPerDay = (totalPanels: number, remainingDays: number
 interface WorkHourRange {
   day: string;
   hours: number;
+  windows?: WorkTimeWindow[];
 }
 
 interface WorkPaceCalculation {
@@ -26,6 +28,108 @@ interface WorkPaceCalculation {
   paceStatus: 'ahead' | 'on_track' | 'behind' | 'critical';
 }
 
+// 曜日マッピング (0=日曜, 1=月曜, ..., 6=土曜)
+const dayMapping: Record<number, string> = {
+  0: 'sunday',
+  1: 'monday',
+  2: 'tuesday',
+  3: 'wednesday',
+  4: 'thursday',
+  5: 'friday',
+  6: 'saturday'
+};
+
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/**
+ * 曜日設定（または祝日設定）の作業可能時間
+ * 時間帯が設定されている場合はその合計を優先する
+ */
+const resolveDayWorkHours = (workHours: WorkHourRange[], day: string): DayWorkTime => {
+  const entry = workHours.find(wh => wh.day === day);
+  if (entry?.windows && entry.windows.length > 0) {
+    return { hours: calculateWindowHours(entry.windows), windows: entry.windows };
+  }
+  return { hours: entry?.hours ?? 0, windows: null };
+};
+
+/** 指定日の作業可能時間と作業時間帯（時間帯が未設定の場合は null） */
+export interface DayWorkTime {
+  hours: number;
+  windows: WorkTimeWindow[] | null;
+}
+
+/**
+ * 指定日の作業可能時間と作業時間帯を取得する
+ * カスタム日付（日付ごとの設定 → 繰り返しルール）→ 祝日 → 曜日設定の順で判定
+ */
+export function getWorkTimeForDate(
+  date: Date,
+  workHours: WorkHourRange[],
+  holidays: Holiday[] = [],
+  customDates: CustomDate[] = [],
+  customDateRules: CustomDateRule[] = []
+): DayWorkTime {
+  const dateStr = toDateKey(date);
+  const customDate = resolveCustomDate(dateStr, customDates, customDateRules);
+
+  // カスタム日付が「作業不可」の場合は0時間
+  if (customDate && customDate.type === 'unavailable') {
+    return { hours: 0, windows: null };
+  }
+
+  // カスタム日付が「固有作業時間」の場合はその時間を使用（時間帯指定を優先）
+  if (customDate && customDate.type === 'custom-hours') {
+    if (customDate.windows && customDate.windows.length > 0) {
+      return { hours: calculateWindowHours(customDate.windows), windows: customDate.windows };
+    }
+    if (customDate.customHours !== undefined) {
+      return { hours: customDate.customHours, windows: null };
+    }
+  }
+
+  // カスタム休日の場合、holiday設定を適用
+  if (customDate && customDate.type === 'custom-holiday') {
+    return resolveDayWorkHours(workHours, 'holiday');
+  }
+
+  // 祝日チェック（選択中の祝日セットをまとめた holidays のみで判定する）
+  const isHolidayDate = holidays.some(h =>
+    h.date.getFullYear() === date.getFullYear() &&
+    h.date.getMonth() === date.getMonth() &&
+    h.date.getDate() === date.getDate()
+  );
+
+  // 祝日は holiday 設定、それ以外は曜日に応じた作業時間を取得
+  const base = resolveDayWorkHours(workHours, isHolidayDate ? 'holiday' : dayMapping[date.getDay()]);
+
+  // 一部作業不可の場合は作業時間帯から差し引く（時間帯未設定の曜日は合計時間から差し引く）
+  if (customDate && customDate.type === 'partial-unavailable') {
+    const blocks = customDate.blocks ?? [];
+    if (base.windows) {
+      const windows = subtractTimeWindows(base.windows, blocks);
+      return { hours: calculateWindowHours(windows), windows };
+    }
+    return { hours: Math.max(0, base.hours - calculateWindowHours(blocks)), windows: null };
+  }
+
+  return base;
+}
+
+/**
+ * 指定日の作業可能時間を取得する
+ */
+export function getWorkableHoursForDate(
+  date: Date,
+  workHours: WorkHourRange[],
+  holidays: Holiday[] = [],
+  customDates: CustomDate[] = [],
+  customDateRules: CustomDateRule[] = []
+): number {
+  return getWorkTimeForDate(date, workHours, holidays, customDates, customDateRules).hours;
+}
+
 /**
  * 作業ペースを計算する
  */
@@ -35,7 +139,8 @@ export function calculateWorkPace(
   currentProgress: number,
   workHours: WorkHourRange[],
   holidays: Holiday[] = [],
-  customDates: CustomDate[] = []
+  customDates: CustomDate[] = [],
+  customDateRules: CustomDateRule[] = []
 ): WorkPaceCalculation {
   const today = new Date();
   const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
@@ -55,23 +160,6 @@ export function calculateWorkPace(
     };
   }
 
-  // 作業可能時間マップを作成
-  const workHoursMap = new Map<string, number>();
-  workHours.forEach(wh => {
-    workHoursMap.set(wh.day, wh.hours);
-  });
-
-  // 曜日マッピング (0=日曜, 1=月曜, ..., 6=土曜)
-  const dayMapping: Record<number, string> = {
-    0: 'sunday',
-    1: 'monday',
-    2: 'tuesday',
-    3: 'wednesday',
-    4: 'thursday',
-    5: 'friday',
-    6: 'saturday'
-  };
-
   // 今日から締切までの作業可能時間を計算
   let totalWorkableHours = 0;
   let remainingWorkableHours = 0;
@@ -81,49 +169,7 @@ export function calculateWorkPace(
 
   // 本日0時から締切日24時までの全日を含める
   while (currentDate <= endOfDeadline) {
-    const dayOfWeek = currentDate.getDay();
-
-    // カスタム日付の取得（YYYY-MM-DD形式）
-    const dateStr = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}-${String(currentDate.getDate()).padStart(2, '0')}`;
-    const customDate = customDates.find(cd => cd.date === dateStr);
-
-    // カスタム日付が「作業不可」の場合は0時間
-    if (customDate && customDate.type === 'unavailable') {
-      // 作業不可日は0時間として扱う
-      currentDate.setDate(currentDate.getDate() + 1);
-      continue;
-    }
-
-    // カスタム日付が「固有作業時間」の場合はその時間を使用
-    if (customDate && customDate.type === 'custom-hours' && customDate.customHours !== undefined) {
-      totalWorkableHours += customDate.customHours;
-      remainingWorkableHours += customDate.customHours;
-      if (customDate.customHours > 0) {
-        workableDaysCount++;
-      }
-      currentDate.setDate(currentDate.getDate() + 1);
-      continue;
-    }
-
-    // 祝日チェック（祝日を優先）
-    const isHolidayToday = holidays.some(h =>
-      h.date.getFullYear() === currentDate.getFullYear() &&
-      h.date.getMonth() === currentDate.getMonth() &&
-      h.date.getDate() === currentDate.getDate()
-    ) || isHoliday(currentDate);
-
-    let dailyHours = 0;
-
-    // カスタム休日または祝日の場合、holiday設定を適用
-    if (customDate && customDate.type === 'custom-holiday') {
-      dailyHours = workHoursMap.get('holiday') ?? 0;
-    } else if (isHolidayToday) {
-      dailyHours = workHoursMap.get('holiday') ?? 0;
-    } else {
-      // 曜日に応じた作業時間を取得
-      const dayKey = dayMapping[dayOfWeek];
-      dailyHours = workHoursMap.get(dayKey) ?? 0;
-    }
+    const dailyHours = getWorkableHoursForDate(currentDate, workHours, holidays, customDates, customDateRules);
 
     totalWorkableHours += dailyHours;
     remainingWorkableHours += dailyHours;
@@ -136,36 +182,7 @@ export function calculateWorkPace(
   }
 
   // 今日の作業可能時間
-  const todayDayOfWeek = today.getDay();
-  const todayDateStr = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
-  const todayCustomDate = customDates.find(cd => cd.date === todayDateStr);
-
-  let todayWorkableHours = 0;
-
-  // 今日がカスタム日付の「作業不可」の場合は0時間
-  if (todayCustomDate && todayCustomDate.type === 'unavailable') {
-    todayWorkableHours = 0;
-  } else if (todayCustomDate && todayCustomDate.type === 'custom-hours' && todayCustomDate.customHours !== undefined) {
-    // 今日が「固有作業時間」の場合はその時間を使用
-    todayWorkableHours = todayCustomDate.customHours;
-  } else if (todayCustomDate && todayCustomDate.type === 'custom-holiday') {
-    // カスタム休日の場合、holiday設定を適用
-    todayWorkableHours = workHoursMap.get('holiday') ?? 0;
-  } else {
-    // 通常の祝日チェック
-    const isTodayHoliday = holidays.some(h =>
-      h.date.getFullYear() === today.getFullYear() &&
-      h.date.getMonth() === today.getMonth() &&
-      h.date.getDate() === today.getDate()
-    ) || isHoliday(today);
-
-    if (isTodayHoliday) {
-      todayWorkableHours = workHoursMap.get('holiday') ?? 0;
-    } else {
-      const todayDayKey = dayMapping[todayDayOfWeek];
-      todayWorkableHours = workHoursMap.get(todayDayKey) ?? 0;
-    }
-  }
+  const todayWorkableHours = getWorkableHoursForDate(today, workHours, holidays, customDates, customDateRules);
 
   // 必要な進捗計算
   const dailyRequiredHours = workableDaysCount > 0 ? totalRemainingHours / workableDaysCount : 0;
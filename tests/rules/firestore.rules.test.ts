@@ -0,0 +1,351 @@
+import { readFileSync } from "node:fs";
+import { assertFails, assertSucceeds, initializeTestEnvironment, type RulesTestEnvironment } from "@firebase/rules-unit-testing";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { CustomDate } from "@/store/customDatesStore";
+import type { Work } from "@/types/work";
+import { buildPublicProgressShare } from "@/utils/publicShare";
+import { MAX_PROGRESS_HISTORY_ENTRIES, MAX_STAGE_TRANSITIONS, MAX_TOP_LEVEL_UNITS, validateWorkDocument } from "@/utils/workSchema";
+import { serializeWork } from "@/utils/workSerializer";
+
+/**
+ * firestore.rules のテスト
+ * `pnpm test:rules` で Firestore エミュレーターを起動して実行する（ネットワーク不要）
+ */
+
+const PROJECT_ID = "demo-manga-flow-manager";
+const NOW = "2026-10-18T09:00:00.000Z";
+const TOKEN = "0123456789abcdef0123456789abcdef";
+const OTHER_TOKEN = "fedcba9876543210fedcba9876543210";
+
+const buildWork = (overrides: Partial<Work> = {}): Work => ({
+  id: "work-1",
+  title: "読み切り原稿",
+  status: "作業中",
+  startDate: "2026-10-01",
+  deadline: "2026-11-30",
+  createdAt: NOW,
+  updatedAt: NOW,
+  totalUnits: 1,
+  defaultCounts: [1, 2],
+  primaryGranularityId: "page",
+  unitEstimatedHours: 1.5,
+  totalEstimatedHours: 3,
+  units: [
+    {
+      id: "page-1",
+      index: 1,
+      children: [
+        { id: "panel-1", index: 1, stageIndex: 1 },
+        { id: "panel-2", index: 2, stageIndex: 0 },
+      ],
+    },
+  ],
+  priority: 0,
+  workGranularities: [],
+  workStageWorkloads: [],
+  progressHistory: [{ date: "2026-10-17", unitStageCounts: [{ stageId: 0, count: 1 }, { stageId: 1, count: 1 }], timestamp: 1792227600000 }],
+  stageTransitions: [{ unitId: "panel-1", fromStage: 0, toStage: 1, timestamp: 1792227600000 }],
+  revision: 1,
+  ...overrides,
+});
+
+const buildCustomDate = (overrides: Partial<Omit<CustomDate, "id">> = {}): Omit<CustomDate, "id"> => ({
+  date: "2026-10-20",
+  type: "custom-holiday",
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides,
+});
+
+let testEnv: RulesTestEnvironment;
+
+const firestoreAs = (uid: string | null, claims: Record<string, unknown> = {}) =>
+  (uid ? testEnv.authenticatedContext(uid, claims) : testEnv.unauthenticatedContext()).firestore();
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+  });
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+describe("ユーザー固有データ", () => {
+  it("本人は自分のデータを読み書きできる", async () => {
+    const db = firestoreAs("alice");
+    await assertSucceeds(db.doc("users/alice/settings/workHours").set({ workHours: [] }));
+    await assertSucceeds(db.doc("users/alice/settings/workHours").get());
+    await assertSucceeds(db.collection("users/alice/customDateRules").get());
+  });
+
+  it("他のユーザーのデータは読み書きできない", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc("users/alice/works/work-1").set(serializeWork(buildWork()));
+    });
+
+    const db = firestoreAs("bob");
+    await assertFails(db.doc("users/alice/works/work-1").get());
+    await assertFails(db.collection("users/alice/works").get());
+    await assertFails(db.doc("users/alice/works/work-1").set(serializeWork(buildWork())));
+    await assertFails(db.doc("users/alice/works/work-1").delete());
+    await assertFails(db.doc("users/alice/settings/workHours").set({ workHours: [] }));
+  });
+
+  it("未ログインでは読み書きできない", async () => {
+    const db = firestoreAs(null);
+    await assertFails(db.doc("users/alice/works/work-1").get());
+    await assertFails(db.doc("users/alice/settings/workHours").set({ workHours: [] }));
+  });
+});
+
+describe("作品ドキュメントの形式", () => {
+  it("serializeWork の形式で保存・削除できる", async () => {
+    const db = firestoreAs("alice");
+    await assertSucceeds(db.doc("users/alice/works/work-1").set(serializeWork(buildWork())));
+    await assertSucceeds(db.doc("users/alice/works/work-1").set(serializeWork(buildWork({ status: "完了", primaryGranularityId: null, revision: 2 }))));
+    await assertSucceeds(db.doc("users/alice/works/work-1").delete());
+  });
+
+  it("必須項目の欠けた作品は保存できない", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { units, ...withoutUnits } = serializeWork(buildWork());
+    await assertFails(firestoreAs("alice").doc("users/alice/works/work-1").set(withoutUnits));
+  });
+
+  it("不正な値の作品は保存できない", async () => {
+    const db = firestoreAs("alice");
+    await assertFails(db.doc("users/alice/works/work-1").set({ ...serializeWork(buildWork()), status: "公開中" }));
+    await assertFails(db.doc("users/alice/works/work-1").set({ ...serializeWork(buildWork()), title: 1 }));
+    await assertFails(db.doc("users/alice/works/work-1").set({ ...serializeWork(buildWork()), totalEstimatedHours: -1 }));
+    await assertFails(db.doc("users/alice/works/work-1").set({ ...serializeWork(buildWork()), units: "page-1" }));
+    await assertFails(db.doc("users/alice/works/work-1").set({ ...serializeWork(buildWork()), revision: 1.5 }));
+  });
+
+  it("workSchema で拒否される日付・タイトルはルールでも拒否される", async () => {
+    const db = firestoreAs("alice");
+    const invalidWorks = [buildWork({ deadline: "2026/11/30" }), buildWork({ startDate: "10月1日" }), buildWork({ updatedAt: "yesterday" }), buildWork({ title: "  " })];
+
+    for (const work of invalidWorks) {
+      expect(validateWorkDocument(serializeWork(work))).not.toHaveLength(0);
+      await assertFails(db.doc("users/alice/works/work-1").set(serializeWork(work)));
+    }
+    expect(validateWorkDocument(serializeWork(buildWork({ startDate: "", deadline: "" })))).toHaveLength(0);
+    await assertSucceeds(db.doc("users/alice/works/work-1").set(serializeWork(buildWork({ startDate: "", deadline: "" }))));
+  });
+});
+
+describe("作品ドキュメントの件数の上限", () => {
+  it("workSchema の上限を超えるユニット・進捗履歴・工程変更イベントはルールでも拒否される", async () => {
+    const db = firestoreAs("alice");
+    const leaf = (index: number) => ({ id: `page-${index}`, index, stageIndex: 0 });
+    const invalidWorks = [
+      buildWork({ units: Array.from({ length: MAX_TOP_LEVEL_UNITS + 1 }, (_, index) => leaf(index + 1)) }),
+      buildWork({ progressHistory: Array.from({ length: MAX_PROGRESS_HISTORY_ENTRIES + 1 }, (_, index) => ({ date: "2026-10-17", timestamp: index })) }),
+      buildWork({ stageTransitions: Array.from({ length: MAX_STAGE_TRANSITIONS + 1 }, (_, index) => ({ unitId: "panel-1", fromStage: 0, toStage: 1, timestamp: index })) }),
+    ];
+
+    for (const work of invalidWorks) {
+      expect(validateWorkDocument(serializeWork(work))).not.toHaveLength(0);
+      await assertFails(db.doc("users/alice/works/work-1").set(serializeWork(work)));
+    }
+  });
+});
+
+describe("作品の共有", () => {
+  const sharedWork = buildWork({ members: { bob: "editor", carol: "viewer", dave: "owner" } });
+
+  beforeEach(async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc("users/alice/works/work-1").set(serializeWork(sharedWork));
+    });
+  });
+
+  it("共有先は作品を読み取れ、共有されていないユーザーは読み取れない", async () => {
+    await assertSucceeds(firestoreAs("bob").doc("users/alice/works/work-1").get());
+    await assertSucceeds(firestoreAs("carol").doc("users/alice/works/work-1").get());
+    await assertFails(firestoreAs("eve").doc("users/alice/works/work-1").get());
+  });
+
+  it("共有された作品を memberIds で検索できる", async () => {
+    const snapshot = await assertSucceeds(firestoreAs("bob").collectionGroup("works").where("memberIds", "array-contains", "bob").get());
+    expect(snapshot.docs.map((doc) => doc.ref.path)).toEqual(["users/alice/works/work-1"]);
+    await assertFails(firestoreAs("eve").collectionGroup("works").get());
+  });
+
+  it("editor は進捗を変更できるが、共有先は変更できない", async () => {
+    const db = firestoreAs("bob");
+    await assertSucceeds(db.doc("users/alice/works/work-1").set(serializeWork({ ...sharedWork, status: "完了", revision: 2 })));
+    await assertFails(db.doc("users/alice/works/work-1").set(serializeWork({ ...sharedWork, members: { bob: "owner", carol: "viewer", dave: "owner" } })));
+    await assertFails(db.doc("users/alice/works/work-1").delete());
+  });
+
+  it("viewer は変更できない", async () => {
+    await assertFails(firestoreAs("carol").doc("users/alice/works/work-1").set(serializeWork({ ...sharedWork, status: "完了" })));
+  });
+
+  it("owner は共有先の変更と削除ができる", async () => {
+    const db = firestoreAs("dave");
+    await assertSucceeds(db.doc("users/alice/works/work-1").set(serializeWork({ ...sharedWork, members: { dave: "owner" } })));
+    await assertSucceeds(db.doc("users/alice/works/work-1").delete());
+  });
+
+  it("共有を解除すると読み取れなくなる", async () => {
+    await assertSucceeds(firestoreAs("alice").doc("users/alice/works/work-1").set(serializeWork({ ...sharedWork, members: { carol: "viewer" } })));
+    await assertFails(firestoreAs("bob").doc("users/alice/works/work-1").get());
+  });
+
+  it("memberIds と members が一致しない作品は保存できない", async () => {
+    const db = firestoreAs("alice");
+    await assertFails(db.doc("users/alice/works/work-1").set({ ...serializeWork(sharedWork), memberIds: ["bob"] }));
+    await assertFails(db.doc("users/alice/works/work-1").set({ ...serializeWork(sharedWork), members: { bob: "admin" }, memberIds: ["bob"] }));
+  });
+
+  it("editor は公開リンクを変更できない", async () => {
+    await assertFails(firestoreAs("bob").doc("users/alice/works/work-1").set(serializeWork({ ...sharedWork, publicShareToken: TOKEN })));
+  });
+});
+
+describe("公開リンク", () => {
+  const work = buildWork({ publicShareToken: TOKEN });
+  const share = buildPublicProgressShare(work, "alice", null, { totalEstimatedHours: 3, completedEstimatedHours: 1.5, progressPercentage: 50 });
+
+  it("作成者は作品と進捗のスナップショットを保存・削除できる", async () => {
+    const db = firestoreAs("alice");
+    await assertSucceeds(db.doc("users/alice/works/work-1").set(serializeWork(work)));
+    await assertSucceeds(db.doc(`publicShares/${TOKEN}`).set(share));
+    await assertSucceeds(db.doc(`publicShares/${TOKEN}`).delete());
+    await assertSucceeds(db.doc(`publicShares/${OTHER_TOKEN}`).delete());
+  });
+
+  it("トークンを知っていれば未ログインでも読めるが、一覧は取得できない", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc(`publicShares/${TOKEN}`).set(share);
+    });
+    await assertSucceeds(firestoreAs(null).doc(`publicShares/${TOKEN}`).get());
+    await assertFails(firestoreAs(null).collection("publicShares").get());
+    await assertFails(firestoreAs("eve").collection("publicShares").get());
+  });
+
+  it("他のユーザーのスナップショットは書き換え・削除できない", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc(`publicShares/${TOKEN}`).set(share);
+    });
+    const db = firestoreAs("eve");
+    await assertFails(db.doc(`publicShares/${TOKEN}`).set({ ...share, ownerId: "eve" }));
+    await assertFails(db.doc(`publicShares/${TOKEN}`).delete());
+    await assertFails(db.doc(`publicShares/${OTHER_TOKEN}`).set(share));
+    await assertFails(firestoreAs(null).doc(`publicShares/${OTHER_TOKEN}`).set(share));
+  });
+
+  it("作品に発行されていないトークンや自分の作品でない作品の公開リンクは作成できない", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc("users/alice/works/work-1").set(serializeWork(work));
+    });
+    // 他のユーザーの作品のスナップショットを自分を作成者として作成する
+    const db = firestoreAs("eve");
+    await assertFails(db.doc(`publicShares/${OTHER_TOKEN}`).set({ ...share, ownerId: "eve" }));
+    // 作成者でも、作品に記録されていないトークンでは作成できない
+    await assertFails(firestoreAs("alice").doc(`publicShares/${OTHER_TOKEN}`).set(share));
+  });
+
+  it("編集できる共有先はスナップショットを更新できるが、閲覧のみの共有先や作成者を変えた更新はできない", async () => {
+    const sharedWork = buildWork({ publicShareToken: TOKEN, members: { bob: "editor", carol: "viewer" } });
+    const sharedShare = buildPublicProgressShare(sharedWork, "alice", null, { totalEstimatedHours: 3, completedEstimatedHours: 1.5, progressPercentage: 50 });
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc("users/alice/works/work-1").set(serializeWork(sharedWork));
+      await context.firestore().doc(`publicShares/${TOKEN}`).set(sharedShare);
+    });
+
+    await assertSucceeds(firestoreAs("bob").doc(`publicShares/${TOKEN}`).set({ ...sharedShare, progressPercentage: 100 }));
+    await assertFails(firestoreAs("bob").doc(`publicShares/${TOKEN}`).set({ ...sharedShare, ownerId: "bob" }));
+    await assertFails(firestoreAs("bob").doc(`publicShares/${TOKEN}`).delete());
+    await assertFails(firestoreAs("carol").doc(`publicShares/${TOKEN}`).set({ ...sharedShare, progressPercentage: 100 }));
+  });
+
+  it("owner の共有先は作品と同じバッチでスナップショットを削除できるが、editor は削除できない", async () => {
+    const sharedWork = buildWork({ publicShareToken: TOKEN, members: { bob: "editor", dave: "owner" } });
+    const sharedShare = buildPublicProgressShare(sharedWork, "alice", null, { totalEstimatedHours: 3, completedEstimatedHours: 1.5, progressPercentage: 50 });
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc("users/alice/works/work-1").set(serializeWork(sharedWork));
+      await context.firestore().doc(`publicShares/${TOKEN}`).set(sharedShare);
+    });
+
+    await assertFails(firestoreAs("bob").doc(`publicShares/${TOKEN}`).delete());
+
+    const db = firestoreAs("dave");
+    const batch = db.batch();
+    batch.delete(db.doc("users/alice/works/work-1"));
+    batch.delete(db.doc(`publicShares/${TOKEN}`));
+    await assertSucceeds(batch.commit());
+  });
+
+  it("作品の保存と同じバッチでトークンを発行してスナップショットを作成できる", async () => {
+    const db = firestoreAs("alice");
+    const batch = db.batch();
+    batch.set(db.doc("users/alice/works/work-1"), serializeWork(work));
+    batch.set(db.doc(`publicShares/${TOKEN}`), share);
+    await assertSucceeds(batch.commit());
+  });
+
+  it("推測しやすいトークンや不正な形式は保存できない", async () => {
+    const db = firestoreAs("alice");
+    await assertFails(db.doc("publicShares/work-1").set(share));
+    await assertFails(db.doc(`publicShares/${TOKEN}`).set({ ...share, history: "none" }));
+    await assertFails(db.doc("users/alice/works/work-1").set({ ...serializeWork(work), publicShareToken: "abc" }));
+  });
+});
+
+describe("カスタム日付ドキュメントの形式", () => {
+  it("customDatesStore の形式で保存できる", async () => {
+    const db = firestoreAs("alice");
+    await assertSucceeds(db.doc("users/alice/customDates/2026-10-20").set(buildCustomDate()));
+    await assertSucceeds(db.doc("users/alice/customDates/2026-10-21").set(buildCustomDate({ date: "2026-10-21", type: "custom-hours", customHours: 3, windows: [{ start: "10:00", end: "13:00" }] })));
+    await assertSucceeds(db.doc("users/alice/customDates/2026-10-22").set(buildCustomDate({ date: "2026-10-22", type: "partial-unavailable", blocks: [{ start: "14:00", end: "15:00", label: "歯医者" }] })));
+  });
+
+  it("日付とドキュメントIDが一致しない場合は保存できない", async () => {
+    await assertFails(firestoreAs("alice").doc("users/alice/customDates/2026-10-21").set(buildCustomDate()));
+  });
+
+  it("不正な種類・作業時間は保存できない", async () => {
+    const db = firestoreAs("alice");
+    await assertFails(db.doc("users/alice/customDates/2026-10-20").set({ ...buildCustomDate(), type: "holiday" }));
+    await assertFails(db.doc("users/alice/customDates/2026-10-20").set(buildCustomDate({ type: "custom-hours", customHours: 25 })));
+    await assertFails(db.doc("users/alice/customDates/2026-10-20").set({ ...buildCustomDate({ type: "custom-hours" }), customHours: "3" }));
+  });
+});
+
+describe("グローバル設定", () => {
+  const holidays = { holidays: [{ name: "元日", date: "2027-01-01T00:00:00.000Z" }], lastUpdated: NOW, version: 1, source: "upload" };
+
+  it("ログインしていれば読み取れる", async () => {
+    await assertSucceeds(firestoreAs("alice").doc("globalSettings/holidays").get());
+    await assertFails(firestoreAs(null).doc("globalSettings/holidays").get());
+  });
+
+  it("管理者以外は書き込めない", async () => {
+    await assertFails(firestoreAs("alice").doc("globalSettings/holidays").set(holidays));
+  });
+
+  it("カスタムクレームまたは admins ドキュメントを持つ管理者は書き込める", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await context.firestore().doc("admins/carol").set({});
+    });
+
+    await assertSucceeds(firestoreAs("dave", { admin: true }).doc("globalSettings/holidays").set(holidays));
+    await assertSucceeds(firestoreAs("carol").doc("globalSettings/holidays").set(holidays));
+  });
+
+  it("管理者の一覧は自分の分だけ読み取れ、書き込めない", async () => {
+    await assertSucceeds(firestoreAs("alice").doc("admins/alice").get());
+    await assertFails(firestoreAs("alice").doc("admins/bob").get());
+    await assertFails(firestoreAs("alice").doc("admins/alice").set({}));
+  });
+});
@@ -0,0 +1,36 @@
+import type { Work } from "@/types/work";
+
+export const NOW = "2026-10-18T09:00:00.000Z";
+
+/** 1ページ2コマの作品（serializeWork・workSchema の検証を通る形式） */
+export const buildWork = (overrides: Partial<Work> = {}): Work => ({
+  id: "work-1",
+  title: "読み切り原稿",
+  status: "作業中",
+  startDate: "2026-10-01",
+  deadline: "2026-11-30",
+  createdAt: NOW,
+  updatedAt: NOW,
+  totalUnits: 1,
+  defaultCounts: [1, 2],
+  primaryGranularityId: "page",
+  unitEstimatedHours: 1,
+  totalEstimatedHours: 2,
+  units: [
+    {
+      id: "page-1",
+      index: 1,
+      children: [
+        { id: "panel-1", index: 1, stageIndex: 0 },
+        { id: "panel-2", index: 2, stageIndex: 0 },
+      ],
+    },
+  ],
+  priority: 0,
+  workGranularities: [],
+  workStageWorkloads: [],
+  progressHistory: [],
+  stageTransitions: [],
+  revision: 1,
+  ...overrides,
+});
@@ -0,0 +1,139 @@
+import { createPinia, setActivePinia } from "pinia";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  ACCOUNT_BACKUP_COLLECTIONS,
+  ACCOUNT_BACKUP_FORMAT,
+  importAccountBackup,
+  isAccountBackupCollectionIncluded,
+  parseAccountBackup,
+  type AccountBackupImportModes,
+} from "@/services/accountBackupService";
+import { createMemoryAdapter, type MemoryStorageAdapter } from "@/services/storage/memoryAdapter";
+import { setStorageAdapter } from "@/services/storage/storageBackend";
+import { serializeWork } from "@/utils/workSerializer";
+import { buildWork } from "../fixtures/work";
+
+const USER_ID = "user-1";
+const NOW = "2026-10-01T00:00:00.000Z";
+
+const RULE_DOCUMENT = {
+  label: "定休日",
+  recurrence: { frequency: "weekly", weekdays: [3], interval: 1 },
+  type: "custom-holiday",
+  startDate: "2026-10-01",
+  endDate: null,
+  exceptions: [],
+  createdAt: NOW,
+  updatedAt: NOW,
+};
+
+const RULE = { id: "rule-1", ...RULE_DOCUMENT };
+
+const CURRENT_TOKEN = "0123456789abcdef0123456789abcdef";
+const REVOKED_TOKEN = "fedcba9876543210fedcba9876543210";
+
+const buildBackupText = (schemaVersion: number, data: Record<string, unknown>) =>
+  JSON.stringify({ format: ACCOUNT_BACKUP_FORMAT, schemaVersion, exportedAt: NOW, data });
+
+// 指定したデータだけを取り込む
+const onlyModes = (modes: Partial<AccountBackupImportModes>) =>
+  ({ ...Object.fromEntries(ACCOUNT_BACKUP_COLLECTIONS.map(({ key }) => [key, "skip"])), ...modes }) as AccountBackupImportModes;
+
+describe("アカウントのバックアップ", () => {
+  let adapter: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    adapter = createMemoryAdapter({ [`users/${USER_ID}/customDateRules/existing`]: { ...RULE_DOCUMENT, label: "既存のルール" } });
+    setStorageAdapter(adapter);
+  });
+
+  it("繰り返しルールを含むバックアップを検証して取り込む", async () => {
+    const { bundle, errors } = parseAccountBackup(buildBackupText(2, { customDateRules: [RULE] }));
+    expect(errors).toEqual([]);
+    expect(bundle!.data.customDateRules).toHaveLength(1);
+
+    await importAccountBackup(USER_ID, bundle!, onlyModes({ customDateRules: "replace" }));
+    expect(Object.keys(adapter.dump())).toEqual([`users/${USER_ID}/customDateRules/rule-1`]);
+    expect(adapter.dump()[`users/${USER_ID}/customDateRules/rule-1`]).toMatchObject({ label: "定休日", recurrence: RULE.recurrence });
+  });
+
+  it("繰り返し条件が不正なルールはエラーにする", () => {
+    const { bundle, errors } = parseAccountBackup(buildBackupText(2, { customDateRules: [{ ...RULE, recurrence: { frequency: "daily" } }] }));
+    expect(bundle).toBeNull();
+    expect(errors).toEqual(["繰り返しルール「定休日」: 繰り返し条件が不正です。"]);
+  });
+
+  it("繰り返しルールを含まない古い形式も読み込め、既存のルールは置き換えない", async () => {
+    const { bundle, errors } = parseAccountBackup(buildBackupText(1, { customDates: [] }));
+    expect(errors).toEqual([]);
+    expect(isAccountBackupCollectionIncluded(bundle!, "customDateRules")).toBe(false);
+
+    await importAccountBackup(USER_ID, bundle!, onlyModes({ customDateRules: "replace" }));
+    expect(Object.keys(adapter.dump())).toEqual([`users/${USER_ID}/customDateRules/existing`]);
+  });
+
+  it("祝日セットを検証し、含まれていない祝日セットの選択は取り込まない", () => {
+    const holidayCalendars = {
+      selectedSetIds: ["jp", "set-1", "missing"],
+      sets: [{ id: "set-1", name: "会社の休日", holidays: [{ date: "2026-12-29", name: "年末休暇" }], createdAt: NOW, updatedAt: NOW }],
+    };
+    const { bundle, errors } = parseAccountBackup(buildBackupText(3, { holidayCalendars }));
+    expect(errors).toEqual([]);
+    expect(bundle!.data.holidayCalendars).toEqual({ ...holidayCalendars, selectedSetIds: ["jp", "set-1"] });
+
+    const invalid = parseAccountBackup(buildBackupText(3, { holidayCalendars: { ...holidayCalendars, sets: [{ ...holidayCalendars.sets[0], holidays: [{ date: "12/29" }] }] } }));
+    expect(invalid.errors).toEqual(["祝日セット「会社の休日」: 祝日の日付が YYYY-MM-DD 形式ではありません。"]);
+  });
+
+  it("アシスタントを取り込み、マージでは同じIDだけを上書きする", async () => {
+    await adapter.setDocument(`users/${USER_ID}/settings/collaborators`, {
+      collaborators: [
+        { id: "assistant-1", name: "旧名", color: "#6c757d", workHours: [] },
+        { id: "assistant-2", name: "背景担当", color: "#198754", workHours: [] },
+      ],
+    });
+    const collaborators = [{ id: "assistant-1", name: "仕上げ担当", color: "#dc3545", workHours: [{ day: "月", hours: 4 }] }];
+    const { bundle, errors } = parseAccountBackup(buildBackupText(4, { collaborators }));
+    expect(errors).toEqual([]);
+
+    await importAccountBackup(USER_ID, bundle!, onlyModes({ collaborators: "merge" }));
+    expect(adapter.dump()[`users/${USER_ID}/settings/collaborators`]).toEqual({
+      collaborators: [{ id: "assistant-2", name: "背景担当", color: "#198754", workHours: [] }, ...collaborators],
+    });
+  });
+
+  it("作品の共有先と公開リンクはバックアップから戻さず、保存済みの作品の設定を引き継ぐ", async () => {
+    await adapter.setDocument(`users/${USER_ID}/works/work-1`, serializeWork(buildWork({ publicShareToken: CURRENT_TOKEN, members: { "member-1": "viewer" } })));
+    const sharing = { publicShareToken: REVOKED_TOKEN, members: { "other-user": "editor" } } as const;
+    const works = [
+      { id: "work-1", ...serializeWork(buildWork(sharing)) },
+      { id: "work-2", ...serializeWork(buildWork({ id: "work-2", ...sharing })) },
+    ];
+    const { bundle, errors } = parseAccountBackup(buildBackupText(4, { works }));
+    expect(errors).toEqual([]);
+
+    await importAccountBackup(USER_ID, bundle!, onlyModes({ works: "merge" }));
+    const saved = adapter.dump();
+    expect(saved[`users/${USER_ID}/works/work-1`]).toMatchObject({ publicShareToken: CURRENT_TOKEN, members: { "member-1": "viewer" }, memberIds: ["member-1"] });
+    expect(saved[`users/${USER_ID}/works/work-2`]).not.toHaveProperty("publicShareToken");
+    expect(saved[`users/${USER_ID}/works/work-2`]).not.toHaveProperty("members");
+    expect(saved[`users/${USER_ID}/works/work-2`]).not.toHaveProperty("memberIds");
+  });
+
+  it("作品を検証してから取り込み、置き換えで消す作品は公開リンクも合わせて削除する", async () => {
+    const invalid = parseAccountBackup(buildBackupText(4, { works: [{ id: "work-1", ...serializeWork(buildWork({ title: " " })) }] }));
+    expect(invalid.errors).toEqual(["作品「 」: タイトルが入力されていません。"]);
+
+    await adapter.setDocument(`users/${USER_ID}/works/old-work`, serializeWork(buildWork({ id: "old-work", publicShareToken: CURRENT_TOKEN })));
+    await adapter.setDocument(`publicShares/${CURRENT_TOKEN}`, { ownerId: USER_ID, workId: "old-work" });
+    const { bundle, errors } = parseAccountBackup(buildBackupText(4, { works: [{ id: "work-1", ...serializeWork(buildWork()) }] }));
+    expect(errors).toEqual([]);
+
+    await importAccountBackup(USER_ID, bundle!, onlyModes({ works: "replace" }));
+    const saved = adapter.dump();
+    expect(saved).toHaveProperty([`users/${USER_ID}/works/work-1`]);
+    expect(saved).not.toHaveProperty([`users/${USER_ID}/works/old-work`]);
+    expect(saved).not.toHaveProperty([`publicShares/${CURRENT_TOKEN}`]);
+  });
+});
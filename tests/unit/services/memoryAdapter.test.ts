@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryAdapter } from "@/services/storage/memoryAdapter";
+
+describe("メモリアダプター", () => {
+  it("merge: true ではネストしたオブジェクトを再帰的にマージする", async () => {
+    const adapter = createMemoryAdapter({ "users/u1/settings/app": { workHours: { mon: 8 }, theme: "light" } });
+    await adapter.setDocument("users/u1/settings/app", { workHours: { tue: 6 } }, { merge: true });
+
+    expect(await adapter.getDocument("users/u1/settings/app")).toEqual({ workHours: { mon: 8, tue: 6 }, theme: "light" });
+  });
+
+  it("コレクション直下のドキュメントだけをIDつきで取得する", async () => {
+    const adapter = createMemoryAdapter({
+      "users/u1/works/a": { title: "A" },
+      "users/u1/works/b": { title: "B" },
+      "users/u2/works/c": { title: "C" },
+    });
+
+    expect(await adapter.getCollectionDocs("users/u1/works")).toEqual([
+      { id: "a", title: "A" },
+      { id: "b", title: "B" },
+    ]);
+  });
+
+  it("読み出したデータを書き換えても保存内容は変わらない", async () => {
+    const adapter = createMemoryAdapter({ "users/u1/works/a": { units: [1] } });
+    const work = await adapter.getDocument<{ units: number[] }>("users/u1/works/a");
+    work!.units.push(2);
+
+    expect(adapter.dump()["users/u1/works/a"]).toEqual({ units: [1] });
+  });
+
+  it("不正なパスを含むバッチは何も書き込まない", async () => {
+    const adapter = createMemoryAdapter();
+    await expect(
+      adapter.writeBatch([
+        { operation: "set", path: "users/u1/works/a", data: { title: "A" } },
+        { operation: "delete", path: "users/u1/works" },
+      ]),
+    ).rejects.toThrow("ドキュメントパスが不正です");
+    expect(adapter.dump()).toEqual({});
+  });
+});
@@ -0,0 +1,77 @@
+import { createPinia, setActivePinia } from "pinia";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createMemoryAdapter, type MemoryStorageAdapter } from "@/services/storage/memoryAdapter";
+import { setStorageAdapter } from "@/services/storage/storageBackend";
+import { useCustomDatesStore } from "@/store/customDatesStore";
+
+const USER_ID = "user-1";
+
+describe("customDatesStore", () => {
+  let adapter: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    adapter = createMemoryAdapter();
+    setStorageAdapter(adapter);
+  });
+
+  it("時間帯を指定したカスタム日付は時間帯の合計を作業時間として保存する", async () => {
+    const store = useCustomDatesStore();
+    await store.setCustomDate(USER_ID, "2026-10-20", "custom-hours", 8, { windows: [{ start: "13:00", end: "15:30" }] });
+
+    expect(adapter.dump()[`users/${USER_ID}/customDates/2026-10-20`]).toMatchObject({
+      date: "2026-10-20",
+      type: "custom-hours",
+      customHours: 2.5,
+      windows: [{ start: "13:00", end: "15:30" }],
+    });
+    expect(store.getCustomDateByDate("2026-10-20")?.customHours).toBe(2.5);
+  });
+
+  it("期間を逆順に指定しても両端を含む全日付に保存する", async () => {
+    const store = useCustomDatesStore();
+    await store.setCustomDateRange(USER_ID, "2026-10-22", "2026-10-20", "custom-hours", 3);
+
+    const saved = adapter.dump();
+    ["2026-10-20", "2026-10-21", "2026-10-22"].forEach((date) => {
+      expect(saved[`users/${USER_ID}/customDates/${date}`]).toMatchObject({ date, type: "custom-hours", customHours: 3 });
+    });
+    expect(store.customDates.map((customDate) => customDate.date).sort()).toEqual(["2026-10-20", "2026-10-21", "2026-10-22"]);
+  });
+
+  it("期間内に設定されている日付だけをまとめて削除する", async () => {
+    const store = useCustomDatesStore();
+    await store.setCustomDate(USER_ID, "2026-10-19", "unavailable");
+    await store.setCustomDate(USER_ID, "2026-10-21", "unavailable");
+    await store.setCustomDate(USER_ID, "2026-10-23", "unavailable");
+
+    await store.removeCustomDateRange(USER_ID, "2026-10-20", "2026-10-23");
+
+    expect(Object.keys(adapter.dump())).toEqual([`users/${USER_ID}/customDates/2026-10-19`]);
+    expect(store.customDates.map((customDate) => customDate.date)).toEqual(["2026-10-19"]);
+  });
+
+  it("保存したカスタム日付と繰り返しルールを読み込む", async () => {
+    const now = "2026-10-01T00:00:00.000Z";
+    setStorageAdapter(
+      createMemoryAdapter({
+        [`users/${USER_ID}/customDates/2026-10-20`]: { date: "2026-10-20", type: "unavailable", createdAt: now, updatedAt: now },
+        [`users/${USER_ID}/customDateRules/rule-1`]: {
+          label: "定休日",
+          recurrence: { frequency: "weekly", weekdays: [3], interval: 1 },
+          type: "custom-holiday",
+          startDate: "2026-10-01",
+          createdAt: now,
+          updatedAt: now,
+        },
+      }),
+    );
+
+    const store = useCustomDatesStore();
+    await store.fetchCustomDates(USER_ID);
+
+    expect(store.customDatesLoaded).toBe(true);
+    expect(store.getEffectiveCustomDate("2026-10-20")?.type).toBe("unavailable");
+    expect(store.getEffectiveCustomDate("2026-10-21")).toMatchObject({ type: "custom-holiday", ruleId: "rule-1" });
+  });
+});
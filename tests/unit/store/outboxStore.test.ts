@@ -0,0 +1,199 @@
+import { createPinia, setActivePinia } from "pinia";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryAdapter, type MemoryStorageAdapter } from "@/services/storage/memoryAdapter";
+import { setStorageAdapter } from "@/services/storage/storageBackend";
+import { useOutboxStore, type OutboxWriteRequest } from "@/store/outboxStore";
+
+const USER_ID = "user-1";
+const PATH = `users/${USER_ID}/works/work-1`;
+const NOW = "2026-10-18T09:00:00.000Z";
+
+const buildRequest = (title: string, path = PATH): OutboxWriteRequest => ({
+  userId: USER_ID,
+  scope: "work",
+  targetId: path.split("/").pop()!,
+  operation: "set",
+  path,
+  data: { title },
+});
+
+// 1件目の書き込みを release() まで待たせるアダプター
+const createGatedAdapter = (adapter: MemoryStorageAdapter) => {
+  let release: () => void = () => undefined;
+  const gate = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  let calls = 0;
+
+  return {
+    release: () => release(),
+    adapter: {
+      ...adapter,
+      async setDocument(...args: Parameters<MemoryStorageAdapter["setDocument"]>) {
+        calls += 1;
+        if (calls === 1) {
+          await gate;
+        }
+        return adapter.setDocument(...args);
+      },
+    },
+  };
+};
+
+describe("outboxStore", () => {
+  let memory: MemoryStorageAdapter;
+
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    memory = createMemoryAdapter();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("送信待ちのない書き込みはそのまま保存する", async () => {
+    setStorageAdapter(memory);
+    const outbox = useOutboxStore();
+
+    await expect(outbox.write(buildRequest("初稿"))).resolves.toBe("saved");
+    expect(outbox.pendingCount).toBe(0);
+    expect(memory.dump()[PATH]).toEqual({ title: "初稿" });
+  });
+
+  it("再送中に追加された書き込みも続けて再送する", async () => {
+    const gated = createGatedAdapter(memory);
+    setStorageAdapter(gated.adapter);
+    const outbox = useOutboxStore();
+
+    outbox.enqueue(buildRequest("初稿"));
+    const replaying = outbox.replay(USER_ID);
+
+    // 同じドキュメントの送信待ちがあるため、再送中でも送信待ちに追加される
+    const otherPath = `users/${USER_ID}/works/work-2`;
+    await expect(outbox.write(buildRequest("修正稿"))).resolves.toBe("queued");
+    outbox.enqueue(buildRequest("別の作品", otherPath));
+    expect(outbox.pendingCount).toBe(3);
+
+    gated.release();
+    await replaying;
+
+    expect(outbox.pendingCount).toBe(0);
+    expect(memory.dump()[PATH]).toEqual({ title: "修正稿" });
+    expect(memory.dump()[otherPath]).toEqual({ title: "別の作品" });
+  });
+
+  it("通信エラーでは残りを送信待ちのまま次回に回し、それ以外のエラーは失敗にする", async () => {
+    const unavailable = Object.assign(new Error("offline"), { code: "unavailable" });
+    const denied = Object.assign(new Error("denied"), { code: "permission-denied" });
+    let failure: Error | null = unavailable;
+    setStorageAdapter({
+      ...memory,
+      async setDocument(...args: Parameters<MemoryStorageAdapter["setDocument"]>) {
+        if (failure) {
+          throw failure;
+        }
+        return memory.setDocument(...args);
+      },
+    });
+    const outbox = useOutboxStore();
+    const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await expect(outbox.write(buildRequest("初稿"))).resolves.toBe("queued");
+    expect(consoleWarn).toHaveBeenCalledWith("通信エラーのため書き込みを送信待ちにしました:", expect.objectContaining({ path: PATH, error: unavailable }));
+    await outbox.replay(USER_ID);
+    expect(outbox.entries.map((entry) => entry.status)).toEqual(["queued"]);
+
+    failure = denied;
+    await outbox.replay(USER_ID);
+    expect(outbox.entries.map((entry) => entry.status)).toEqual(["failed"]);
+    expect(consoleError).toHaveBeenCalledWith("送信待ちの書き込みに失敗しました:", { path: PATH, error: denied });
+
+    failure = null;
+    await outbox.retryFailed(USER_ID);
+    expect(outbox.pendingCount).toBe(0);
+    expect(memory.dump()[PATH]).toEqual({ title: "初稿" });
+  });
+
+  it("失敗した書き込みより後の同じドキュメントへの書き込みは、失敗を再試行するまで送らない", async () => {
+    const settingsPath = `users/${USER_ID}/settings/workHours`;
+    let denied = true;
+    setStorageAdapter({
+      ...memory,
+      async setDocument(...args: Parameters<MemoryStorageAdapter["setDocument"]>) {
+        if (denied && args[1].title === "古い設定") {
+          throw Object.assign(new Error("denied"), { code: "permission-denied" });
+        }
+        return memory.setDocument(...args);
+      },
+    });
+    const outbox = useOutboxStore();
+    const mergeRequest = (title: string): OutboxWriteRequest => ({ ...buildRequest(title, settingsPath), scope: "settings", options: { merge: true } });
+
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => undefined);
+
+    outbox.enqueue(mergeRequest("古い設定"));
+    outbox.enqueue(mergeRequest("新しい設定"));
+    await outbox.replay(USER_ID);
+    expect(outbox.entries.map((entry) => entry.status)).toEqual(["failed", "queued"]);
+    expect(consoleError).toHaveBeenCalledWith("送信待ちの書き込みに失敗しました:", expect.objectContaining({ path: settingsPath }));
+    expect(memory.dump()[settingsPath]).toBeUndefined();
+
+    denied = false;
+    await outbox.retryFailed(USER_ID);
+    expect(outbox.pendingCount).toBe(0);
+    expect(memory.dump()[settingsPath]).toEqual({ title: "新しい設定" });
+  });
+
+  it("再送前に保存済みの版が変わっていれば送信せずに競合として残す", async () => {
+    memory = createMemoryAdapter({ [PATH]: { title: "他の端末", revision: 3, updatedAt: "2026-10-18T10:00:00.000Z" } });
+    setStorageAdapter(memory);
+    const outbox = useOutboxStore();
+    const conflicts: string[] = [];
+    outbox.setConflictListener((entry) => conflicts.push(entry.targetId));
+
+    outbox.enqueue({ ...buildRequest("オフライン中の編集"), baseVersion: { revision: 2, updatedAt: "2026-10-18T09:00:00.000Z" } });
+    await outbox.replay(USER_ID);
+
+    expect(conflicts).toEqual(["work-1"]);
+    expect(outbox.entries[0]).toMatchObject({ status: "failed", conflictDocument: { title: "他の端末", revision: 3 } });
+    expect(memory.dump()[PATH]).toMatchObject({ title: "他の端末" });
+
+    // 競合は再試行では送信しない
+    await outbox.retryFailed(USER_ID);
+    expect(outbox.entries[0]!.status).toBe("failed");
+    outbox.setConflictListener(null);
+  });
+
+  it("送信前の書き込みを置き換えるときは最初に基準にした版で確認する", async () => {
+    memory = createMemoryAdapter({ [PATH]: { title: "読み込み時", revision: 2, updatedAt: NOW } });
+    setStorageAdapter(memory);
+    const outbox = useOutboxStore();
+
+    outbox.enqueue({ ...buildRequest("1回目"), baseVersion: { revision: 2, updatedAt: NOW } });
+    outbox.enqueue({ ...buildRequest("2回目"), baseVersion: { revision: 3, updatedAt: NOW } });
+    expect(outbox.entries.map((entry) => entry.baseVersion?.revision)).toEqual([2]);
+
+    await outbox.replay(USER_ID);
+    expect(outbox.pendingCount).toBe(0);
+    expect(memory.dump()[PATH]).toEqual({ title: "2回目" });
+  });
+
+  it("送信待ちの書き込みがあるドキュメントは、保存済みの内容より送信待ちの内容を読み込む", async () => {
+    setStorageAdapter(memory);
+    const outbox = useOutboxStore();
+    const otherPath = `users/${USER_ID}/works/work-2`;
+    await memory.setDocument(PATH, { title: "保存済み" });
+    await memory.setDocument(otherPath, { title: "保存済み" });
+    outbox.enqueue(buildRequest("送信待ち"));
+    outbox.enqueue({ ...buildRequest("", otherPath), operation: "delete", data: undefined });
+
+    expect(await outbox.getDocumentWithPending(PATH)).toEqual({ title: "送信待ち" });
+    expect(await outbox.getDocumentWithPending(otherPath)).toBeNull();
+    expect(await outbox.getDocumentWithPending(`users/${USER_ID}/works/work-3`)).toBeNull();
+    expect(outbox.applyPendingDocuments(USER_ID, "work", [{ id: "work-1", title: "保存済み" }, { id: "work-2", title: "保存済み" }])).toEqual([
+      { id: "work-1", title: "送信待ち" },
+    ]);
+  });
+});
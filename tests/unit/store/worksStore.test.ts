@@ -0,0 +1,236 @@
+import { createPinia, setActivePinia } from "pinia";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryAdapter, type MemoryStorageAdapter } from "@/services/storage/memoryAdapter";
+import { setStorageAdapter } from "@/services/storage/storageBackend";
+import { useOutboxStore } from "@/store/outboxStore";
+import { useSettingsStore } from "@/store/settingsStore";
+import { useWorksStore } from "@/store/worksStore";
+import { buildWorkDocumentPath, WorkConflictError } from "@/utils/workStoreHelpers";
+import { serializeWork } from "@/utils/workSerializer";
+import { buildWork } from "../fixtures/work";
+
+const USER_ID = "user-1";
+const PATH = buildWorkDocumentPath(USER_ID, "work-1");
+
+const setPanelStage = (document: Record<string, unknown>, panelIndex: number, stageIndex: number) => {
+  const units = structuredClone(document.units) as Array<{ children: Array<{ stageIndex: number }> }>;
+  units[0]!.children[panelIndex]!.stageIndex = stageIndex;
+  return { ...document, units };
+};
+
+describe("worksStore", () => {
+  let memory: MemoryStorageAdapter;
+  let offline: boolean;
+
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    memory = createMemoryAdapter({ [PATH]: serializeWork(buildWork({ revision: 2 })) });
+    offline = false;
+    // offline の間は通信エラーで失敗するアダプター
+    setStorageAdapter({
+      ...memory,
+      async setDocument(...args: Parameters<MemoryStorageAdapter["setDocument"]>) {
+        if (offline) {
+          throw Object.assign(new Error("offline"), { code: "unavailable" });
+        }
+        return memory.setDocument(...args);
+      },
+    });
+  });
+
+  it("読み込み後に他の端末で保存された作品は、保存時に競合として確認を求める", async () => {
+    const worksStore = useWorksStore();
+    await worksStore.fetchWorks(USER_ID);
+
+    await memory.setDocument(PATH, { ...setPanelStage(memory.dump()[PATH]!, 1, 1), revision: 3 });
+    await expect(worksStore.saveWork({ userId: USER_ID, workId: "work-1" })).rejects.toBeInstanceOf(WorkConflictError);
+    expect(worksStore.getConflict("work-1")?.revision).toBe(3);
+  });
+
+  it("版数を持たない旧データは、編集して保存しても競合とせず、他の端末の保存は更新日時で検出する", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { revision: _, ...legacy } = serializeWork(buildWork());
+    await memory.setDocument(PATH, legacy);
+    const worksStore = useWorksStore();
+    await worksStore.fetchWorks(USER_ID);
+
+    worksStore.advanceUnitStage("work-1", "panel-1", 2);
+    await expect(worksStore.saveWork({ userId: USER_ID, workId: "work-1" })).resolves.toBe("saved");
+    expect(memory.dump()[PATH]).toMatchObject({ revision: 1 });
+
+    // 続けて編集した保存も、直前に保存した版を基準にする
+    worksStore.advanceUnitStage("work-1", "panel-2", 2);
+    await expect(worksStore.saveWork({ userId: USER_ID, workId: "work-1" })).resolves.toBe("saved");
+    expect(memory.dump()[PATH]).toMatchObject({ revision: 2 });
+
+    // 読み込み直した旧データが他の端末で保存されていれば競合とする
+    await memory.setDocument(PATH, legacy);
+    await worksStore.fetchWorks(USER_ID);
+    await memory.setDocument(PATH, { ...legacy, updatedAt: "2026-10-18T10:00:00.000Z" });
+    worksStore.advanceUnitStage("work-1", "panel-1", 2);
+    await expect(worksStore.saveWork({ userId: USER_ID, workId: "work-1" })).rejects.toBeInstanceOf(WorkConflictError);
+  });
+
+  it("オフライン中の保存は、再送前に他の端末の保存と競合していれば上書きせずに確認を求める", async () => {
+    const worksStore = useWorksStore();
+    const outboxStore = useOutboxStore();
+    outboxStore.setConflictListener(() => worksStore.applyOutboxConflicts());
+    await worksStore.fetchWorks(USER_ID);
+
+    // オフライン中に1コマ目を進めて保存する
+    offline = true;
+    worksStore.getWorkById("work-1")!.units[0]!.children![0]!.stageIndex = 1;
+    await expect(worksStore.saveWork({ userId: USER_ID, workId: "work-1" })).resolves.toBe("queued");
+
+    // その間に他の端末で2コマ目を進めて保存していた
+    await memory.setDocument(PATH, { ...setPanelStage(memory.dump()[PATH]!, 1, 1), revision: 3 });
+
+    offline = false;
+    await outboxStore.replay(USER_ID);
+
+    expect(memory.dump()[PATH]).toMatchObject({ revision: 3 });
+    expect(worksStore.getConflict("work-1")?.revision).toBe(3);
+    expect(worksStore.saveErrorMap["work-1"]).toBe(new WorkConflictError().message);
+
+    // マージして保存すると両方の進捗が残る
+    // 競合した保存を置き換えるため、送信待ち経由で再送される
+    await worksStore.resolveWorkConflict({ userId: USER_ID, workId: "work-1", resolution: "merge" });
+    await vi.waitFor(() => expect(outboxStore.pendingCount).toBe(0));
+    expect(worksStore.getConflict("work-1")).toBeNull();
+    const saved = memory.dump()[PATH] as ReturnType<typeof serializeWork>;
+    expect(saved.revision).toBe(4);
+    expect(saved.units[0]!.children!.map((unit) => unit.stageIndex)).toEqual([1, 1]);
+    outboxStore.setConflictListener(null);
+  });
+
+  it("再読み込み後も、競合した送信待ちの保存を確認できる", async () => {
+    const outboxStore = useOutboxStore();
+    outboxStore.enqueue({
+      userId: USER_ID,
+      scope: "work",
+      targetId: "work-1",
+      operation: "set",
+      path: PATH,
+      data: serializeWork(buildWork({ revision: 2 })),
+      baseVersion: { revision: 1, updatedAt: buildWork().updatedAt },
+    });
+    await outboxStore.replay(USER_ID);
+
+    const worksStore = useWorksStore();
+    await worksStore.fetchWorks(USER_ID);
+    expect(worksStore.getConflict("work-1")?.revision).toBe(2);
+
+    await worksStore.resolveWorkConflict({ userId: USER_ID, workId: "work-1", resolution: "remote" });
+    expect(outboxStore.pendingCount).toBe(0);
+  });
+
+  it("分岐する作品は、並行する工程を完了したときも工程ごとに完了を記録する", async () => {
+    // 線画と背景はネーム後に並行して進め、仕上げは両方の完了を待つ
+    const stages = [
+      { id: 1, label: "ネーム", color: "#0d6efd", baseHours: 1 },
+      { id: 2, label: "線画", color: "#6610f2", baseHours: 1, prerequisites: [1] },
+      { id: 3, label: "背景", color: "#6f42c1", baseHours: 1, prerequisites: [1] },
+      { id: 4, label: "仕上げ", color: "#d63384", baseHours: 1, prerequisites: [2, 3] },
+    ];
+    await memory.setDocument(PATH, serializeWork(buildWork({ revision: 2, workStageWorkloads: stages })));
+    const worksStore = useWorksStore();
+    await worksStore.fetchWorks(USER_ID);
+
+    expect(worksStore.toggleUnitStageCompletion("work-1", "panel-1", 1)).toBe(true);
+    expect(worksStore.toggleUnitStageCompletion("work-1", "panel-1", 3)).toBe(true);
+
+    const events = worksStore.getWorkById("work-1")!.stageTransitions!;
+    expect(events.map(({ unitId, stageId, completed }) => ({ unitId, stageId, completed }))).toEqual([
+      { unitId: "panel-1", stageId: 1, completed: true },
+      { unitId: "panel-1", stageId: 3, completed: true },
+    ]);
+    // 背景だけを終えても先頭から続けて完了した工程（stageIndex）は変わらない
+    expect(events[1]!.fromStage).toBe(events[1]!.toStage);
+  });
+
+  describe("公開リンク", () => {
+    const TOKEN = "0123456789abcdef0123456789abcdef";
+    const SHARE_PATH = `publicShares/${TOKEN}`;
+
+    beforeEach(async () => {
+      await memory.setDocument(PATH, serializeWork(buildWork({ revision: 2, publicShareToken: TOKEN })));
+      await memory.setDocument(SHARE_PATH, { ownerId: USER_ID, workId: "work-1" });
+      useSettingsStore().$patch({
+        granularities: [
+          { id: "page", label: "ページ", weight: 2, defaultCount: 1 },
+          { id: "panel", label: "コマ", weight: 1, defaultCount: 2 },
+        ],
+        stageWorkloads: [
+          { id: 1, label: "ネーム", color: "#0d6efd", baseHours: 1 },
+          { id: 2, label: "仕上げ", color: "#d63384", baseHours: 2 },
+        ],
+      });
+    });
+
+    it("再発行すると作品の保存と同時に以前のスナップショットを削除する", async () => {
+      const worksStore = useWorksStore();
+      await worksStore.fetchWorks(USER_ID);
+
+      await worksStore.updatePublicShare({ userId: USER_ID, workId: "work-1", enabled: true });
+      const token = worksStore.getWorkById("work-1")!.publicShareToken!;
+      expect(token).not.toBe(TOKEN);
+      expect(memory.dump()[PATH]).toMatchObject({ publicShareToken: token });
+      expect(Object.keys(memory.dump()).filter((path) => path.startsWith("publicShares/"))).toEqual([`publicShares/${token}`]);
+    });
+
+    it("公開を始めるときに全体設定を作品にコピーし、スナップショットをその工程設定から作る", async () => {
+      await memory.setDocument(PATH, serializeWork(buildWork({ revision: 2 })));
+      const worksStore = useWorksStore();
+      await worksStore.fetchWorks(USER_ID);
+
+      await worksStore.updatePublicShare({ userId: USER_ID, workId: "work-1", enabled: true });
+      const token = worksStore.getWorkById("work-1")!.publicShareToken!;
+      expect((memory.dump()[PATH] as ReturnType<typeof serializeWork>).workStageWorkloads?.map((stage) => stage.label)).toEqual(["ネーム", "仕上げ"]);
+      expect(memory.dump()[`publicShares/${token}`]).toMatchObject({
+        stages: [{ label: "ネーム" }, { label: "仕上げ" }],
+        totalHours: 6,
+      });
+    });
+
+    it("作品固有の工程設定がない共有作品を編集者が保存しても、自分の全体設定でスナップショットを上書きしない", async () => {
+      const sharedPath = buildWorkDocumentPath("alice", "work-1");
+      const sharedWork = buildWork({ publicShareToken: TOKEN, members: { [USER_ID]: "editor" } });
+      await memory.setDocument(sharedPath, serializeWork(sharedWork));
+      const worksStore = useWorksStore();
+      worksStore.setWorks([{ ...sharedWork, ownerId: "alice" }]);
+
+      worksStore.advanceUnitStage("work-1", "panel-1", 1);
+      await expect(worksStore.saveWork({ userId: USER_ID, workId: "work-1" })).resolves.toBe("saved");
+      expect(memory.dump()[sharedPath]).toMatchObject({ revision: 2 });
+      expect(memory.dump()[SHARE_PATH]).toEqual({ ownerId: USER_ID, workId: "work-1" });
+    });
+
+    it("停止の保存に失敗した場合は以前のリンクを残したままエラーを返す", async () => {
+      const worksStore = useWorksStore();
+      await worksStore.fetchWorks(USER_ID);
+      setStorageAdapter({
+        ...memory,
+        async writeBatch() {
+          throw Object.assign(new Error("権限がありません。"), { code: "permission-denied" });
+        },
+      });
+
+      await expect(worksStore.updatePublicShare({ userId: USER_ID, workId: "work-1", enabled: false })).rejects.toThrow("権限がありません。");
+      expect(worksStore.getWorkById("work-1")!.publicShareToken).toBe(TOKEN);
+      expect(memory.dump()[PATH]).toMatchObject({ publicShareToken: TOKEN });
+      expect(memory.dump()[SHARE_PATH]).toBeDefined();
+    });
+
+    it("owner の権限で共有された作品を削除すると、スナップショットも同時に削除する", async () => {
+      const sharedPath = buildWorkDocumentPath("alice", "work-1");
+      const sharedWork = buildWork({ publicShareToken: TOKEN, members: { [USER_ID]: "owner" } });
+      await memory.setDocument(sharedPath, serializeWork(sharedWork));
+      const worksStore = useWorksStore();
+      worksStore.setWorks([{ ...sharedWork, ownerId: "alice" }]);
+
+      await worksStore.removeWork({ userId: USER_ID, workId: "work-1" });
+      expect(memory.dump()[sharedPath]).toBeUndefined();
+      expect(memory.dump()[SHARE_PATH]).toBeUndefined();
+    });
+  });
+});
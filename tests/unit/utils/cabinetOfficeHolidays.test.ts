@@ -0,0 +1,64 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { decodeHolidayCsv, diffHolidays, hasHolidayChanges, parseCabinetOfficeHolidayCsv } from "@/utils/cabinetOfficeHolidays";
+import { formatLocalDate, type Holiday } from "@/utils/dateUtils";
+
+// 内閣府の配布ファイルと同じ Shift_JIS・CRLF の CSV
+const readFixture = () => {
+  const bytes = readFileSync(new URL("../fixtures/syukujitsu.csv", import.meta.url));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+};
+
+const holiday = (date: string, name: string): Holiday => {
+  const [year, month, day] = date.split("-").map(Number);
+  return { date: new Date(year!, month! - 1, day), name };
+};
+
+const toEntries = (holidays: Array<{ date: Date; name: string }>) => holidays.map(({ date, name }) => [formatLocalDate(date), name]);
+
+describe("内閣府の祝日 CSV の読み込み", () => {
+  it("Shift_JIS の CSV を見出し行を除いて祝日一覧に変換する", () => {
+    expect(toEntries(parseCabinetOfficeHolidayCsv(decodeHolidayCsv(readFixture())))).toEqual([
+      ["2026-01-01", "元日"],
+      ["2026-01-12", "成人の日"],
+      ["2026-05-06", "休日"],
+      ["2026-11-03", "文化の日"],
+    ]);
+  });
+
+  it("UTF-8 で保存し直した CSV もそのまま読み込む", () => {
+    const text = "国民の祝日・休日月日,国民の祝日・休日名称\n2026/1/1,\"元日\"\n";
+    const buffer = new TextEncoder().encode(text).buffer;
+    expect(toEntries(parseCabinetOfficeHolidayCsv(decodeHolidayCsv(buffer)))).toEqual([["2026-01-01", "元日"]]);
+  });
+
+  it("文字化けした CSV は祝日として読み込まずにエラーにする", () => {
+    // Shift_JIS の CSV を UTF-8 として文字列にした場合
+    const garbled = new TextDecoder("utf-8").decode(readFixture());
+    expect(() => parseCabinetOfficeHolidayCsv(garbled)).toThrow("祝日を読み込めませんでした。");
+  });
+});
+
+describe("祝日データの差分", () => {
+  const current = [holiday("2026-01-01", "元日"), holiday("2026-05-06", "振替休日"), holiday("2026-07-20", "海の日")];
+  const next = [holiday("2026-11-03", "文化の日"), holiday("2026-01-01", "元日"), holiday("2026-05-06", "休日"), holiday("2026-01-12", "成人の日")];
+
+  it("日付単位で追加・削除・名称変更を日付順に求める", () => {
+    const diff = diffHolidays(current, next);
+
+    expect(toEntries(diff.added)).toEqual([
+      ["2026-01-12", "成人の日"],
+      ["2026-11-03", "文化の日"],
+    ]);
+    expect(toEntries(diff.removed)).toEqual([["2026-07-20", "海の日"]]);
+    expect(diff.renamed.map(({ date, before, after }) => [formatLocalDate(date), before, after])).toEqual([["2026-05-06", "振替休日", "休日"]]);
+    expect(diff.unchangedCount).toBe(1);
+    expect(hasHolidayChanges(diff)).toBe(true);
+  });
+
+  it("同じ祝日データは変更なしとする", () => {
+    const diff = diffHolidays(current, [...current].reverse());
+    expect(diff).toMatchObject({ added: [], removed: [], renamed: [], unchangedCount: 3 });
+    expect(hasHolidayChanges(diff)).toBe(false);
+  });
+});
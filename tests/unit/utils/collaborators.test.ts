@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import type { Collaborator } from "@/store/collaboratorsStore";
+import { createUnitAssigneeView, describeUnitAssignees, matchesAssigneeFilter, type AssigneeStage } from "@/utils/collaborators";
+
+const ASSISTANT: Collaborator = { id: "assistant-a", name: "Aさん", color: "#ff0000", workHours: [] };
+
+// 工程IDが一覧の位置と一致しない作品（工程の削除・並べ替え後）
+const STAGES: AssigneeStage[] = [
+  { id: 1, label: "下書き" },
+  { id: 3, label: "背景" },
+  { id: 2, label: "仕上げ", prerequisites: [1, 3] },
+];
+
+const viewWith = (filter: string) => ({ ...createUnitAssigneeView([ASSISTANT], STAGES), filter });
+
+describe("担当者での絞り込み", () => {
+  it("すべての工程をアシスタントに割り当てたユニットは本人に含めない", () => {
+    const unit = {
+      stageAssignees: STAGES.map((stage) => ({ stageId: stage.id, collaboratorId: ASSISTANT.id })),
+    };
+    expect(matchesAssigneeFilter(unit, viewWith("owner"))).toBe(false);
+    expect(matchesAssigneeFilter(unit, viewWith(ASSISTANT.id))).toBe(true);
+  });
+
+  it("一部の工程だけを割り当てたユニットは本人とアシスタントの両方に含める", () => {
+    const unit = { stageAssignees: [{ stageId: 3, collaboratorId: ASSISTANT.id }] };
+    expect(matchesAssigneeFilter(unit, viewWith("owner"))).toBe(true);
+    expect(matchesAssigneeFilter(unit, viewWith(ASSISTANT.id))).toBe(true);
+  });
+
+  it("削除済みのアシスタントに割り当てたユニットは本人として扱う", () => {
+    const unit = { assigneeId: "removed", stageAssignees: [{ stageId: 3, collaboratorId: "removed" }] };
+    expect(matchesAssigneeFilter(unit, viewWith("owner"))).toBe(true);
+    expect(matchesAssigneeFilter(unit, viewWith("removed"))).toBe(false);
+  });
+
+  it("工程がない場合はユニットの担当者で判定する", () => {
+    const view = { ...viewWith("owner"), stages: [] };
+    expect(matchesAssigneeFilter({ assigneeId: ASSISTANT.id }, view)).toBe(false);
+    expect(matchesAssigneeFilter({}, view)).toBe(true);
+  });
+});
+
+describe("担当者の説明", () => {
+  it("工程名を一覧の位置ではなく工程IDで引く", () => {
+    const unit = { stageAssignees: [{ stageId: 2, collaboratorId: ASSISTANT.id }, { stageId: 9, collaboratorId: "removed" }] };
+    expect(describeUnitAssignees(unit, createUnitAssigneeView([ASSISTANT], STAGES))).toBe("仕上げ: Aさん / 工程9: 不明なアシスタント");
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import type { CustomDate } from "@/store/customDatesStore";
+import { planCustomDateImport, toPreviewCustomDate, type CustomDateImportOptions } from "@/utils/customDateImport";
+import type { ParsedICalendarEvent } from "@/utils/icalendar";
+
+const buildEvent = (overrides: Partial<ParsedICalendarEvent> & Pick<ParsedICalendarEvent, "start" | "end">): ParsedICalendarEvent => ({
+  uid: "event",
+  summary: "予定",
+  categories: [],
+  allDay: false,
+  transparent: false,
+  recurring: false,
+  ...overrides,
+});
+
+const buildOptions = (overrides: Partial<CustomDateImportOptions> = {}): CustomDateImportOptions => ({
+  holidayTag: "任意休日",
+  overwriteExisting: false,
+  existingCustomDates: [],
+  getBaseWorkTime: () => ({ hours: 8, windows: [{ start: "10:00", end: "18:00" }] }),
+  ...overrides,
+});
+
+describe("カレンダーからのカスタム日付の取り込み", () => {
+  it("任意休日のタグ付きは任意休日、終日の予定は作業不可にする", () => {
+    const changes = planCustomDateImport(
+      [
+        buildEvent({ summary: "旅行", categories: ["任意休日"], allDay: true, start: new Date(2026, 9, 20), end: new Date(2026, 9, 22) }),
+        buildEvent({ summary: "法事", allDay: true, start: new Date(2026, 9, 25), end: new Date(2026, 9, 26) }),
+      ],
+      buildOptions(),
+    );
+    expect(changes.map((change) => [change.date, change.type, change.summaries])).toEqual([
+      ["2026-10-20", "custom-holiday", ["旅行"]],
+      ["2026-10-21", "custom-holiday", ["旅行"]],
+      ["2026-10-25", "unavailable", ["法事"]],
+    ]);
+  });
+
+  it("時間指定の予定は作業時間帯から除いた残りを作業時間にする", () => {
+    const [change] = planCustomDateImport([buildEvent({ summary: "歯医者", start: new Date(2026, 9, 20, 14), end: new Date(2026, 9, 20, 15, 30) })], buildOptions());
+    expect(change).toMatchObject({
+      date: "2026-10-20",
+      type: "custom-hours",
+      customHours: 6.5,
+      windows: [
+        { start: "10:00", end: "14:00" },
+        { start: "15:30", end: "18:00" },
+      ],
+    });
+  });
+
+  it("作業時間と重ならない予定・予定なしの予定・取り込み開始日より前の予定は取り込まない", () => {
+    const changes = planCustomDateImport(
+      [
+        buildEvent({ start: new Date(2026, 9, 20, 19), end: new Date(2026, 9, 20, 20) }),
+        buildEvent({ transparent: true, allDay: true, start: new Date(2026, 9, 21), end: new Date(2026, 9, 22) }),
+        buildEvent({ allDay: true, start: new Date(2026, 9, 1), end: new Date(2026, 9, 2) }),
+      ],
+      buildOptions({ fromDate: "2026-10-18" }),
+    );
+    expect(changes).toEqual([]);
+  });
+
+  it("既に設定がある日は上書きを選んだ場合だけ変更する", () => {
+    const existing: CustomDate = { id: "2026-10-25", date: "2026-10-25", type: "custom-holiday", createdAt: "2026-10-01T00:00:00.000Z", updatedAt: "2026-10-01T00:00:00.000Z" };
+    const events = [buildEvent({ allDay: true, start: new Date(2026, 9, 25), end: new Date(2026, 9, 26) })];
+
+    expect(planCustomDateImport(events, buildOptions({ existingCustomDates: [existing] }))).toEqual([]);
+    const [change] = planCustomDateImport(events, buildOptions({ existingCustomDates: [existing], overwriteExisting: true }));
+    expect(change!.existing).toBe(existing);
+    expect(toPreviewCustomDate(change!)).toMatchObject({ date: "2026-10-25", type: "unavailable", createdAt: existing.createdAt });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import type { CustomDate, CustomDateRule } from "@/store/customDatesStore";
+import { describeCustomDateRecurrence, findUpcomingRuleDates, matchesCustomDateRule, resolveCustomDate } from "@/utils/customDateRules";
+
+const NOW = "2026-10-01T00:00:00.000Z";
+
+const buildRule = (overrides: Partial<CustomDateRule> = {}): CustomDateRule => ({
+  id: "rule-1",
+  label: "定休日",
+  recurrence: { frequency: "weekly", weekdays: [3], interval: 1 },
+  type: "custom-holiday",
+  startDate: "2026-10-01",
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides,
+});
+
+describe("繰り返しのカスタム日付", () => {
+  it("毎週・隔週の曜日に適用する", () => {
+    expect(findUpcomingRuleDates(buildRule(), "2026-10-01")).toEqual(["2026-10-07", "2026-10-14", "2026-10-21"]);
+    const biweekly = buildRule({ recurrence: { frequency: "weekly", weekdays: [3], interval: 2 } });
+    expect(findUpcomingRuleDates(biweekly, "2026-10-01")).toEqual(["2026-10-14", "2026-10-28", "2026-11-11"]);
+  });
+
+  it("毎月第N・最終の曜日に適用する", () => {
+    const second = buildRule({ recurrence: { frequency: "monthly", nth: 2, weekday: 2 } });
+    expect(findUpcomingRuleDates(second, "2026-10-01", 2)).toEqual(["2026-10-13", "2026-11-10"]);
+    const last = buildRule({ recurrence: { frequency: "monthly", nth: -1, weekday: 5 } });
+    expect(findUpcomingRuleDates(last, "2026-10-01", 2)).toEqual(["2026-10-30", "2026-11-27"]);
+  });
+
+  it("年をまたぐ毎年の期間に適用する", () => {
+    const newYear = buildRule({ recurrence: { frequency: "yearly", startMonthDay: "12-29", endMonthDay: "01-03" } });
+    expect(matchesCustomDateRule(newYear, "2026-12-31")).toBe(true);
+    expect(matchesCustomDateRule(newYear, "2027-01-03")).toBe(true);
+    expect(matchesCustomDateRule(newYear, "2027-01-04")).toBe(false);
+  });
+
+  it("適用期間外と例外の日には適用しない", () => {
+    const rule = buildRule({ endDate: "2026-10-20", exceptions: ["2026-10-14"] });
+    expect(findUpcomingRuleDates(rule, "2026-09-01", 5)).toEqual(["2026-10-07"]);
+  });
+
+  it("日付ごとの設定をルールより優先する", () => {
+    const override: CustomDate = { id: "2026-10-07", date: "2026-10-07", type: "unavailable", createdAt: NOW, updatedAt: NOW };
+    expect(resolveCustomDate("2026-10-07", [override], [buildRule()])).toBe(override);
+    expect(resolveCustomDate("2026-10-14", [override], [buildRule()])).toMatchObject({ date: "2026-10-14", type: "custom-holiday", ruleId: "rule-1" });
+    expect(resolveCustomDate("2026-10-15", [override], [buildRule()])).toBeUndefined();
+  });
+
+  it("繰り返し条件を表示用のテキストにする", () => {
+    expect(describeCustomDateRecurrence({ frequency: "weekly", weekdays: [6, 0], interval: 2 })).toBe("隔週 日・土曜日");
+    expect(describeCustomDateRecurrence({ frequency: "monthly", nth: -1, weekday: 5 })).toBe("毎月最終金曜日");
+  });
+});
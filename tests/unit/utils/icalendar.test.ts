@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { buildICalendar, buildICalendarUid, escapeICalendarText, foldICalendarLine, parseICalendar, unescapeICalendarText } from "@/utils/icalendar";
+
+describe("iCalendar の書き出し", () => {
+  it("TEXT 値をエスケープし、読み込み時に戻す", () => {
+    const text = "締切; 原稿, 入稿\\確認\n再提出";
+    expect(escapeICalendarText(text)).toBe("締切\\; 原稿\\, 入稿\\\\確認\\n再提出");
+    expect(unescapeICalendarText(escapeICalendarText(text))).toBe(text);
+  });
+
+  it("75オクテットを超える行を文字の途中で分割せずに折り返す", () => {
+    const folded = foldICalendarLine(`SUMMARY:${"締切".repeat(20)}`);
+    const lines = folded.split("\r\n ");
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach((line, index) => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(index === 0 ? 75 : 74));
+    expect(lines.join("")).toBe(`SUMMARY:${"締切".repeat(20)}`);
+  });
+
+  it("終日イベントは翌日を終了日、24:00 は翌日 0:00 として書き出す", () => {
+    const calendar = buildICalendar(
+      [
+        { uid: buildICalendarUid("work", "原稿 A"), summary: "締切", date: "2026-10-31", endDate: "2026-11-01" },
+        { uid: "block@mangaflowmanager", summary: "作業", date: "2026-10-31", startTime: "22:00", endTime: "24:00" },
+      ],
+      { generatedAt: "2026-10-18T00:00:00.000Z" },
+    );
+
+    expect(calendar).toContain("UID:work-%E5%8E%9F%E7%A8%BF%20A@mangaflowmanager\r\n");
+    expect(calendar).toContain("DTSTART;VALUE=DATE:20261031\r\nDTEND;VALUE=DATE:20261102\r\n");
+    expect(calendar).toContain("DTSTART:20261031T220000\r\nDTEND:20261101T000000\r\n");
+    expect(calendar).toContain("DTSTAMP:20261018T000000Z\r\n");
+    expect(calendar.endsWith("END:VCALENDAR\r\n")).toBe(true);
+  });
+});
+
+describe("iCalendar の読み込み", () => {
+  it("書き出したカレンダーを読み込める", () => {
+    const calendar = buildICalendar([{ uid: "a@mangaflowmanager", summary: "休み, 旅行", date: "2026-10-31", categories: ["任意休日"] }]);
+    const [event] = parseICalendar(calendar);
+    expect(event).toMatchObject({ uid: "a@mangaflowmanager", summary: "休み, 旅行", categories: ["任意休日"], allDay: true, transparent: false, recurring: false });
+    expect(event!.start).toEqual(new Date(2026, 9, 31));
+    expect(event!.end).toEqual(new Date(2026, 10, 1));
+  });
+
+  it("折り返し行・DURATION・UTC の日時・繰り返しを扱い、キャンセル済みと VALARM は除外する", () => {
+    const text = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "UID:meeting",
+      "SUMMARY:打ち合",
+      " わせ",
+      "DTSTART:20261020T010000Z",
+      "DURATION:PT1H30M",
+      "RRULE:FREQ=WEEKLY",
+      "TRANSP:TRANSPARENT",
+      "BEGIN:VALARM",
+      "SUMMARY:通知",
+      "END:VALARM",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:cancelled",
+      "DTSTART;VALUE=DATE:20261021",
+      "STATUS:CANCELLED",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+
+    const events = parseICalendar(text);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ uid: "meeting", summary: "打ち合わせ", allDay: false, transparent: true, recurring: true });
+    expect(events[0]!.start).toEqual(new Date(Date.UTC(2026, 9, 20, 1)));
+    expect(events[0]!.end).toEqual(new Date(Date.UTC(2026, 9, 20, 2, 30)));
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { fillDailyCompletedHours, projectCompletion } from "@/utils/progressProjection";
+
+const SERIES = [
+  { date: "2026-10-01", completedHours: 2 },
+  { date: "2026-10-03", completedHours: 6 },
+  { date: "2026-10-06", completedHours: 9 },
+  { date: "2026-10-10", completedHours: 16 },
+];
+
+// 土日を作業不可とする
+const isWeekday = (date: string) => {
+  const day = new Date(`${date}T00:00:00`).getDay();
+  return day !== 0 && day !== 6;
+};
+
+describe("完了予測", () => {
+  it("記録のない日は前日の完了工数を引き継ぐ", () => {
+    expect(fillDailyCompletedHours(SERIES.slice(0, 2), "2026-10-04").map((point) => point.completedHours)).toEqual([2, 2, 6, 6]);
+  });
+
+  it("直近のペースから完了日と早い場合・遅い場合の範囲を求める", () => {
+    const projection = projectCompletion(SERIES, 40, { today: "2026-10-12", basis: "calendar" })!;
+
+    expect(projection).toMatchObject({ sampleDays: 11, remainingHours: 24, projectedDate: "2026-10-31", earliestDate: "2026-10-23", latestDate: "2026-12-19" });
+    expect(projection.velocityLow).toBeLessThan(projection.velocity);
+    expect(projection.velocityHigh).toBeGreaterThan(projection.velocity);
+    expect(projection.points[0]).toEqual({ date: "2026-10-12", expected: 16, low: 16, high: 16 });
+    expect(projection.points[projection.points.length - 1]).toMatchObject({ date: "2026-12-19", expected: 40, low: 40, high: 40 });
+  });
+
+  it("作業可能日あたりでは、作業不可の日の進捗を次の作業可能日に繰り越し、作業不可の日は進めない", () => {
+    const projection = projectCompletion(SERIES, 40, { today: "2026-10-12", basis: "workable", isWorkableDay: isWeekday })!;
+
+    // 10/2〜10/12 の作業可能日は7日、増分の合計は14時間
+    expect(projection.sampleDays).toBe(7);
+    expect(projection.velocity).toBe(2);
+    expect(projection.projectedDate).toBe("2026-10-28");
+    const weekend = projection.points.filter((point) => point.date === "2026-10-17" || point.date === "2026-10-18");
+    expect(weekend[0]!.expected).toBe(weekend[1]!.expected);
+  });
+
+  it("完了済み・直近に進捗がない場合は予測しない", () => {
+    expect(projectCompletion(SERIES, 16, { today: "2026-10-12", basis: "calendar" })).toBeNull();
+    expect(projectCompletion([{ date: "2026-09-01", completedHours: 3 }], 16, { today: "2026-10-12", basis: "calendar" })).toBeNull();
+    expect(projectCompletion([], 16, { today: "2026-10-12", basis: "calendar" })).toBeNull();
+  });
+});
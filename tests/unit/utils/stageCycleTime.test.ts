@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { StageTransitionEvent } from "@/types/models";
+import { calculateStageCycleTimes } from "@/utils/stageCycleTime";
+
+const HOUR = 60 * 60 * 1000;
+
+const LINEAR_STAGES = [
+  { id: 1, label: "ネーム", color: "#0d6efd" },
+  { id: 2, label: "線画", color: "#6610f2" },
+  { id: 3, label: "仕上げ", color: "#d63384" },
+];
+
+// 線画と背景はネーム後に並行して進め、仕上げは両方の完了を待つ
+const BRANCHING_STAGES = [
+  { id: 1, label: "ネーム", color: "#0d6efd" },
+  { id: 2, label: "線画", color: "#6610f2", prerequisites: [1] },
+  { id: 3, label: "背景", color: "#6f42c1", prerequisites: [1] },
+  { id: 4, label: "仕上げ", color: "#d63384", prerequisites: [2, 3] },
+];
+
+const completion = (unitId: string, stageId: number, hours: number, completed = true): StageTransitionEvent => ({
+  unitId,
+  fromStage: 0,
+  toStage: 0,
+  timestamp: hours * HOUR,
+  stageId,
+  completed,
+});
+
+describe("工程別サイクルタイム", () => {
+  it("直列の作品は前の工程に到達してから次の工程に到達するまでを計測する", () => {
+    const rows = calculateStageCycleTimes(
+      [
+        { unitId: "a", fromStage: 0, toStage: 1, timestamp: 0 },
+        { unitId: "a", fromStage: 1, toStage: 2, timestamp: 3 * HOUR },
+        { unitId: "b", fromStage: 0, toStage: 1, timestamp: 0 },
+        { unitId: "b", fromStage: 1, toStage: 2, timestamp: 5 * HOUR },
+      ],
+      LINEAR_STAGES,
+    );
+    expect(rows.map((row) => row.sampleCount)).toEqual([0, 0, 2]);
+    expect(rows[2]!.medianHours).toBe(4);
+  });
+
+  it("分岐する作品は前提工程がすべて完了してからの時間を工程ごとの完了イベントから計測する", () => {
+    const rows = calculateStageCycleTimes(
+      [
+        completion("a", 1, 0),
+        completion("a", 3, 2),
+        completion("a", 2, 4),
+        // 仕上げは線画・背景の遅い方（4時間）から数える
+        completion("a", 4, 7),
+      ],
+      BRANCHING_STAGES,
+    );
+    expect(rows.map((row) => row.medianHours)).toEqual([null, 4, 2, 3]);
+  });
+
+  it("完了を取り消した前提工程からは計測しない", () => {
+    const rows = calculateStageCycleTimes(
+      [completion("a", 1, 0), completion("a", 2, 1), completion("a", 3, 1), completion("a", 3, 2, false), completion("a", 4, 3)],
+      BRANCHING_STAGES,
+    );
+    expect(rows[3]!.sampleCount).toBe(0);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  completeNextStage,
+  deriveStageIndex,
+  getAvailableStageIds,
+  getCompletedStageIds,
+  isLinearStageFlow,
+  resequenceStagePrerequisites,
+  resolveStagePrerequisites,
+  sumCompletedStageHours,
+  toggleStageCompletion,
+  validateStagePrerequisites,
+} from "@/utils/stageGraph";
+
+// 下書き → (背景 / 人物ペン) → 仕上げ
+const BRANCHING = [
+  { id: 1 },
+  { id: 2, prerequisites: [1] },
+  { id: 3, prerequisites: [1] },
+  { id: 4, prerequisites: [2, 3] },
+];
+const LINEAR = [{ id: 1 }, { id: 2 }, { id: 3 }];
+
+describe("工程の前提関係", () => {
+  it("未設定の工程は直前の工程を前提とし、後ろの工程への指定は無視する", () => {
+    expect(resolveStagePrerequisites([{ id: 1 }, { id: 2 }, { id: 3, prerequisites: [1, 4] }, { id: 4 }])).toEqual([[], [1], [1], [3]]);
+  });
+
+  it("直列かどうかを判定する", () => {
+    expect(isLinearStageFlow(LINEAR)).toBe(true);
+    expect(isLinearStageFlow(BRANCHING)).toBe(false);
+  });
+
+  it("後ろの工程や存在しない工程を前提にした設定を検出する", () => {
+    expect(validateStagePrerequisites([{ id: 1, label: "下書き", prerequisites: [2] }, { id: 2 }])).toEqual([
+      "「下書き」の前提工程には、この工程より前の工程だけを指定できます。",
+    ]);
+    expect(validateStagePrerequisites(BRANCHING)).toEqual([]);
+  });
+
+  it("工程を並べ替えたときは前提工程IDを位置に合わせて振り直す", () => {
+    expect(resequenceStagePrerequisites([{ id: 3 }, { id: 1, prerequisites: [3] }, { id: 5, prerequisites: [1, 3, 9] }])).toEqual([undefined, [1], [1, 2]]);
+  });
+});
+
+describe("工程ごとの完了", () => {
+  it("直列の工程は stageIndex から完了した工程を求める", () => {
+    expect([...getCompletedStageIds({ stageIndex: 0 }, LINEAR)]).toEqual([]);
+    expect([...getCompletedStageIds({ stageIndex: 1 }, LINEAR)]).toEqual([1, 2]);
+  });
+
+  it("分岐のある工程は completedStageIds を使う", () => {
+    expect([...getCompletedStageIds({ stageIndex: 0, completedStageIds: [1, 3, 9] }, BRANCHING)]).toEqual([1, 3]);
+  });
+
+  it("前提工程が完了している工程だけを着手できる", () => {
+    expect(getAvailableStageIds(new Set([1]), BRANCHING)).toEqual([2, 3]);
+    expect(getAvailableStageIds(new Set([1, 3]), BRANCHING)).toEqual([2]);
+    expect(toggleStageCompletion(new Set([1]), 4, BRANCHING)).toBeNull();
+  });
+
+  it("完了を取り消すと後続の工程も未完了に戻す", () => {
+    expect([...toggleStageCompletion(new Set([1, 2, 3, 4]), 1, BRANCHING)!]).toEqual([]);
+    expect([...toggleStageCompletion(new Set([1, 2, 3, 4]), 3, BRANCHING)!]).toEqual([1, 2]);
+  });
+
+  it("stageIndex は先頭から続けて完了している最後の工程", () => {
+    expect(deriveStageIndex(new Set([1, 3]), BRANCHING)).toBe(0);
+    expect(deriveStageIndex(new Set([1, 2, 3]), BRANCHING)).toBe(2);
+  });
+
+  it("次の工程を完了にし、すべて完了していれば最初に戻す", () => {
+    expect([...completeNextStage(new Set([1, 3]), BRANCHING)]).toEqual([1, 3, 2]);
+    expect([...completeNextStage(new Set([1, 2, 3, 4]), BRANCHING)]).toEqual([]);
+  });
+
+  it("完了した工程の工数を合計する", () => {
+    expect(sumCompletedStageHours(new Set([1, 3]), BRANCHING, [1, 2, 3, 4])).toBe(4);
+  });
+});
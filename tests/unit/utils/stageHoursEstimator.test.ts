@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import type { StageTransitionEvent } from "@/types/models";
+import type { Work } from "@/types/work";
+import { estimateStageHoursFromHistory } from "@/utils/stageHoursEstimator";
+import { buildStageWorkloadMetrics } from "@/utils/workStoreHelpers";
+import { buildWork } from "../fixtures/work";
+
+// 線画と背景はネーム後に並行して進める
+const BRANCHING_STAGES = [
+  { id: 1, label: "ネーム", color: "#0d6efd", baseHours: 1 },
+  { id: 2, label: "線画", color: "#6610f2", baseHours: 1, prerequisites: [1] },
+  { id: 3, label: "背景", color: "#6f42c1", baseHours: 1, prerequisites: [1] },
+];
+
+const GRANULARITIES = [
+  { id: "page", label: "ページ", weight: 2, defaultCount: 1 },
+  { id: "panel", label: "コマ", weight: 1, defaultCount: 2 },
+];
+
+const completedAt = (unitId: string, stageId: number, date: string, completed = true): StageTransitionEvent => ({
+  unitId,
+  fromStage: 0,
+  toStage: 0,
+  timestamp: new Date(`${date}T12:00:00`).getTime(),
+  stageId,
+  completed,
+});
+
+const estimate = (work: Work) =>
+  estimateStageHoursFromHistory([work], {
+    resolveMetrics: (target) => buildStageWorkloadMetrics(target, GRANULARITIES, []),
+    getWorkableHours: () => 6,
+    stageCount: BRANCHING_STAGES.length,
+  });
+
+describe("実績からの工程工数の推定", () => {
+  it("分岐する作品は進捗履歴がなくても工程ごとの完了イベントから推定する", () => {
+    const work = buildWork({
+      workStageWorkloads: BRANCHING_STAGES,
+      stageTransitions: [
+        completedAt("panel-1", 1, "2026-10-10"),
+        completedAt("panel-2", 1, "2026-10-10"),
+        // 並行する背景だけを終えた日
+        completedAt("panel-1", 3, "2026-10-11"),
+        // 同じ日に取り消した完了は差し引く
+        completedAt("panel-2", 3, "2026-10-11"),
+        completedAt("panel-2", 3, "2026-10-11", false),
+      ],
+    });
+
+    const [name, lineArt, background] = estimate(work);
+    expect(name).toMatchObject({ estimatedHours: 3, sampleUnits: 2, sampleDays: 1 });
+    expect(lineArt).toMatchObject({ estimatedHours: null, sampleUnits: 0 });
+    expect(background).toMatchObject({ estimatedHours: 6, sampleUnits: 1, sampleDays: 1 });
+  });
+});
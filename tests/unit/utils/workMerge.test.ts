@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { Work } from "@/types/work";
+import { countDivergedLeafUnits, mergeProgressHistory, mergeStageTransitions, mergeWorkVersions } from "@/utils/workMerge";
+import { buildWork } from "../fixtures/work";
+
+const withStages = (first: number, second: number, completedStageIds?: [number[], number[]]): Work["units"] => [
+  {
+    id: "page-1",
+    index: 1,
+    children: [
+      { id: "panel-1", index: 1, stageIndex: first, ...(completedStageIds ? { completedStageIds: completedStageIds[0] } : {}) },
+      { id: "panel-2", index: 2, stageIndex: second, ...(completedStageIds ? { completedStageIds: completedStageIds[1] } : {}) },
+    ],
+  },
+];
+
+describe("作品の版のマージ", () => {
+  it("進捗履歴は日付ごとに新しい記録を採用する", () => {
+    const merged = mergeProgressHistory(
+      [{ date: "2026-10-02", timestamp: 20, unitStageCounts: [{ stageId: 1, count: 1 }] }],
+      [
+        { date: "2026-10-01", timestamp: 5, unitStageCounts: [{ stageId: 1, count: 0 }] },
+        { date: "2026-10-02", timestamp: 10, unitStageCounts: [{ stageId: 1, count: 2 }] },
+      ],
+    );
+    expect(merged.map((entry) => [entry.date, entry.timestamp])).toEqual([
+      ["2026-10-01", 5],
+      ["2026-10-02", 20],
+    ]);
+  });
+
+  it("工程変更イベントの重複をまとめて時刻順に並べる", () => {
+    const event = { unitId: "panel-1", fromStage: 0, toStage: 1, timestamp: 10 };
+    expect(mergeStageTransitions([event, { ...event, timestamp: 5 }], [event])).toEqual([{ ...event, timestamp: 5 }, event]);
+  });
+
+  it("ユニットごとに進んだ方の工程を採用し、保存済みの版数を引き継ぐ", () => {
+    const local = buildWork({ units: withStages(2, 0), revision: 3 });
+    const remote = buildWork({ units: withStages(1, 1), revision: 4, members: { friend: "editor" } });
+
+    expect(countDivergedLeafUnits(local, remote)).toBe(2);
+    const merged = mergeWorkVersions(local, remote);
+    expect(merged.units[0]!.children!.map((unit) => unit.stageIndex)).toEqual([2, 1]);
+    expect(merged.revision).toBe(4);
+    expect(merged.members).toEqual({ friend: "editor" });
+  });
+
+  it("工程ごとの完了記録はどちらかで完了していれば完了とする", () => {
+    const merged = mergeWorkVersions(buildWork({ units: withStages(0, 0, [[1, 3], []]) }), buildWork({ units: withStages(0, 0, [[1, 2], [1]]) }));
+    expect(merged.units[0]!.children!.map((unit) => unit.completedStageIds)).toEqual([[1, 2, 3], [1]]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { buildWorkSchedule, compareSchedulePriority, splitAllocationByStage } from "@/utils/workScheduler";
+
+// 2026-10-18 は日曜日。土日は作業しない
+const weekdayCapacity = (hours: number) => (date: string) => {
+  const day = new Date(`${date}T00:00:00`).getDay();
+  return day === 0 || day === 6 ? 0 : hours;
+};
+
+describe("作業計画", () => {
+  it("優先度の高い順、締切の早い順、締切なしの順に割り当てる", () => {
+    const works = [
+      { id: "a", title: "締切なし", deadline: "", remainingHours: 1 },
+      { id: "b", title: "締切が遅い", deadline: "2026-12-01", remainingHours: 1 },
+      { id: "c", title: "締切が早い", deadline: "2026-11-01", remainingHours: 1 },
+      { id: "d", title: "優先", deadline: "2026-12-31", remainingHours: 1, priority: 1 },
+    ];
+    expect([...works].sort(compareSchedulePriority).map((work) => work.id)).toEqual(["d", "c", "b", "a"]);
+  });
+
+  it("日ごとの作業可能時間を割り当て順に埋め、完了予定日を求める", () => {
+    const schedule = buildWorkSchedule(
+      [
+        { id: "a", title: "A", deadline: "2026-10-20", remainingHours: 6 },
+        { id: "b", title: "B", deadline: "2026-10-30", remainingHours: 4 },
+      ],
+      { startDate: "2026-10-18", getCapacity: weekdayCapacity(4) },
+    );
+
+    expect(schedule.days.map((day) => [day.date, day.allocations])).toEqual([
+      ["2026-10-18", []],
+      ["2026-10-19", [{ workId: "a", hours: 4 }]],
+      [
+        "2026-10-20",
+        [
+          { workId: "a", hours: 2 },
+          { workId: "b", hours: 2 },
+        ],
+      ],
+      ["2026-10-21", [{ workId: "b", hours: 2 }]],
+    ]);
+    expect(schedule.works.map((work) => [work.workId, work.projectedFinishDate, work.missesDeadline])).toEqual([
+      ["a", "2026-10-20", false],
+      ["b", "2026-10-21", false],
+    ]);
+  });
+
+  it("締切に間に合わない作品と不足する工数を検出する", () => {
+    const schedule = buildWorkSchedule([{ id: "a", title: "A", deadline: "2026-10-19", remainingHours: 10 }], {
+      startDate: "2026-10-18",
+      getCapacity: weekdayCapacity(4),
+    });
+    expect(schedule.missedWorkIds).toEqual(["a"]);
+    expect(schedule.works[0]).toMatchObject({ projectedFinishDate: "2026-10-21", shortfallHours: 6 });
+  });
+
+  it("締切に間に合わない作品の不足分を締切までの作業可能日に上乗せし、作業可能時間を超える日を過負荷とする", () => {
+    const schedule = buildWorkSchedule(
+      [
+        { id: "a", title: "A", deadline: "2026-10-20", remainingHours: 10 },
+        { id: "b", title: "B", deadline: "2026-10-30", remainingHours: 2 },
+      ],
+      { startDate: "2026-10-18", getCapacity: weekdayCapacity(4) },
+    );
+
+    expect(schedule.missedWorkIds).toEqual(["a"]);
+    expect(schedule.days.map((day) => [day.date, day.demand, day.overloaded])).toEqual([
+      ["2026-10-18", 0, false],
+      ["2026-10-19", 5, true],
+      ["2026-10-20", 5, true],
+      ["2026-10-21", 4, false],
+    ]);
+  });
+
+  it("割り当て済みの時間の続きから工程別に配分する", () => {
+    expect(splitAllocationByStage([2, 3, 1], 1, 3)).toEqual([1, 2, 0]);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import type { WorkUnit } from "@/types/work";
+import { MAX_STAGE_TRANSITIONS, MAX_TOP_LEVEL_UNITS, validateWorkDocument } from "@/utils/workSchema";
+import { serializeWork } from "@/utils/workSerializer";
+import { buildWork } from "../fixtures/work";
+
+describe("作品ドキュメントの形式チェック", () => {
+  it("serializeWork の形式は違反なしになる", () => {
+    expect(validateWorkDocument(serializeWork(buildWork()))).toEqual([]);
+  });
+
+  it("ユニットの形と階層の深さを検証する", () => {
+    const units = [
+      { id: "page-1", index: 1, stageIndex: 0, children: [] },
+      { id: "page-2", index: 2, children: [{ id: "a", index: 1, children: [{ id: "b", index: 1, children: [{ id: "c", index: 1, children: [{ id: "d", index: 1, children: [{ id: "e", index: 1, stageIndex: 0 }] }] }] }] }] },
+    ];
+    // serializeWork は形を整えるため、保存済みのドキュメントが壊れていた場合を直接検証する
+    expect(validateWorkDocument({ ...serializeWork(buildWork()), units: units as WorkUnit[] })).toEqual([
+      "ユニット 1 に工程と子ユニットの両方が設定されています。",
+      "ユニットの階層が深すぎます（最大 5 階層）。",
+    ]);
+  });
+
+  it("firestore.rules と同じ件数の上限を超えると違反になる", () => {
+    const units = Array.from({ length: MAX_TOP_LEVEL_UNITS + 1 }, (_, index) => ({ id: `page-${index + 1}`, index: index + 1, stageIndex: 0 }));
+    const stageTransitions = Array.from({ length: MAX_STAGE_TRANSITIONS + 1 }, (_, index) => ({ unitId: "panel-1", fromStage: 0, toStage: 1, timestamp: index }));
+    expect(validateWorkDocument(serializeWork(buildWork({ units, stageTransitions })))).toEqual([
+      `最上位のユニットが多すぎます（最大 ${MAX_TOP_LEVEL_UNITS} 件）。`,
+      `工程の変更履歴が多すぎます（最大 ${MAX_STAGE_TRANSITIONS} 件）。`,
+    ]);
+  });
+});
@@ -0,0 +1,18 @@
+import { fileURLToPath, URL } from "node:url";
+
+import { defineConfig } from "vitest/config";
+
+// Firestore セキュリティルールのテスト（`pnpm test:rules` でエミュレーター上で実行）
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  test: {
+    include: ["tests/rules/**/*.test.ts"],
+    environment: "node",
+    // エミュレーターのデータを共有するため、テストファイルを並列に実行しない
+    fileParallelism: false,
+  },
+});
@@ -0,0 +1,25 @@
+import { fileURLToPath, URL } from "node:url";
+
+import { defineConfig } from "vitest/config";
+
+// ユニットテスト（`pnpm test`。Firestore には接続せず、ストアはメモリアダプターで検証する）
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+    },
+  },
+  test: {
+    include: ["tests/unit/**/*.test.ts"],
+    environment: "node",
+    // Firebase の初期化に必要な値（接続はしないためデモ用の値でよい）
+    env: {
+      VITE_FIREBASE_API_KEY: "demo-api-key",
+      VITE_FIREBASE_AUTH_DOMAIN: "demo-manga-flow-manager.firebaseapp.com",
+      VITE_FIREBASE_PROJECT_ID: "demo-manga-flow-manager",
+      VITE_FIREBASE_STORAGE_BUCKET: "demo-manga-flow-manager.appspot.com",
+      VITE_FIREBASE_MESSAGING_SENDER_ID: "000000000000",
+      VITE_FIREBASE_APP_ID: "1:000000000000:web:0000000000000000",
+    },
+  },
+});